@@ -1,10 +1,37 @@
 // Admin Panel Script - TypeScript Version
 import { 
   PortfolioItem, 
+  PortfolioImage,
   ProductItem, 
+  ProductVariant,
+  Coupon,
+  CouponType,
+  ProductBundle,
+  CurrencyCode,
+  CurrencySetting,
+  CurrencyRounding,
+  ShippingZone,
+  ShippingRateType,
+  ProductDimensions,
+  Order,
+  OrderStatus,
+  OrderSource,
+  OrderInput,
+  OrderInputLine,
+  OrderFilter,
+  RestockRequest,
+  CategoryBase,
+  CategoryKind,
+  PortfolioCategory,
+  ProductCategory,
   SiteSettings, 
+  MessageTemplateKey,
+  MessageTemplates,
   User,
+  AdminSession,
+  SessionConfig,
   ThumbnailSize,
+  ThumbnailSizes,
   CropperConfig,
   MessageType,
   ImageTarget,
@@ -13,7 +40,11 @@ import {
   ProductCategoryName,
   SizeName,
   ProductType,
+  GridLayout,
+  PagingMode,
   StorageKeys,
+  SiteBackup,
+  BackupImportMode,
   Nullable,
   Optional
 } from './types.js';
@@ -31,6 +62,23 @@ import {
   ErrorUtils
 } from './utils.js';
 
+import { AsyncStorage } from './storage.js';
+import { SchemaMigrator } from './migrations.js';
+import { BackupUtils } from './backup.js';
+import { AuthUtils, SessionUtils, DEFAULT_SESSION_CONFIG } from './auth.js';
+import { CategoryUtils, DEFAULT_CATEGORIES, DEFAULT_PRODUCT_CATEGORIES } from './categories.js';
+import { LayoutUtils, THUMBNAIL_SIZES } from './layout.js';
+import { CartUtils } from './cart.js';
+import { PricingUtils } from './pricing.js';
+import { VariantUtils } from './variants.js';
+import { PromoUtils } from './promotions.js';
+import { CurrencyUtils, BASE_CURRENCY } from './currency.js';
+import { OrderUtils, ORDER_STATUS_LABELS } from './orders.js';
+import { InvoiceUtils } from './invoices.js';
+import { StockUtils } from './stock.js';
+import { ShippingUtils } from './shipping.js';
+import { TemplateUtils, TEMPLATE_PLACEHOLDERS, DEFAULT_MESSAGE_TEMPLATES } from './templates.js';
+
 // Import Cropper.js
 declare const Cropper: any;
 
@@ -40,14 +88,32 @@ declare const Cropper: any;
 class AdminApp {
   private portfolioData: PortfolioItem[] = [];
   private productsData: ProductItem[] = [];
+  private categories: PortfolioCategory[] = [];
+  private productCategories: ProductCategory[] = [];
   private siteSettings: SiteSettings;
   private currentUser: Nullable<User> = null;
+  private session: Nullable<AdminSession> = null;
+  private sessionMonitor: number | null = null;
+  private sessionWarningShown = false;
   private cropper: any = null;
   private currentImageTarget: ImageTarget = 'portfolio';
   private currentEditingId: Nullable<number> = null;
+  private editingCategoryIds: Record<CategoryKind, Nullable<number>> = { portfolio: null, product: null };
+  private coupons: Coupon[] = [];
+  private bundles: ProductBundle[] = [];
+  private orders: Order[] = [];
+  private restockRequests: RestockRequest[] = [];
+  private editingCouponId: Nullable<number> = null;
+  private editingBundleId: Nullable<number> = null;
+  private editingOrderId: Nullable<number> = null;
+  private orderLines: OrderInputLine[] = []; // Working copy for the order form
   private isInitialized = false;
-  private thumbnailSizes: ThumbnailSize[] = [];
+  private thumbnailSizes: ThumbnailSizes;
   private tempImageData: { [key: string]: string } = {};
+  private additionalImages: PortfolioImage[] = []; // Working copy for the portfolio form
+  private productVariants: ProductVariant[] = []; // Working copy for the product form
+  private currencies: CurrencySetting[] = []; // Working copy for the settings form
+  private shippingZones: ShippingZone[] = []; // Working copy for the settings form
 
   // DOM Elements Cache
   private elements: {
@@ -79,6 +145,7 @@ class AdminApp {
     this.handleEditItem = this.handleEditItem.bind(this);
     this.handlePreviewItem = this.handlePreviewItem.bind(this);
     this.handleLogin = this.handleLogin.bind(this);
+    this.handleSetup = this.handleSetup.bind(this);
     this.handleLogout = this.handleLogout.bind(this);
     this.showProductModal = this.showProductModal.bind(this);
     this.closeProductModal = this.closeProductModal.bind(this);
@@ -96,8 +163,8 @@ class AdminApp {
 
     try {
       this.cacheElements();
-      this.checkAuthStatus();
       await this.loadData();
+      this.checkAuthStatus();
       this.setupEventListeners();
       await this.renderContent();
       this.setupFormValidation();
@@ -126,38 +193,76 @@ class AdminApp {
       profileImage: DOMUtils.getElementById<HTMLImageElement>('profileImage'),
       tabButtons: DOMUtils.querySelectorAll<HTMLElement>('.nav-tab'),
       tabContents: DOMUtils.querySelectorAll<HTMLElement>('.tab-content'),
-      forms: DOMUtils.querySelectorAll<HTMLFormElement>('form')
+      forms: DOMUtils.querySelectorAll<HTMLFormElement>('form[data-type]')
     };
   }
 
   /**
-   * Load data from localStorage
+   * Load data from IndexedDB
    */
   private async loadData(): Promise<void> {
     PerformanceUtils.mark('admin-data-load-start');
 
     // Load portfolio data
-    this.portfolioData = SafeStorage.get(StorageKeys.PORTFOLIO_DATA, this.getDefaultPortfolio());
+    const storedPortfolio = await AsyncStorage.get<PortfolioItem[] | null>(StorageKeys.PORTFOLIO_DATA, null);
+    this.portfolioData = storedPortfolio || this.getDefaultPortfolio();
     
     // Load products data
-    this.productsData = SafeStorage.get(StorageKeys.PRODUCTS_DATA, this.getDefaultProducts());
+    const storedProducts = await AsyncStorage.get<ProductItem[] | null>(StorageKeys.PRODUCTS_DATA, null);
+    this.productsData = storedProducts || this.getDefaultProducts();
     
     // Load site settings
-    this.siteSettings = SafeStorage.get(StorageKeys.SITE_SETTINGS, this.getDefaultSettings());
+    const storedSettings = await AsyncStorage.get<SiteSettings | null>(StorageKeys.SITE_SETTINGS, null);
+    this.siteSettings = storedSettings || this.getDefaultSettings();
+
+    // Load categories, keeping any slug still used by an item
+    const storedCategories = await AsyncStorage.get<PortfolioCategory[] | null>(StorageKeys.CATEGORIES, null);
+    this.categories = CategoryUtils.withMissing(storedCategories || DEFAULT_CATEGORIES, this.portfolioData, base => base);
+
+    const storedProductCategories = await AsyncStorage.get<ProductCategory[] | null>(StorageKeys.PRODUCT_CATEGORIES, null);
+    this.productCategories = CategoryUtils.withMissing(
+      storedProductCategories || DEFAULT_PRODUCT_CATEGORIES,
+      this.productsData,
+      CategoryUtils.createProductCategory
+    );
 
-    // Load user data
-    this.currentUser = SafeStorage.get(StorageKeys.USER_DATA, null);
+    // Load coupon codes and bundles
+    this.coupons = await AsyncStorage.get<Coupon[]>(StorageKeys.COUPONS, []);
+    this.bundles = await AsyncStorage.get<ProductBundle[]>(StorageKeys.BUNDLES, []);
+
+    // Load orders sent from the website and entered here
+    this.orders = await AsyncStorage.get<Order[]>(StorageKeys.ORDERS, []);
+    this.restockRequests = await AsyncStorage.get<RestockRequest[]>(StorageKeys.RESTOCK_REQUESTS, []);
+
+    // Coupon use is counted from the order log
+    if (PromoUtils.countUses(this.coupons, this.orders)) {
+      await AsyncStorage.set(StorageKeys.COUPONS, this.coupons);
+    }
 
     // Save default data if not exists
-    if (!SafeStorage.get(StorageKeys.PORTFOLIO_DATA, null)) {
-      SafeStorage.set(StorageKeys.PORTFOLIO_DATA, this.portfolioData);
+    if (!storedPortfolio) {
+      await AsyncStorage.set(StorageKeys.PORTFOLIO_DATA, this.portfolioData);
+    }
+    if (!storedProducts) {
+      await AsyncStorage.set(StorageKeys.PRODUCTS_DATA, this.productsData);
     }
-    if (!SafeStorage.get(StorageKeys.PRODUCTS_DATA, null)) {
-      SafeStorage.set(StorageKeys.PRODUCTS_DATA, this.productsData);
+    if (!storedSettings) {
+      await AsyncStorage.set(StorageKeys.SITE_SETTINGS, this.siteSettings);
     }
-    if (!SafeStorage.get(StorageKeys.SITE_SETTINGS, null)) {
-      SafeStorage.set(StorageKeys.SITE_SETTINGS, this.siteSettings);
+    if (!storedCategories || storedCategories.length !== this.categories.length) {
+      await AsyncStorage.set(StorageKeys.CATEGORIES, this.categories);
     }
+    if (!storedProductCategories || storedProductCategories.length !== this.productCategories.length) {
+      await AsyncStorage.set(StorageKeys.PRODUCT_CATEGORIES, this.productCategories);
+    }
+
+    // Warn when the browser refused IndexedDB and we are back on the 5MB quota
+    if (!(await AsyncStorage.isPersistent())) {
+      this.showMessage('IndexedDB tidak tersedia, data disimpan di localStorage (kapasitas terbatas)', 'warning');
+    }
+
+    // Tell the admin when stored data could not be upgraded and defaults were loaded instead
+    this.renderMigrationAlert();
 
     PerformanceUtils.measure('Admin Data Loading', 'admin-data-load-start');
   }
@@ -172,6 +277,12 @@ class AdminApp {
       loginForm.addEventListener('submit', this.handleLogin);
     }
 
+    // First-run credential setup form
+    const setupForm = DOMUtils.getElementById<HTMLFormElement>('setupForm');
+    if (setupForm) {
+      setupForm.addEventListener('submit', this.handleSetup);
+    }
+
     // Logout button
     const logoutBtn = DOMUtils.getElementById<HTMLButtonElement>('logoutBtn');
     if (logoutBtn) {
@@ -194,16 +305,49 @@ class AdminApp {
       });
     }
 
-    // Image upload handlers
-    const imageInputs = DOMUtils.querySelectorAll<HTMLInputElement>('input[type="file"]');
+    // Image upload handlers (additional images have their own list)
+    const imageInputs = DOMUtils.querySelectorAll<HTMLInputElement>('input[type="file"][accept*="image"]:not(#additionalImageFiles)');
     DOMUtils.addEventListeners(imageInputs, 'change', this.handleImageUpload);
 
+    // Backup export/import
+    this.setupBackupHandlers();
+
+    // Restore actions for data that failed to upgrade
+    DOMUtils.getElementById<HTMLElement>('migrationAlert')?.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+      if (button) this.handleMigrationAction(button.dataset.key as StorageKeys, button.dataset.action || '');
+    });
+
+    // Category manager
+    this.setupCategoryHandlers();
+
+    // Coupon and bundle manager
+    this.setupPromoHandlers();
+
+    // Order list filters, status and notes
+    this.setupOrderHandlers();
+
+    // Low stock and restock request lists on the dashboard
+    this.setupStockHandlers();
+
+    // WhatsApp message template editors
+    this.setupTemplateEditors();
+
+    // Exchange rate list in the settings form
+    this.setupCurrencyHandlers();
+
+    // Shipping zone list in the settings form
+    this.setupShippingHandlers();
+
     // Cropper modal handlers
     this.setupCropperHandlers();
 
     // Global keyboard shortcuts
     document.addEventListener('keydown', this.handleKeyboardShortcuts.bind(this));
 
+    // Session activity tracking
+    this.setupSessionActivityTracking();
+
     // Auto-save functionality
     this.setupAutoSave();
 
@@ -271,6 +415,24 @@ class AdminApp {
     overlay?.addEventListener('click', () => this.closeCropperModal());
   }
 
+  /**
+   * Setup backup export and import handlers
+   */
+  private setupBackupHandlers(): void {
+    const exportBtn = DOMUtils.getElementById<HTMLButtonElement>('exportBackupBtn');
+    const importBtn = DOMUtils.getElementById<HTMLButtonElement>('importBackupBtn');
+    const importInput = DOMUtils.getElementById<HTMLInputElement>('importBackupFile');
+
+    exportBtn?.addEventListener('click', () => this.handleBackupExport());
+    importBtn?.addEventListener('click', () => importInput?.click());
+
+    importInput?.addEventListener('change', async () => {
+      const file = importInput.files?.[0];
+      importInput.value = '';
+      if (file) await this.handleBackupImport(file);
+    });
+  }
+
   /**
    * Setup product modal handlers
    */
@@ -297,6 +459,129 @@ class AdminApp {
         if (e.target === modal) this.closeProductModal();
       });
     }
+
+    this.setupVariantHandlers();
+  }
+
+  /**
+   * Setup the product variant list: add, edit, reorder and remove
+   */
+  private setupVariantHandlers(): void {
+    const list = DOMUtils.getElementById<HTMLElement>('productVariantsList');
+    const addBtn = DOMUtils.getElementById<HTMLButtonElement>('addProductVariant');
+
+    addBtn?.addEventListener('click', () => {
+      this.productVariants.push({ id: VariantUtils.nextId(this.productVariants), name: '', price: 0, active: true });
+      this.renderVariantList();
+      list?.querySelector<HTMLInputElement>('.variant-row:last-child [data-field="name"]')?.focus();
+    });
+
+    if (!list) return;
+
+    // Field edits update the list in place so typing keeps focus
+    list.addEventListener('input', (e) => {
+      const input = e.target as HTMLInputElement;
+      const variant = this.productVariants[this.getVariantIndex(input)];
+      if (!variant) return;
+
+      const value = input.value.trim();
+      switch (input.dataset.field) {
+        case 'name':
+          variant.name = value;
+          break;
+        case 'price':
+          variant.price = parseInt(value) || 0;
+          break;
+        case 'originalPrice':
+          if (value) variant.originalPrice = parseInt(value) || 0; else delete variant.originalPrice;
+          break;
+        case 'license':
+          if (value) variant.license = value; else delete variant.license;
+          break;
+        case 'active':
+          variant.active = input.checked;
+          break;
+      }
+    });
+
+    list.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+      if (!button) return;
+
+      const index = this.getVariantIndex(button);
+      const target = index + (button.dataset.action === 'up' ? -1 : 1);
+      const [variant] = this.productVariants.splice(index, 1);
+      if (!variant) return;
+
+      if (button.dataset.action !== 'remove') {
+        this.productVariants.splice(Math.min(Math.max(0, target), this.productVariants.length), 0, variant);
+      }
+      this.renderVariantList();
+    });
+  }
+
+  /**
+   * Render the variant rows of the product form
+   */
+  private renderVariantList(): void {
+    const list = DOMUtils.getElementById<HTMLElement>('productVariantsList');
+    if (!list) return;
+
+    if (this.productVariants.length === 0) {
+      list.innerHTML = '<li class="variant-list-empty">Tanpa varian: produk dijual dengan harga di atas.</li>';
+      return;
+    }
+
+    const last = this.productVariants.length - 1;
+    list.innerHTML = this.productVariants.map((variant, index) => `
+      <li class="variant-row" data-index="${index}">
+        <div class="variant-fields">
+          <input type="text" data-field="name" value="${variant.name}" placeholder="Nama varian, mis. Lisensi Komersial">
+          <input type="number" data-field="price" value="${variant.price || ''}" min="0" placeholder="Harga (Rp)">
+          <input type="number" data-field="originalPrice" value="${variant.originalPrice ?? ''}" min="0" placeholder="Harga asli (opsional)">
+          <input type="text" data-field="license" value="${variant.license || ''}" placeholder="Keterangan lisensi (opsional)">
+          <label class="checkbox-label">
+            <input type="checkbox" data-field="active" ${variant.active ? 'checked' : ''}>
+            <span class="checkmark"></span>
+            Aktif
+          </label>
+        </div>
+        <div class="variant-actions">
+          <button type="button" class="btn btn-small btn-secondary" data-action="up" title="Naik" ${index === 0 ? 'disabled' : ''}>
+            <i class="fas fa-arrow-up"></i>
+          </button>
+          <button type="button" class="btn btn-small btn-secondary" data-action="down" title="Turun" ${index === last ? 'disabled' : ''}>
+            <i class="fas fa-arrow-down"></i>
+          </button>
+          <button type="button" class="btn btn-small btn-danger" data-action="remove" title="Hapus">
+            <i class="fas fa-trash"></i>
+          </button>
+        </div>
+      </li>
+    `).join('');
+  }
+
+  /**
+   * One price input per currency offered in the settings
+   */
+  private renderCurrencyPriceInputs(product?: ProductItem): void {
+    const container = DOMUtils.getElementById<HTMLElement>('productCurrencyPrices');
+    if (!container) return;
+
+    const currencies = this.siteSettings.currencies || [];
+    container.innerHTML = currencies.length === 0
+      ? '<small class="form-help">Belum ada mata uang lain. Tambahkan di tab Pengaturan.</small>'
+      : currencies.map(currency => `
+        <label class="currency-price">
+          <span>${currency.code}</span>
+          <input type="number" name="currencyPrice-${currency.code}" min="0" step="any"
+                 value="${product?.currencyPrices?.[currency.code] ?? ''}" placeholder="Pakai kurs">
+        </label>
+      `).join('');
+  }
+
+  private getVariantIndex(element: HTMLElement): number {
+    return parseInt(element.closest<HTMLElement>('.variant-row')?.dataset.index || '-1');
   }
 
   /**
@@ -320,6 +605,14 @@ class AdminApp {
       addBtn.addEventListener('click', this.showPortfolioModal.bind(this));
     }
 
+    // A cropped thumbnail only fits the size it was cropped for
+    DOMUtils.getElementById<HTMLSelectElement>('portfolioSize')?.addEventListener('change', () => {
+      if (this.tempImageData['portfolio-thumbnail']) {
+        delete this.tempImageData['portfolio-thumbnail'];
+        this.showMessage('Ukuran tampilan berubah, thumbnail akan dibuat ulang saat disimpan', 'info');
+      }
+    });
+
     if (modal) {
       modal.addEventListener('click', (e) => {
         if (e.target === modal) this.closePortfolioModal();
@@ -368,7 +661,7 @@ class AdminApp {
     }
 
     // Image preview handlers
-    const imageInputs = DOMUtils.querySelectorAll<HTMLInputElement>('input[type="file"][accept*="image"]');
+    const imageInputs = DOMUtils.querySelectorAll<HTMLInputElement>('input[type="file"][accept*="image"]:not(#additionalImageFiles)');
     imageInputs.forEach(input => {
       input.addEventListener('change', (e) => this.previewImage(e.target as HTMLInputElement));
     });
@@ -378,87 +671,196 @@ class AdminApp {
   }
 
   /**
-   * Setup additional image handlers
+   * Setup the additional image list: add by upload or URL, edit, replace, remove and reorder
    */
   private setupAdditionalImageHandlers(): void {
-    for (let i = 1; i <= 3; i++) {
-      const fileInput = DOMUtils.getElementById<HTMLInputElement>(`additionalImage${i}`);
-      const urlInput = DOMUtils.getElementById<HTMLInputElement>(`additionalImageUrl${i}`);
-      
-      if (fileInput) {
-        fileInput.addEventListener('change', (e) => {
-          this.handleAdditionalImageUpload(e, i);
-        });
+    const list = DOMUtils.getElementById<HTMLElement>('additionalImagesList');
+    const fileInput = DOMUtils.getElementById<HTMLInputElement>('additionalImageFiles');
+    const addUrlBtn = DOMUtils.getElementById<HTMLButtonElement>('addAdditionalImageUrl');
+
+    fileInput?.addEventListener('change', async () => {
+      const files = Array.from(fileInput.files || []);
+      fileInput.value = '';
+      for (const file of files) {
+        const imageUrl = await this.readAdditionalImageFile(file);
+        if (imageUrl) this.additionalImages.push({ src: imageUrl });
       }
-      
-      if (urlInput) {
-        urlInput.addEventListener('change', (e) => {
-          const target = e.target as HTMLInputElement;
-          if (target.value) {
-            this.showAdditionalImagePreview(target.value, i);
-          }
-        });
+      this.renderAdditionalImageList();
+    });
+
+    addUrlBtn?.addEventListener('click', () => {
+      this.additionalImages.push({ src: '' });
+      this.renderAdditionalImageList();
+      list?.querySelector<HTMLInputElement>('.additional-image-row:last-child [data-field="src"]')?.focus();
+    });
+
+    if (!list) return;
+
+    // Field edits update the list in place so typing keeps focus
+    list.addEventListener('input', (e) => {
+      const input = e.target as HTMLInputElement;
+      const field = input.dataset.field as keyof PortfolioImage | undefined;
+      const image = this.additionalImages[this.getAdditionalImageIndex(input)];
+      if (!field || !image) return;
+
+      if (field === 'src') {
+        image.src = input.value.trim();
+        const preview = input.closest('.additional-image-row')?.querySelector<HTMLImageElement>('.additional-image-thumb');
+        if (preview) preview.src = image.src;
+      } else if (input.value.trim()) {
+        image[field] = input.value.trim();
+      } else {
+        delete image[field];
       }
-    }
+    });
 
-    // Setup remove buttons
-    const removeButtons = DOMUtils.querySelectorAll<HTMLButtonElement>('.remove-additional-image');
-    removeButtons.forEach(button => {
-      button.addEventListener('click', (e) => {
-        const target = e.target as HTMLButtonElement;
-        const index = parseInt(target.dataset.index || '0');
-        if (index > 0) {
-          this.removeAdditionalImage(index);
-        }
-      });
+    list.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+      if (!button) return;
+
+      const index = this.getAdditionalImageIndex(button);
+      switch (button.dataset.action) {
+        case 'up':
+        case 'down':
+          this.moveAdditionalImage(index, index + (button.dataset.action === 'up' ? -1 : 1));
+          break;
+        case 'replace':
+          button.parentElement?.querySelector<HTMLInputElement>('.additional-image-replace')?.click();
+          break;
+        case 'remove':
+          this.additionalImages.splice(index, 1);
+          this.renderAdditionalImageList();
+          break;
+      }
+    });
+
+    list.addEventListener('change', async (e) => {
+      const input = e.target as HTMLInputElement;
+      if (!input.classList.contains('additional-image-replace')) return;
+
+      const file = input.files?.[0];
+      const image = this.additionalImages[this.getAdditionalImageIndex(input)];
+      if (!file || !image) return;
+
+      const imageUrl = await this.readAdditionalImageFile(file);
+      if (imageUrl) {
+        image.src = imageUrl;
+        this.renderAdditionalImageList();
+      }
+    });
+
+    // Drag a row by its handle onto another row to reorder
+    let dragIndex = -1;
+    list.addEventListener('dragstart', (e) => {
+      const row = (e.target as HTMLElement).closest<HTMLElement>('.additional-image-row');
+      if (!row) return;
+      dragIndex = this.getAdditionalImageIndex(row);
+      e.dataTransfer?.setData('text/plain', String(dragIndex));
+      DOMUtils.addClass(row, 'dragging');
+    });
+
+    list.addEventListener('dragover', (e) => {
+      const row = (e.target as HTMLElement).closest<HTMLElement>('.additional-image-row');
+      if (dragIndex === -1 || !row) return;
+      e.preventDefault();
+      list.querySelectorAll('.drag-over').forEach(el => el.classList.remove('drag-over'));
+      DOMUtils.addClass(row, 'drag-over');
+    });
+
+    list.addEventListener('drop', (e) => {
+      const row = (e.target as HTMLElement).closest<HTMLElement>('.additional-image-row');
+      if (dragIndex === -1 || !row) return;
+      e.preventDefault();
+      this.moveAdditionalImage(dragIndex, this.getAdditionalImageIndex(row));
+    });
+
+    list.addEventListener('dragend', () => {
+      dragIndex = -1;
+      list.querySelectorAll('.dragging, .drag-over').forEach(el => el.classList.remove('dragging', 'drag-over'));
     });
   }
 
   /**
-   * Handle additional image upload
+   * Render the additional image rows of the portfolio form
    */
-  private async handleAdditionalImageUpload(event: Event, index: number): Promise<void> {
-    const input = event.target as HTMLInputElement;
-    const file = input.files?.[0];
-    if (!file) return;
+  private renderAdditionalImageList(): void {
+    const list = DOMUtils.getElementById<HTMLElement>('additionalImagesList');
+    if (!list) return;
 
-    try {
-      const imageUrl = await ImageUtils.fileToDataURL(file);
-      const urlInput = DOMUtils.getElementById<HTMLInputElement>(`additionalImageUrl${index}`);
-      if (urlInput) {
-        urlInput.value = imageUrl;
-        this.showAdditionalImagePreview(imageUrl, index);
-      }
-    } catch (error) {
-      this.showMessage('Error uploading additional image', 'error');
+    if (this.additionalImages.length === 0) {
+      list.innerHTML = '<li class="additional-images-empty">Belum ada gambar tambahan.</li>';
+      return;
     }
+
+    const last = this.additionalImages.length - 1;
+    list.innerHTML = this.additionalImages.map((image, index) => {
+      // Uploaded images live in data or object URLs, which are not worth showing as text
+      const uploaded = image.src.startsWith('data:') || image.src.startsWith('blob:');
+      return `
+      <li class="additional-image-row" data-index="${index}">
+        <span class="drag-handle" draggable="true" title="Seret untuk mengubah urutan">
+          <i class="fas fa-grip-vertical"></i>
+        </span>
+        <img class="additional-image-thumb" src="${image.src}" alt="">
+        <div class="additional-image-fields">
+          <input type="text" data-field="src" value="${uploaded ? '' : image.src}" placeholder="${uploaded ? 'File yang diupload' : 'URL gambar mockup/proses'}">
+          <input type="text" data-field="caption" value="${image.caption || ''}" placeholder="Keterangan (opsional)">
+          <input type="text" data-field="alt" value="${image.alt || ''}" placeholder="Teks alternatif untuk pembaca layar">
+        </div>
+        <div class="additional-image-actions">
+          <input type="file" class="additional-image-replace" accept="image/*" style="display: none;">
+          <button type="button" class="btn btn-small btn-secondary" data-action="up" title="Naik" ${index === 0 ? 'disabled' : ''}>
+            <i class="fas fa-arrow-up"></i>
+          </button>
+          <button type="button" class="btn btn-small btn-secondary" data-action="down" title="Turun" ${index === last ? 'disabled' : ''}>
+            <i class="fas fa-arrow-down"></i>
+          </button>
+          <button type="button" class="btn btn-small btn-secondary" data-action="replace" title="Ganti dengan file lain">
+            <i class="fas fa-sync-alt"></i>
+          </button>
+          <button type="button" class="btn btn-small btn-danger" data-action="remove" title="Hapus">
+            <i class="fas fa-trash"></i>
+          </button>
+        </div>
+      </li>
+    `;
+    }).join('');
   }
 
-  /**
-   * Show additional image preview
-   */
-  private showAdditionalImagePreview(imageUrl: string, index: number): void {
-    const preview = DOMUtils.getElementById<HTMLElement>(`additionalPreview${index}`);
-    if (preview) {
-      const img = preview.querySelector('img');
-      if (img) {
-        img.src = imageUrl;
-        preview.style.display = 'block';
-      }
+  private getAdditionalImageIndex(element: HTMLElement): number {
+    return parseInt(element.closest<HTMLElement>('.additional-image-row')?.dataset.index || '-1');
+  }
+
+  private moveAdditionalImage(from: number, to: number): void {
+    const [image] = this.additionalImages.splice(from, 1);
+    if (!image || to < 0 || to > this.additionalImages.length) {
+      if (image) this.additionalImages.splice(from, 0, image);
+      return;
     }
+    this.additionalImages.splice(to, 0, image);
+    this.renderAdditionalImageList();
   }
 
   /**
-   * Remove additional image
+   * Validate and read an uploaded additional image, or null when rejected
    */
-  public removeAdditionalImage(index: number): void {
-    const preview = DOMUtils.getElementById<HTMLElement>(`additionalPreview${index}`);
-    const urlInput = DOMUtils.getElementById<HTMLInputElement>(`additionalImageUrl${index}`);
-    const fileInput = DOMUtils.getElementById<HTMLInputElement>(`additionalImage${index}`);
-    
-    if (preview) preview.style.display = 'none';
-    if (urlInput) urlInput.value = '';
-    if (fileInput) fileInput.value = '';
+  private async readAdditionalImageFile(file: File): Promise<string | null> {
+    if (!ValidationUtils.isValidImageFile(file)) {
+      this.showMessage(`${file.name} bukan file gambar yang valid`, 'error');
+      return null;
+    }
+    if (!ValidationUtils.isValidFileSize(file, 5 * 1024 * 1024)) {
+      this.showMessage(`${file.name} lebih dari 5MB`, 'error');
+      return null;
+    }
+
+    try {
+      return await ImageUtils.fileToDataURL(file);
+    } catch (error) {
+      console.error('Additional image upload error:', error);
+      this.showMessage('Gagal membaca gambar tambahan', 'error');
+      return null;
+    }
   }
 
   /**
@@ -484,6 +886,8 @@ class AdminApp {
     PerformanceUtils.mark('admin-render-start');
 
     await Promise.all([
+      this.renderCategories(),
+      this.renderPromos(),
       this.renderPortfolioItems(),
       this.renderProductItems(),
       this.loadSettings(),
@@ -577,6 +981,25 @@ class AdminApp {
     container.appendChild(fragment);
   }
 
+  /**
+   * Whether a discount with a sale window is scheduled, running or over
+   */
+  private renderSaleSchedule(product: ProductItem): string {
+    const status = PricingUtils.getSaleStatus(product);
+    const format = (value: string | undefined) => value ? new Date(value).toLocaleString('id-ID') : '';
+
+    switch (status) {
+      case 'scheduled':
+        return `<span class="sale-schedule scheduled">Promo mulai ${format(product.saleStartsAt)}</span>`;
+      case 'ended':
+        return `<span class="sale-schedule ended">Promo berakhir ${format(product.saleEndsAt)}</span>`;
+      case 'active':
+        return product.saleEndsAt ? `<span class="sale-schedule active">Promo hingga ${format(product.saleEndsAt)}</span>` : '';
+      default:
+        return '';
+    }
+  }
+
   /**
    * Create product admin card
    */
@@ -592,12 +1015,21 @@ class AdminApp {
           <span class="current-price">${FormatUtils.formatPrice(product.price)}</span>
           <span class="discount-badge">-${product.discount}%</span>
         </div>
+        ${this.renderSaleSchedule(product)}
       `;
     }
     
     // Create category and type display
-    const categoryDisplay = product.category ? `<span class="item-category">${this.getCategoryDisplayName(product.category)}</span>` : '';
+    const category = CategoryUtils.find(this.productCategories, product.category);
+    const categoryDisplay = product.category
+      ? `<span class="item-category">${category ? `<i class="${category.icon}"></i> ` : ''}${CategoryUtils.getLabel(this.productCategories, product.category)}</span>`
+      : '';
     const typeDisplay = product.type ? `<span class="item-type ${product.type}">${product.type.toUpperCase()}</span>` : '';
+    const variantCount = VariantUtils.getActive(product).length;
+    const variantDisplay = variantCount > 0 ? `<span class="item-variants">${variantCount} varian</span>` : '';
+    const stockDisplay = StockUtils.isTracked(product)
+      ? `<span class="item-stock ${StockUtils.getLabel(product) ? 'low' : ''}">Stok ${StockUtils.getAvailable(product)}</span>`
+      : '';
     
     card.innerHTML = `
       <div class="item-image">
@@ -611,6 +1043,8 @@ class AdminApp {
         <div class="item-meta">
           ${categoryDisplay}
           ${typeDisplay}
+          ${variantDisplay}
+          ${stockDisplay}
           <span class="item-status status-${product.status}">
             ${product.status.toUpperCase()}
           </span>
@@ -652,6 +1086,23 @@ class AdminApp {
     this.setFormValue('heroSubtitle', heroSubtitle);
     this.setFormValue('aboutText', aboutText);
     this.setFormValue('whatsappNumber', whatsappNumber);
+    this.setFormValue('gridLayout', this.siteSettings.gridLayout || 'masonry');
+    this.setFormValue('itemsPerPage', String(this.siteSettings.itemsPerPage || 9));
+    this.setFormValue('pagingMode', this.siteSettings.pagingMode || 'load-more');
+    this.setCheckboxValue('showCategories', this.siteSettings.showCategories !== false);
+    this.setCheckboxValue('enableAnimations', this.siteSettings.enableAnimations !== false);
+    this.setFormValue('sessionTimeoutMinutes', String(this.getSessionConfig().idleMinutes));
+    this.setFormValue('rememberMeDays', String(this.getSessionConfig().rememberDays));
+    this.getTemplateKeys().forEach(key => {
+      this.setFormValue(`${key}Template`, TemplateUtils.get(this.siteSettings, key));
+    });
+    this.updateTemplatePreviews();
+    this.currencies = (this.siteSettings.currencies || []).map(currency => ({ ...currency }));
+    this.renderCurrencyList();
+    this.shippingZones = (this.siteSettings.shippingZones || []).map(zone => ({ ...zone }));
+    this.renderShippingZoneList();
+    this.setFormValue('invoicePrefix', this.siteSettings.invoicePrefix || '');
+    this.setFormValue('paymentInstructions', this.siteSettings.paymentInstructions || '');
 
     // Update profile image
     if (profileImage && this.elements.profileImage) {
@@ -676,7 +1127,7 @@ class AdminApp {
       totalPortfolio: this.portfolioData.length,
       totalProducts: this.productsData.length,
       activeProducts: this.productsData.filter(p => p.status === 'active').length,
-      totalCategories: new Set(this.portfolioData.map(p => p.category)).size
+      totalCategories: this.categories.length + this.productCategories.length
     };
 
     // Update stat elements
@@ -684,6 +1135,16 @@ class AdminApp {
     this.updateStatElement('totalProducts', stats.totalProducts);
     this.updateStatElement('activeProducts', stats.activeProducts);
     this.updateStatElement('totalCategories', stats.totalCategories);
+
+    const currentMonth = OrderUtils.getMonth(new Date());
+    this.updateStatElement('newOrders', this.orders.filter(order => order.status === 'new').length);
+    this.updateStatElement('monthOrders', OrderUtils.getMonthlyTotals(this.orders)
+      .find(totals => totals.month === currentMonth)?.count || 0);
+    this.renderMonthlySales();
+    this.renderLowStock();
+    this.renderRestockRequests();
+
+    this.renderLoginActivity();
   }
 
   // Authentication Methods
@@ -691,31 +1152,117 @@ class AdminApp {
   /**
    * Handle login form submission
    */
-  private handleLogin(event: Event): void {
+  private async handleLogin(event: Event): Promise<void> {
     event.preventDefault();
     
     const form = event.target as HTMLFormElement;
     const formData = new FormData(form);
-    const username = formData.get('username') as string;
+    const username = (formData.get('username') as string).trim();
     const password = formData.get('password') as string;
-    
-    // Simple authentication (in real app, use proper authentication)
-     if (username === 'admin' && password === 'admin123') {
-       this.currentUser = { username: 'admin', password: 'admin123' };
-       SafeStorage.set(StorageKeys.USER_DATA, this.currentUser);
-       this.showDashboard();
-       this.showMessage('Login berhasil!', 'success');
-     } else {
-       this.showMessage('Username atau password salah!', 'error');
-     }
+
+    if (!AuthUtils.isSupported()) {
+      this.showMessage('Browser tidak mendukung WebCrypto. Buka admin melalui https atau localhost.', 'error');
+      return;
+    }
+
+    const lockoutRemaining = SessionUtils.getLockoutRemaining();
+    if (lockoutRemaining > 0) {
+      this.showLockoutNotice(lockoutRemaining);
+      return;
+    }
+
+    try {
+      if (await AuthUtils.verify(username, password)) {
+        this.startSession(username, formData.get('remember') === 'on');
+        form.reset();
+        this.showDashboard();
+        this.showMessage('Login berhasil!', 'success');
+      } else {
+        const attempts = SessionUtils.recordFailure(username);
+        const remaining = SessionUtils.getLockoutRemaining();
+        if (remaining > 0) {
+          this.showLockoutNotice(remaining);
+        } else {
+          this.showMessage(`Username atau password salah! (percobaan ke-${attempts.failedAttempts})`, 'error');
+        }
+      }
+    } catch (error) {
+      console.error('Login error:', error);
+      this.showMessage('Gagal memeriksa password', 'error');
+    }
+  }
+
+  /**
+   * Handle first-run credential setup
+   */
+  private async handleSetup(event: Event): Promise<void> {
+    event.preventDefault();
+
+    const form = event.target as HTMLFormElement;
+    const formData = new FormData(form);
+    const username = (formData.get('username') as string).trim();
+    const password = formData.get('password') as string;
+    const confirmation = formData.get('confirmPassword') as string;
+
+    if (!AuthUtils.isSupported()) {
+      this.showMessage('Browser tidak mendukung WebCrypto. Buka admin melalui https atau localhost.', 'error');
+      return;
+    }
+
+    // Never let a second tab overwrite credentials created meanwhile
+    if (AuthUtils.hasCredentials()) {
+      this.showLogin();
+      return;
+    }
+
+    if (!username) {
+      this.showMessage('Username wajib diisi', 'error');
+      return;
+    }
+
+    const passwordError = AuthUtils.validatePassword(password, confirmation);
+    if (passwordError) {
+      this.showMessage(passwordError, 'error');
+      return;
+    }
+
+    try {
+      if (!(await AuthUtils.saveCredentials(username, password))) {
+        throw new Error('Credentials could not be stored');
+      }
+      this.startSession(username, false);
+      form.reset();
+      this.showDashboard();
+      this.showMessage('Akun admin berhasil dibuat!', 'success');
+    } catch (error) {
+      console.error('Credential setup error:', error);
+      this.showMessage('Gagal menyimpan akun admin', 'error');
+    }
+  }
+
+  /**
+   * Handle change password form submission
+   */
+  private async handlePasswordSubmit(formData: FormData): Promise<void> {
+    const currentPassword = formData.get('currentPassword') as string;
+    const newPassword = formData.get('newPassword') as string;
+    const confirmation = formData.get('confirmPassword') as string;
+
+    const passwordError = AuthUtils.validatePassword(newPassword, confirmation);
+    if (passwordError) {
+      throw new Error(passwordError);
+    }
+
+    if (!(await AuthUtils.changePassword(currentPassword, newPassword))) {
+      throw new Error('Password saat ini salah');
+    }
   }
 
   /**
    * Handle logout
    */
   private handleLogout(): void {
-     this.currentUser = null;
-     SafeStorage.remove(StorageKeys.USER_DATA);
+     this.endSession();
      this.showLogin();
      this.showMessage('Logout berhasil!', 'success');
    }
@@ -725,10 +1272,18 @@ class AdminApp {
    */
   private checkAuthStatus(): void {
       try {
-        const item = localStorage.getItem(StorageKeys.USER_DATA);
-        if (item) {
-          const savedUser = JSON.parse(item) as User;
-          this.currentUser = savedUser;
+        // Sessions are meaningless until credentials exist; force first-run setup
+        if (!AuthUtils.hasCredentials()) {
+          SessionUtils.endSession();
+          this.showLogin();
+          return;
+        }
+
+        // Expired sessions and legacy sessions without an expiry are dropped here
+        const session = SessionUtils.getSession();
+        if (session) {
+          this.session = session;
+          this.currentUser = session;
           this.showDashboard();
         } else {
           this.showLogin();
@@ -739,6 +1294,137 @@ class AdminApp {
       }
     }
 
+  /**
+   * Create a session after a successful login or setup
+   */
+  private startSession(username: string, remember: boolean): void {
+    this.session = SessionUtils.createSession(username, remember, this.getSessionConfig());
+    SessionUtils.recordSuccess(username);
+    this.currentUser = this.session;
+    this.sessionWarningShown = false;
+  }
+
+  /**
+   * Clear the session and stop watching for expiry
+   */
+  private endSession(): void {
+    this.stopSessionMonitor();
+    SessionUtils.endSession();
+    this.session = null;
+    this.currentUser = null;
+  }
+
+  /**
+   * Get session timing from settings
+   */
+  private getSessionConfig(): SessionConfig {
+    return {
+      idleMinutes: this.siteSettings.sessionTimeoutMinutes || DEFAULT_SESSION_CONFIG.idleMinutes,
+      rememberDays: this.siteSettings.rememberMeDays || DEFAULT_SESSION_CONFIG.rememberDays
+    };
+  }
+
+  /**
+   * Extend idle sessions on user activity and follow logouts from other tabs
+   */
+  private setupSessionActivityTracking(): void {
+    const handleActivity = throttle(() => {
+      if (!this.session) return;
+      this.session = SessionUtils.touch(this.session, this.getSessionConfig());
+      this.currentUser = this.session;
+      this.sessionWarningShown = false;
+    }, 5000);
+
+    ['click', 'keydown', 'mousemove', 'scroll', 'touchstart'].forEach(eventName => {
+      document.addEventListener(eventName, handleActivity, { passive: true });
+    });
+
+    window.addEventListener('storage', (event) => {
+      if (event.key === StorageKeys.USER_DATA && event.newValue === null && this.session) {
+        this.stopSessionMonitor();
+        this.session = null;
+        this.currentUser = null;
+        this.showLogin();
+        this.showMessage('Anda telah logout di tab lain', 'info');
+      }
+    });
+  }
+
+  /**
+   * Check the session periodically, warning a minute before it expires
+   */
+  private startSessionMonitor(): void {
+    this.stopSessionMonitor();
+
+    this.sessionMonitor = window.setInterval(() => {
+      if (!this.session) return;
+
+      // Another tab may have extended the session
+      this.session = SessionUtils.getSession();
+      if (!this.session) {
+        this.endSession();
+        this.showLogin();
+        this.showMessage('Sesi berakhir. Silakan login kembali.', 'warning');
+        return;
+      }
+
+      const remaining = SessionUtils.getRemainingTime(this.session);
+      if (remaining <= 60 * 1000 && !this.sessionWarningShown) {
+        this.sessionWarningShown = true;
+        this.showMessage('Sesi akan berakhir dalam 1 menit karena tidak ada aktivitas.', 'warning');
+      }
+    }, 15000);
+  }
+
+  private stopSessionMonitor(): void {
+    if (this.sessionMonitor !== null) {
+      clearInterval(this.sessionMonitor);
+      this.sessionMonitor = null;
+    }
+  }
+
+  /**
+   * Explain an active lockout on the login form
+   */
+  private showLockoutNotice(remaining: number): void {
+    const seconds = Math.ceil(remaining / 1000);
+    const message = `Terlalu banyak percobaan login gagal. Coba lagi dalam ${seconds} detik.`;
+    const notice = DOMUtils.getElementById<HTMLElement>('loginLockout');
+
+    if (notice) {
+      notice.textContent = message;
+      notice.style.display = 'block';
+      setTimeout(() => {
+        if (SessionUtils.getLockoutRemaining() === 0) notice.style.display = 'none';
+      }, remaining + 100);
+    }
+    this.showMessage(message, 'error');
+  }
+
+  /**
+   * Render last login and recent login attempts on the dashboard
+   */
+  private renderLoginActivity(): void {
+    const lastLoginInfo = DOMUtils.getElementById<HTMLElement>('lastLoginInfo');
+    const historyList = DOMUtils.getElementById<HTMLElement>('loginHistoryList');
+
+    if (lastLoginInfo) {
+      const lastLogin = this.currentUser?.lastLogin;
+      lastLoginInfo.textContent = lastLogin
+        ? `Login terakhir sebelum sesi ini: ${new Date(lastLogin).toLocaleString('id-ID')}`
+        : 'Belum ada data login sebelumnya.';
+    }
+
+    if (historyList) {
+      historyList.innerHTML = SessionUtils.getHistory().slice(0, 10).map(record => `
+        <li class="${record.success ? 'login-success' : 'login-failed'}">
+          <span>${record.success ? 'Berhasil' : 'Gagal'} &middot; ${FormatUtils.escapeHtml(FormatUtils.truncateText(record.username, 30))}</span>
+          <span>${new Date(record.timestamp).toLocaleString('id-ID')}</span>
+        </li>
+      `).join('');
+    }
+  }
+
   /**
    * Show login modal
    */
@@ -748,6 +1434,16 @@ class AdminApp {
     
     if (loginModal) DOMUtils.addClass(loginModal, 'active');
     if (adminDashboard) DOMUtils.removeClass(adminDashboard, 'active');
+
+    // Show the setup form instead of login on first run
+    const needsSetup = !AuthUtils.hasCredentials();
+    const loginForm = DOMUtils.getElementById<HTMLFormElement>('loginForm');
+    const setupForm = DOMUtils.getElementById<HTMLFormElement>('setupForm');
+    const loginTitle = DOMUtils.getElementById<HTMLElement>('loginTitle');
+
+    if (loginForm) loginForm.style.display = needsSetup ? 'none' : 'flex';
+    if (setupForm) setupForm.style.display = needsSetup ? 'flex' : 'none';
+    if (loginTitle) loginTitle.textContent = needsSetup ? 'Buat Akun Admin' : 'Login Admin';
   }
 
   /**
@@ -759,11 +1455,14 @@ class AdminApp {
     
     if (loginModal) DOMUtils.removeClass(loginModal, 'active');
     if (adminDashboard) DOMUtils.addClass(adminDashboard, 'active');
+
+    this.startSessionMonitor();
     
     // Load dashboard data
     this.renderPortfolioItems();
     this.renderProductItems();
     this.loadSettings();
+    this.updateStatistics();
   }
 
   // Event Handlers
@@ -819,6 +1518,23 @@ class AdminApp {
         case 'settings':
           await this.handleSettingsSubmit(formData);
           break;
+        case 'category':
+          await this.handleCategorySubmit(formData, form.dataset.kind === 'product' ? 'product' : 'portfolio');
+          break;
+        case 'coupon':
+          await this.handleCouponSubmit(formData);
+          break;
+        case 'bundle':
+          await this.handleBundleSubmit(formData);
+          break;
+        case 'order':
+          await this.handleOrderSubmit(formData);
+          break;
+        case 'password':
+          await this.handlePasswordSubmit(formData);
+          form.reset();
+          this.showMessage('Password berhasil diganti!', 'success');
+          return;
         default:
           throw new Error('Unknown form type');
       }
@@ -827,7 +1543,9 @@ class AdminApp {
       form.reset();
     } catch (error) {
       console.error('Form submission error:', error);
-      this.showMessage('Failed to save data', 'error');
+      const showReason = ['password', 'category', 'settings', 'product', 'coupon', 'bundle', 'order'].includes(formType || '');
+      const message = showReason && error instanceof Error ? error.message : 'Failed to save data';
+      this.showMessage(message, 'error');
     }
   }
 
@@ -839,166 +1557,2325 @@ class AdminApp {
       title: formData.get('title') as string,
       category: formData.get('category') as CategoryName,
       description: formData.get('description') as string,
+      size: LayoutUtils.getSize(formData.get('size') as string),
       status: ((formData.get('status') as string) || 'active') as 'active' | 'inactive'
     };
 
     // Get image from form or temp storage
+    const croppedThumbnail = this.tempImageData['portfolio-thumbnail'];
     const imageInput = DOMUtils.getElementById<HTMLInputElement>('portfolioImage');
     const imageUrl = this.tempImageData.portfolio || imageInput?.value || '';
 
-    // Collect additional images
-    const additionalImageUrls: string[] = [];
-    for (let i = 1; i <= 3; i++) {
-      const urlInput = DOMUtils.getElementById<HTMLInputElement>(`additionalImageUrl${i}`);
-      if (urlInput?.value) {
-        additionalImageUrls.push(urlInput.value);
+    // Additional images in their list order; rows left without an image are dropped
+    const additionalImages = this.additionalImages
+      .filter(image => image.src)
+      .map(image => ({ ...image }));
+
+    // Validate required fields
+    if (!portfolioItem.title || !portfolioItem.category) {
+      throw new Error('Title and category are required');
+    }
+
+    if (this.currentEditingId) {
+      // Update existing item
+      const index = this.portfolioData.findIndex(item => item.id === this.currentEditingId);
+      if (index !== -1) {
+      const existingItem = this.portfolioData[index];
+      if (existingItem) {
+        const updatedItem = { 
+          ...existingItem, 
+          ...portfolioItem,
+          image: imageUrl || existingItem.image,
+          additionalImages,
+          id: existingItem.id // Keep original ID
+        } as PortfolioItem;
+
+        if (croppedThumbnail) {
+          updatedItem.thumbnail = croppedThumbnail;
+        } else if (updatedItem.image !== existingItem.image || updatedItem.size !== existingItem.size || !existingItem.thumbnail) {
+          await this.applyThumbnail(updatedItem);
+        }
+        if (updatedItem.thumbnail !== existingItem.thumbnail || !existingItem.imageWidth) {
+          await this.applyImageSize(updatedItem);
+        }
+        this.portfolioData[index] = updatedItem;
+      }
+      }
+      this.currentEditingId = null;
+    } else {
+      // Create new item
+      const newItem: PortfolioItem = {
+        ...portfolioItem as PortfolioItem,
+        id: this.generateId(),
+        image: imageUrl || ImageUtils.createPlaceholder(400, 300, portfolioItem.title || 'Portfolio Item'),
+        additionalImages
+      };
+      if (croppedThumbnail) {
+        newItem.thumbnail = croppedThumbnail;
+      } else {
+        await this.applyThumbnail(newItem);
+      }
+      await this.applyImageSize(newItem);
+      this.portfolioData.push(newItem);
+    }
+
+    // Clear temp image data
+    delete this.tempImageData.portfolio;
+    delete this.tempImageData['portfolio-thumbnail'];
+
+    await this.savePortfolioData();
+    await this.renderPortfolioItems();
+  }
+
+  /**
+   * Generate an item's card thumbnail at its display size
+   */
+  private async applyThumbnail(item: PortfolioItem): Promise<void> {
+    const { width, height } = this.thumbnailSizes[LayoutUtils.getSize(item.size)];
+    try {
+      item.thumbnail = await ImageUtils.createThumbnail(item.image, width, height);
+    } catch (error) {
+      // Without a thumbnail the public grid crops the full image instead
+      console.warn('Could not create thumbnail:', error);
+      delete item.thumbnail;
+    }
+  }
+
+  /**
+   * Store the pixel size of an item's card image for the public masonry layout
+   */
+  private async applyImageSize(item: PortfolioItem): Promise<void> {
+    try {
+      const { width, height } = await ImageUtils.getImageDimensions(item.thumbnail || item.image);
+      item.imageWidth = width;
+      item.imageHeight = height;
+    } catch (error) {
+      // The public site measures the image on load instead
+      console.warn('Could not read image size:', error);
+      delete item.imageWidth;
+      delete item.imageHeight;
+    }
+  }
+
+  /**
+   * Setup the shipping zone list in the settings form: add, edit and remove
+   */
+  private setupShippingHandlers(): void {
+    const list = DOMUtils.getElementById<HTMLElement>('shippingZoneList');
+
+    DOMUtils.getElementById<HTMLButtonElement>('addShippingZone')?.addEventListener('click', () => {
+      this.shippingZones.push({ id: PromoUtils.nextId(this.shippingZones), name: '', type: 'flat', rate: 0, active: true });
+      this.renderShippingZoneList();
+      list?.querySelector<HTMLInputElement>('.variant-row:last-child [data-field="name"]')?.focus();
+    });
+
+    if (!list) return;
+
+    // Field edits update the list in place so typing keeps focus
+    const update = (e: Event) => {
+      const input = e.target as HTMLInputElement | HTMLSelectElement;
+      const zone = this.shippingZones[this.getVariantIndex(input)];
+      if (!zone) return;
+
+      switch (input.dataset.field) {
+        case 'name':
+          zone.name = input.value;
+          break;
+        case 'type':
+          zone.type = input.value as ShippingRateType;
+          break;
+        case 'rate':
+          zone.rate = parseInt(input.value) || 0;
+          break;
+        case 'freeOver': {
+          const freeOver = parseInt(input.value);
+          if (freeOver > 0) zone.freeOver = freeOver; else delete zone.freeOver;
+          break;
+        }
+        case 'active':
+          zone.active = (input as HTMLInputElement).checked;
+          break;
+      }
+    };
+    list.addEventListener('input', update);
+    list.addEventListener('change', update);
+
+    list.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action="remove"]');
+      if (!button) return;
+
+      this.shippingZones.splice(this.getVariantIndex(button), 1);
+      this.renderShippingZoneList();
+    });
+  }
+
+  /**
+   * Render the shipping zone rows of the settings form
+   */
+  private renderShippingZoneList(): void {
+    const list = DOMUtils.getElementById<HTMLElement>('shippingZoneList');
+    if (!list) return;
+
+    if (this.shippingZones.length === 0) {
+      list.innerHTML = '<li class="variant-list-empty">Belum ada zona: ongkir produk fisik dibicarakan lewat WhatsApp.</li>';
+      return;
+    }
+
+    const types: [ShippingRateType, string][] = [['flat', 'Tarif tetap'], ['per-kg', 'Per kg']];
+    list.innerHTML = this.shippingZones.map((zone, index) => `
+      <li class="variant-row" data-index="${index}">
+        <div class="variant-fields">
+          <input type="text" data-field="name" value="${zone.name}" placeholder="Nama zona, mis. Jabodetabek">
+          <select data-field="type">
+            ${types.map(([value, label]) => `<option value="${value}" ${zone.type === value ? 'selected' : ''}>${label}</option>`).join('')}
+          </select>
+          <input type="number" data-field="rate" value="${zone.rate || ''}" min="0" placeholder="Tarif (Rp)">
+          <input type="number" data-field="freeOver" value="${zone.freeOver || ''}" min="0" placeholder="Gratis mulai (Rp) - opsional">
+          <label class="checkbox-label">
+            <input type="checkbox" data-field="active" ${zone.active ? 'checked' : ''}>
+            <span class="checkmark"></span>
+            Aktif
+          </label>
+        </div>
+        <div class="variant-actions">
+          <button type="button" class="btn btn-small btn-danger" data-action="remove" title="Hapus">
+            <i class="fas fa-trash"></i>
+          </button>
+        </div>
+      </li>
+    `).join('');
+  }
+
+  /**
+   * Handle product form submission
+   */
+  private async handleProductSubmit(formData: FormData): Promise<void> {
+    const price = parseInt(formData.get('price') as string);
+    const originalPrice = formData.get('originalPrice') ? parseInt(formData.get('originalPrice') as string) : undefined;
+    const discount = formData.get('discount') ? parseInt(formData.get('discount') as string) : undefined;
+    
+    // Calculate discount if original price is provided
+    let calculatedDiscount = discount;
+    if (originalPrice && originalPrice > price) {
+      calculatedDiscount = Math.round(((originalPrice - price) / originalPrice) * 100);
+    }
+    
+    const productItem: Partial<ProductItem> = {
+      name: formData.get('name') as string,
+      description: formData.get('description') as string,
+      price: price,
+      status: ((formData.get('status') as string) || 'active') as 'active' | 'inactive'
+    };
+
+    // Add optional fields only if they have values
+    if (originalPrice !== undefined) {
+      productItem.originalPrice = originalPrice;
+    }
+    if (calculatedDiscount !== undefined) {
+      productItem.discount = calculatedDiscount;
+    }
+    const saleStartsAt = this.fromDateTimeInput(formData.get('saleStartsAt') as string);
+    const saleEndsAt = this.fromDateTimeInput(formData.get('saleEndsAt') as string);
+    if (saleStartsAt && saleEndsAt && saleEndsAt <= saleStartsAt) {
+      throw new Error('Waktu promo berakhir harus setelah waktu mulai');
+    }
+    if (saleStartsAt) {
+      productItem.saleStartsAt = saleStartsAt;
+    }
+    if (saleEndsAt) {
+      productItem.saleEndsAt = saleEndsAt;
+    }
+    // Fall back to the category's defaults for anything left blank
+    const category = CategoryUtils.find(this.productCategories, formData.get('category') as string);
+    if (category) {
+      productItem.category = category.slug as ProductCategoryName;
+    }
+    const type = (formData.get('type') as ProductType | null) || category?.defaultType;
+    if (type) {
+      productItem.type = type;
+    }
+    // Only physical products have stock; a blank field means it is not tracked
+    const stock = parseInt(formData.get('stock') as string);
+    const lowStockThreshold = parseInt(formData.get('lowStockThreshold') as string);
+    if (type === 'physical' && stock >= 0) {
+      productItem.stock = stock;
+      if (lowStockThreshold >= 0) {
+        productItem.lowStockThreshold = lowStockThreshold;
+      }
+    }
+    const weight = parseInt(formData.get('weight') as string);
+    if (type === 'physical' && weight > 0) {
+      productItem.weight = weight;
+    }
+    const dimensions: ProductDimensions = {
+      length: parseFloat(formData.get('length') as string) || 0,
+      width: parseFloat(formData.get('width') as string) || 0,
+      height: parseFloat(formData.get('height') as string) || 0
+    };
+    if (type === 'physical' && dimensions.length > 0 && dimensions.width > 0 && dimensions.height > 0) {
+      productItem.dimensions = dimensions;
+    }
+    const license = ((formData.get('license') as string) || '').trim() || category?.defaultLicense;
+    if (license) {
+      productItem.license = license;
+    }
+    if (formData.get('downloadLink')) {
+      productItem.downloadLink = formData.get('downloadLink') as string;
+    }
+    const details = ((formData.get('details') as string) || '').trim();
+    if (details) {
+      productItem.details = details;
+    }
+    const fileFormat = ((formData.get('fileFormat') as string) || '').trim();
+    if (fileFormat) {
+      productItem.fileFormat = fileFormat;
+    }
+    const variants = this.productVariants.map(variant => ({ ...variant }));
+    variants.forEach(variant => {
+      if (!variant.name || variant.price <= 0) {
+        throw new Error('Setiap varian harus punya nama dan harga');
+      }
+      if (variant.originalPrice !== undefined && variant.originalPrice <= variant.price) {
+        delete variant.originalPrice;
+      }
+    });
+    if (variants.length > 0) {
+      productItem.variants = variants;
+    }
+    // Fixed prices for currencies no longer offered are kept for when they return
+    const existingPrices = this.productsData.find(item => item.id === this.currentEditingId)?.currencyPrices;
+    const currencyPrices: Partial<Record<string, number>> = { ...existingPrices };
+    (this.siteSettings.currencies || []).forEach(currency => {
+      const price = parseFloat(formData.get(`currencyPrice-${currency.code}`) as string);
+      if (price > 0) currencyPrices[currency.code] = price; else delete currencyPrices[currency.code];
+    });
+    if (Object.keys(currencyPrices).length > 0) {
+      productItem.currencyPrices = currencyPrices;
+    }
+    const additionalImages = ((formData.get('additionalImages') as string) || '')
+      .split('\n')
+      .map(url => url.trim())
+      .filter(Boolean);
+    if (additionalImages.length > 0) {
+      productItem.additionalImages = additionalImages;
+    }
+
+    // Get image from form or temp storage
+    const imageInput = DOMUtils.getElementById<HTMLInputElement>('productImage');
+    const imageUrl = this.tempImageData.product || imageInput?.value || '';
+
+    // Validate required fields
+    if (!productItem.name || !productItem.price) {
+      throw new Error('Name and price are required');
+    }
+
+    if (this.currentEditingId) {
+      // Update existing item
+      const index = this.productsData.findIndex(item => item.id === this.currentEditingId);
+      if (index !== -1) {
+      const existingItem = this.productsData[index];
+      if (existingItem) {
+        const updatedItem = { 
+          ...existingItem, 
+          ...productItem,
+          image: imageUrl || existingItem.image,
+          id: existingItem.id // Keep original ID
+        } as ProductItem;
+
+        // Optional fields left blank are cleared, not kept from before
+        (['originalPrice', 'discount', 'saleStartsAt', 'saleEndsAt', 'details', 'fileFormat', 'additionalImages', 'variants', 'currencyPrices', 'stock', 'lowStockThreshold', 'weight', 'dimensions'] as const).forEach(field => {
+          if (productItem[field] === undefined) delete updatedItem[field];
+        });
+        this.productsData[index] = updatedItem;
+      }
+      }
+      this.currentEditingId = null;
+    } else {
+      // Create new item
+      const newItem: ProductItem = {
+        ...productItem as ProductItem,
+        id: this.generateId(),
+        image: imageUrl || ImageUtils.createPlaceholder(300, 200, productItem.name || 'Product')
+      };
+      this.productsData.push(newItem);
+    }
+
+    // Clear temp image data
+    delete this.tempImageData.product;
+
+    await this.saveProductsData();
+    await this.renderProductItems();
+  }
+
+  /**
+   * Handle settings form submission
+   */
+  private async handleSettingsSubmit(formData: FormData): Promise<void> {
+    const settings: Partial<SiteSettings> = {
+      siteName: formData.get('siteName') as string,
+      heroTitle: formData.get('heroTitle') as string,
+      heroSubtitle: formData.get('heroSubtitle') as string,
+      aboutText: formData.get('aboutText') as string,
+      whatsappNumber: formData.get('whatsappNumber') as string,
+      gridLayout: formData.get('gridLayout') as GridLayout,
+      itemsPerPage: parseInt(formData.get('itemsPerPage') as string) || 9,
+      pagingMode: (formData.get('pagingMode') as PagingMode) || 'load-more',
+      showCategories: formData.get('showCategories') === 'on',
+      enableAnimations: formData.get('enableAnimations') === 'on',
+      sessionTimeoutMinutes: parseInt(formData.get('sessionTimeoutMinutes') as string) || DEFAULT_SESSION_CONFIG.idleMinutes,
+      rememberMeDays: parseInt(formData.get('rememberMeDays') as string) || DEFAULT_SESSION_CONFIG.rememberDays
+    };
+
+    // Validate WhatsApp number
+    if (settings.whatsappNumber && !ValidationUtils.isValidPhoneNumber(settings.whatsappNumber)) {
+      throw new Error('Invalid WhatsApp number format');
+    }
+
+    // Only templates that differ from the default are stored
+    const messageTemplates: Partial<MessageTemplates> = {};
+    this.getTemplateKeys().forEach(key => {
+      const template = ((formData.get(`${key}Template`) as string) || '').trim();
+      const unknown = TemplateUtils.findUnknown(template, key);
+      if (unknown.length > 0) {
+        throw new Error(`Placeholder tidak dikenal di template ${this.getTemplateLabel(key)}: ${unknown.join(', ')}`);
+      }
+      if (template && template !== DEFAULT_MESSAGE_TEMPLATES[key]) {
+        messageTemplates[key] = template;
+      }
+    });
+
+    const currencies = this.currencies.map(currency => ({ ...currency, code: currency.code.trim().toUpperCase() }));
+    currencies.forEach((currency, index) => {
+      if (!CurrencyUtils.isSupported(currency.code) || currency.code === BASE_CURRENCY.code) {
+        throw new Error(`Kode mata uang tidak valid: "${currency.code}". Gunakan kode 3 huruf seperti USD atau EUR`);
+      }
+      if (currencies.findIndex(other => other.code === currency.code) !== index) {
+        throw new Error(`Mata uang ${currency.code} tercantum lebih dari sekali`);
+      }
+      if (!(currency.rate > 0)) {
+        throw new Error(`Kurs ${currency.code} harus lebih dari 0`);
+      }
+    });
+
+    const shippingZones = this.shippingZones.map(zone => ({ ...zone, name: zone.name.trim() }));
+    shippingZones.forEach((zone, index) => {
+      if (!zone.name) {
+        throw new Error('Setiap zona pengiriman harus punya nama');
+      }
+      if (shippingZones.findIndex(other => other.name.toLowerCase() === zone.name.toLowerCase()) !== index) {
+        throw new Error(`Zona ${zone.name} tercantum lebih dari sekali`);
+      }
+      if (!(zone.rate >= 0)) {
+        throw new Error(`Tarif zona ${zone.name} tidak valid`);
+      }
+      if (zone.freeOver !== undefined && !(zone.freeOver > 0)) {
+        delete zone.freeOver;
+      }
+    });
+
+    const invoicePrefix = ((formData.get('invoicePrefix') as string) || '').trim().toUpperCase();
+    if (invoicePrefix && !/^[A-Z0-9/]+$/.test(invoicePrefix)) {
+      throw new Error('Awalan invoice hanya boleh berisi huruf, angka, dan garis miring');
+    }
+    const paymentInstructions = ((formData.get('paymentInstructions') as string) || '').trim();
+
+    this.siteSettings = { ...this.siteSettings, ...settings, messageTemplates, currencies, shippingZones };
+    if (invoicePrefix) {
+      this.siteSettings.invoicePrefix = invoicePrefix;
+    } else {
+      delete this.siteSettings.invoicePrefix;
+    }
+    if (paymentInstructions) {
+      this.siteSettings.paymentInstructions = paymentInstructions;
+    } else {
+      delete this.siteSettings.paymentInstructions;
+    }
+    await this.saveSiteSettings();
+    
+    // Show success message
+    this.showMessage('Pengaturan berhasil disimpan!', 'success');
+  }
+
+  /**
+   * Setup the currency list in the settings form: add, edit and remove
+   */
+  private setupCurrencyHandlers(): void {
+    const list = DOMUtils.getElementById<HTMLElement>('currencyList');
+
+    DOMUtils.getElementById<HTMLButtonElement>('addCurrency')?.addEventListener('click', () => {
+      this.currencies.push({ code: '', rate: 0, rounding: 'cents', active: true });
+      this.renderCurrencyList();
+      list?.querySelector<HTMLInputElement>('.variant-row:last-child [data-field="code"]')?.focus();
+    });
+
+    if (!list) return;
+
+    // Field edits update the list in place so typing keeps focus
+    const update = (e: Event) => {
+      const input = e.target as HTMLInputElement | HTMLSelectElement;
+      const currency = this.currencies[this.getVariantIndex(input)];
+      if (!currency) return;
+
+      switch (input.dataset.field) {
+        case 'code':
+          currency.code = input.value.trim().toUpperCase();
+          break;
+        case 'rate':
+          currency.rate = parseFloat(input.value) || 0;
+          break;
+        case 'rounding':
+          currency.rounding = input.value as CurrencyRounding;
+          break;
+        case 'active':
+          currency.active = (input as HTMLInputElement).checked;
+          break;
       }
+    };
+    list.addEventListener('input', update);
+    list.addEventListener('change', update);
+
+    list.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action="remove"]');
+      if (!button) return;
+
+      this.currencies.splice(this.getVariantIndex(button), 1);
+      this.renderCurrencyList();
+    });
+  }
+
+  /**
+   * Render the currency rows of the settings form
+   */
+  private renderCurrencyList(): void {
+    const list = DOMUtils.getElementById<HTMLElement>('currencyList');
+    if (!list) return;
+
+    if (this.currencies.length === 0) {
+      list.innerHTML = '<li class="variant-list-empty">Hanya Rupiah: pengunjung tidak melihat pilihan mata uang.</li>';
+      return;
+    }
+
+    const roundings: [CurrencyRounding, string][] = [['cents', 'Sen'], ['whole', 'Bilangan bulat'], ['charm', 'Harga .99']];
+    list.innerHTML = this.currencies.map((currency, index) => `
+      <li class="variant-row" data-index="${index}">
+        <div class="variant-fields">
+          <input type="text" data-field="code" value="${currency.code}" maxlength="3" placeholder="Kode, mis. USD">
+          <input type="number" data-field="rate" value="${currency.rate || ''}" min="0" step="any" placeholder="Rp per 1 unit">
+          <select data-field="rounding">
+            ${roundings.map(([value, label]) => `<option value="${value}" ${currency.rounding === value ? 'selected' : ''}>${label}</option>`).join('')}
+          </select>
+          <label class="checkbox-label">
+            <input type="checkbox" data-field="active" ${currency.active ? 'checked' : ''}>
+            <span class="checkmark"></span>
+            Aktif
+          </label>
+        </div>
+        <div class="variant-actions">
+          <button type="button" class="btn btn-small btn-danger" data-action="remove" title="Hapus">
+            <i class="fas fa-trash"></i>
+          </button>
+        </div>
+      </li>
+    `).join('');
+  }
+
+  /**
+   * Template editors in the Settings tab: placeholder buttons, live preview
+   * and inline warnings for placeholders the message does not support
+   */
+  private setupTemplateEditors(): void {
+    DOMUtils.querySelectorAll<HTMLElement>('.template-field').forEach(field => {
+      const key = field.dataset.template as MessageTemplateKey;
+      const textarea = field.querySelector<HTMLTextAreaElement>('textarea');
+      const placeholders = field.querySelector<HTMLElement>('.template-placeholders');
+      if (!textarea || !TEMPLATE_PLACEHOLDERS[key]) return;
+
+      if (placeholders) {
+        placeholders.innerHTML = TEMPLATE_PLACEHOLDERS[key]
+          .map(placeholder => `<button type="button" class="placeholder-chip" data-placeholder="${placeholder}">${placeholder}</button>`)
+          .join('');
+
+        placeholders.addEventListener('click', (event) => {
+          const chip = (event.target as HTMLElement).closest<HTMLElement>('[data-placeholder]');
+          if (!chip?.dataset.placeholder) return;
+
+          textarea.setRangeText(chip.dataset.placeholder, textarea.selectionStart, textarea.selectionEnd, 'end');
+          textarea.focus();
+          this.updateTemplatePreview(field);
+        });
+      }
+
+      textarea.addEventListener('input', () => this.updateTemplatePreview(field));
+    });
+  }
+
+  private updateTemplatePreviews(): void {
+    DOMUtils.querySelectorAll<HTMLElement>('.template-field').forEach(field => this.updateTemplatePreview(field));
+  }
+
+  /**
+   * Render one template with sample values and flag unknown placeholders
+   */
+  private updateTemplatePreview(field: HTMLElement): void {
+    const key = field.dataset.template as MessageTemplateKey;
+    const textarea = field.querySelector<HTMLTextAreaElement>('textarea');
+    const preview = field.querySelector<HTMLElement>('.template-preview');
+    const error = field.querySelector<HTMLElement>('.template-error');
+    if (!textarea) return;
+
+    const template = textarea.value.trim() || DEFAULT_MESSAGE_TEMPLATES[key];
+    const unknown = TemplateUtils.findUnknown(template, key);
+
+    if (error) {
+      error.textContent = unknown.length > 0 ? `Placeholder tidak dikenal: ${unknown.join(', ')}` : '';
+      error.hidden = unknown.length === 0;
+    }
+    DOMUtils.toggleClass(textarea, 'invalid', unknown.length > 0);
+
+    if (preview) {
+      preview.textContent = TemplateUtils.render(template, this.getTemplateSampleValues(key));
+    }
+  }
+
+  /**
+   * Preview values taken from the first portfolio item and products, or made up when there are none
+   */
+  private getTemplateSampleValues(key: MessageTemplateKey): Record<string, string> {
+    const siteUrl = new URL('index.html', window.location.href).href;
+    const values = TemplateUtils.siteValues(this.siteSettings);
+
+    if (key === 'portfolio') {
+      const item: PortfolioItem = this.portfolioData[0] || { id: 0, title: 'Contoh Karya', category: 'ilustrasi', image: '' };
+      const url = `${siteUrl}#/work/${FormatUtils.slugify(item.title)}`;
+      return { ...values, ...TemplateUtils.portfolioValues(item, CategoryUtils.getLabel(this.categories, item.category), url) };
+    }
+
+    const sampleProduct: ProductItem = { id: 0, name: 'Contoh Produk', price: 50000, description: '', image: '', status: 'active' };
+    const products = this.productsData.filter(product => product.status === 'active');
+    if (products.length === 0) products.push(sampleProduct);
+
+    if (key === 'product') {
+      const product = products[0] || sampleProduct;
+      const url = `${siteUrl}#/shop/${FormatUtils.slugify(product.name)}`;
+      return {
+        ...values,
+        ...TemplateUtils.productValues(product, VariantUtils.find(product), CategoryUtils.find(this.productCategories, product.category), url)
+      };
+    }
+
+    if (key === 'cart') {
+      const lines = products.slice(0, 2).map(product => ({ productId: product.id, quantity: 1 }));
+      const summary = CartUtils.summarize(lines, products, this.productCategories);
+      const code = this.coupons.find(coupon => !PromoUtils.getCouponError(coupon))?.code || '';
+      return { ...values, ...TemplateUtils.cartValues(PromoUtils.apply(summary, this.bundles, this.coupons, code)) };
+    }
+
+    return values;
+  }
+
+  private getTemplateKeys(): MessageTemplateKey[] {
+    return Object.keys(DEFAULT_MESSAGE_TEMPLATES) as MessageTemplateKey[];
+  }
+
+  private getTemplateLabel(key: MessageTemplateKey): string {
+    const label = DOMUtils.querySelector<HTMLLabelElement>(`label[for="${key}Template"]`)?.textContent || key;
+    return label.replace(/:$/, '');
+  }
+
+  /**
+   * Export all data and images as a downloadable backup file
+   */
+  private async handleBackupExport(): Promise<void> {
+    try {
+      this.showMessage('Menyiapkan backup...', 'info');
+      await this.saveAllData();
+      const backup = await BackupUtils.createBackup();
+      BackupUtils.download(backup);
+      this.showMessage('Backup berhasil diexport!', 'success');
+    } catch (error) {
+      console.error('Backup export error:', error);
+      this.showMessage('Gagal membuat backup', 'error');
+    }
+  }
+
+  /**
+   * Validate a backup file, show what would change and apply it
+   */
+  private async handleBackupImport(file: File): Promise<void> {
+    let incoming: SiteBackup;
+    try {
+      incoming = await BackupUtils.readFile(file);
+    } catch (error) {
+      console.error('Backup import error:', error);
+      this.showMessage(error instanceof Error ? error.message : 'File backup tidak valid', 'error');
+      return;
+    }
+
+    try {
+      await this.saveAllData();
+      const current = await BackupUtils.createBackup();
+      const diff = BackupUtils.diff(current, incoming);
+
+      const lines = Object.entries(diff.collections).map(([key, summary]) =>
+        `<li><strong>${this.getStorageKeyLabel(key)}</strong>: ` +
+        `${summary.added} ditambah, ${summary.changed} diubah, ${summary.removed} tidak ada di backup</li>`
+      );
+      diff.changedSettings.forEach(key => {
+        lines.push(`<li><strong>${this.getStorageKeyLabel(key)}</strong>: berubah</li>`);
+      });
+
+      const exportedAt = incoming.exportedAt ? FormatUtils.formatDate(incoming.exportedAt) : 'tanggal tidak diketahui';
+      const mode = await this.showChoiceDialog<BackupImportMode>(
+        'Import Backup',
+        `Backup dari ${exportedAt}.` +
+        `<ul class="backup-diff">${lines.join('') || '<li>Tidak ada perubahan</li>'}</ul>` +
+        '<p><strong>Gabungkan</strong> mempertahankan item yang tidak ada di backup, ' +
+        '<strong>Ganti Semua</strong> menghapusnya.</p>',
+        [
+          { value: 'merge', label: 'Gabungkan', className: 'btn-primary' },
+          { value: 'replace', label: 'Ganti Semua', className: 'btn-danger' }
+        ]
+      );
+      if (!mode) return;
+
+      const success = await BackupUtils.restore(current, incoming, mode);
+      await this.loadData();
+      await this.renderContent();
+
+      this.showMessage(
+        success ? 'Backup berhasil diimport!' : 'Sebagian data backup gagal disimpan',
+        success ? 'success' : 'error'
+      );
+    } catch (error) {
+      console.error('Backup restore error:', error);
+      this.showMessage('Gagal mengimport backup', 'error');
+    }
+  }
+
+  /**
+   * List keys whose stored data could not be upgraded. Their defaults are shown
+   * but never saved until the admin restores the old data or chooses to start over.
+   */
+  private renderMigrationAlert(): void {
+    const alert = DOMUtils.getElementById<HTMLElement>('migrationAlert');
+    if (!alert) return;
+
+    const failures = SchemaMigrator.getFailures();
+    alert.hidden = failures.length === 0;
+    alert.innerHTML = failures.map(failure => `
+      <div class="migration-failure">
+        <p>
+          <i class="fas fa-exclamation-triangle"></i>
+          <strong>Data ${this.getStorageKeyLabel(failure.key)} gagal dimuat</strong>
+          (skema v${failure.fromVersion} ke v${failure.toVersion}). Data bawaan ditampilkan dan
+          perubahan pada data ini tidak disimpan agar data lama tidak tertimpa.
+        </p>
+        <p class="form-help">${FormatUtils.escapeHtml(failure.message)}</p>
+        <div class="migration-actions">
+          <button type="button" class="btn-secondary" data-action="download" data-key="${failure.key}">
+            <i class="fas fa-download"></i> Unduh Data Lama
+          </button>
+          <button type="button" class="btn-primary" data-action="restore" data-key="${failure.key}">
+            <i class="fas fa-undo"></i> Pulihkan &amp; Coba Lagi
+          </button>
+          <button type="button" class="btn-danger" data-action="discard" data-key="${failure.key}">
+            <i class="fas fa-eraser"></i> Pakai Data Bawaan
+          </button>
+        </div>
+      </div>
+    `).join('');
+  }
+
+  /**
+   * Download, restore or give up the old data of a key that failed to upgrade
+   */
+  private async handleMigrationAction(key: StorageKeys, action: string): Promise<void> {
+    const failure = SchemaMigrator.getFailures().find(item => item.key === key);
+    if (!failure) return;
+
+    try {
+      switch (action) {
+        case 'download':
+          BackupUtils.download(await BackupUtils.createFailureBackup(failure));
+          break;
+
+        case 'restore':
+          if (!(await AsyncStorage.restoreBackup(failure))) {
+            throw new Error('Cadangan data lama tidak ditemukan');
+          }
+          await this.loadData();
+          await this.renderContent();
+          this.showMessage(
+            SchemaMigrator.isBlocked(key)
+              ? `Data ${this.getStorageKeyLabel(key)} masih belum bisa dimuat`
+              : `Data ${this.getStorageKeyLabel(key)} berhasil dipulihkan`,
+            SchemaMigrator.isBlocked(key) ? 'error' : 'success'
+          );
+          break;
+
+        case 'discard': {
+          const confirmed = await this.showChoiceDialog<'discard'>(
+            'Pakai Data Bawaan',
+            `Data ${this.getStorageKeyLabel(key)} yang lama akan tertimpa saat Anda menyimpan. ` +
+            'Unduh data lama dulu jika masih diperlukan.',
+            [{ value: 'discard', label: 'Pakai Data Bawaan', className: 'btn-danger' }]
+          );
+          if (!confirmed) return;
+
+          SchemaMigrator.resolveFailure(key);
+          this.renderMigrationAlert();
+          break;
+        }
+      }
+    } catch (error) {
+      console.error('Migration restore error:', error);
+      this.showMessage(error instanceof Error ? error.message : 'Gagal memulihkan data', 'error');
+    }
+  }
+
+  // Category Methods
+
+  /**
+   * Setup category manager handlers for both category kinds
+   */
+  private setupCategoryHandlers(): void {
+    (['portfolio', 'product'] as CategoryKind[]).forEach(kind => {
+      const list = DOMUtils.getElementById<HTMLElement>(`${kind}CategoryList`);
+      list?.addEventListener('click', (event: Event) => {
+        const button = (event.target as HTMLElement).closest<HTMLElement>('.category-action');
+        const id = parseInt(button?.dataset.id || '0');
+        if (!button || !id) return;
+
+        switch (button.dataset.action) {
+          case 'up':
+          case 'down':
+            this.moveCategory(kind, id, button.dataset.action === 'up' ? -1 : 1);
+            break;
+          case 'edit':
+            this.editCategory(kind, id);
+            break;
+          case 'delete':
+            this.deleteCategory(kind, id);
+            break;
+        }
+      });
+
+      // Suggest a slug while typing a new category name
+      const labelInput = DOMUtils.getElementById<HTMLInputElement>(`${kind}CategoryLabel`);
+      const slugInput = DOMUtils.getElementById<HTMLInputElement>(`${kind}CategorySlug`);
+      labelInput?.addEventListener('input', () => {
+        if (slugInput && this.editingCategoryIds[kind] === null) {
+          slugInput.placeholder = FormatUtils.slugify(labelInput.value) || 'Otomatis dari nama jika dikosongkan';
+        }
+      });
+
+      const cancelId = kind === 'portfolio' ? 'cancelPortfolioCategoryEdit' : 'cancelProductCategoryEdit';
+      DOMUtils.getElementById<HTMLButtonElement>(cancelId)
+        ?.addEventListener('click', () => this.resetCategoryForm(kind));
+    });
+
+    // Prefill type and license from the chosen product category
+    const productCategorySelect = DOMUtils.getElementById<HTMLSelectElement>('productCategory');
+    productCategorySelect?.addEventListener('change', () => {
+      this.applyProductCategoryDefaults(productCategorySelect.value);
+    });
+  }
+
+  /**
+   * Get the category list for a kind
+   */
+  private getCategories(kind: CategoryKind): CategoryBase[] {
+    return kind === 'portfolio' ? this.categories : this.productCategories;
+  }
+
+  /**
+   * Get the items that reference categories of a kind
+   */
+  private getCategorizedItems(kind: CategoryKind): { category?: string | undefined }[] {
+    return kind === 'portfolio' ? this.portfolioData : this.productsData;
+  }
+
+  /**
+   * Render both category manager lists and the category selects
+   */
+  private async renderCategories(): Promise<void> {
+    this.renderCategoryOptions();
+    this.renderCategoryList('portfolio');
+    this.renderCategoryList('product');
+  }
+
+  /**
+   * Render the manager list for one category kind
+   */
+  private renderCategoryList(kind: CategoryKind): void {
+    const container = DOMUtils.getElementById<HTMLElement>(`${kind}CategoryList`);
+    if (!container) return;
+
+    const categories = CategoryUtils.sort(this.getCategories(kind));
+    if (categories.length === 0) {
+      container.innerHTML = '<li class="empty-state">Belum ada kategori. Tambahkan kategori pertama!</li>';
+      return;
+    }
+
+    const items = this.getCategorizedItems(kind);
+    const itemLabel = kind === 'portfolio' ? 'karya' : 'produk';
+
+    container.innerHTML = categories.map((category, index) => {
+      const productCategory = kind === 'product' ? category as ProductCategory : null;
+      const icon = productCategory ? `<i class="${productCategory.icon}"></i>` : '';
+      const typeLabel = productCategory ? ` &middot; ${productCategory.defaultType === 'physical' ? 'Fisik' : 'Digital'}` : '';
+
+      return `
+        <li class="category-row">
+          <div class="category-info">
+            <span class="category-label">${icon}${category.label}</span>
+            <span class="category-meta">${category.slug}${typeLabel} &middot; ${CategoryUtils.countItems(items, category.slug)} ${itemLabel}</span>
+          </div>
+          <div class="category-actions">
+            <button class="btn btn-small btn-secondary category-action" data-action="up" data-id="${category.id}" title="Naik" ${index === 0 ? 'disabled' : ''}>
+              <i class="fas fa-arrow-up"></i>
+            </button>
+            <button class="btn btn-small btn-secondary category-action" data-action="down" data-id="${category.id}" title="Turun" ${index === categories.length - 1 ? 'disabled' : ''}>
+              <i class="fas fa-arrow-down"></i>
+            </button>
+            <button class="btn btn-small btn-primary category-action" data-action="edit" data-id="${category.id}">
+              <i class="fas fa-edit"></i> Edit
+            </button>
+            <button class="btn btn-small btn-danger category-action" data-action="delete" data-id="${category.id}">
+              <i class="fas fa-trash"></i> Hapus
+            </button>
+          </div>
+        </li>
+      `;
+    }).join('');
+  }
+
+  /**
+   * Fill the portfolio and product form category selects
+   */
+  private renderCategoryOptions(): void {
+    const selects: [string, CategoryBase[]][] = [
+      ['portfolioCategory', this.categories],
+      ['productCategory', this.productCategories]
+    ];
+
+    selects.forEach(([id, categories]) => {
+      const select = DOMUtils.getElementById<HTMLSelectElement>(id);
+      if (!select) return;
+
+      const selected = select.value;
+      select.innerHTML = CategoryUtils.sort(categories)
+        .map(category => `<option value="${category.slug}">${category.label}</option>`)
+        .join('');
+
+      if (CategoryUtils.find(categories, selected)) {
+        select.value = selected;
+      }
+    });
+  }
+
+  /**
+   * Apply a product category's default type and license to the product form
+   */
+  private applyProductCategoryDefaults(slug: string): void {
+    const category = CategoryUtils.find(this.productCategories, slug);
+    const form = DOMUtils.getElementById<HTMLFormElement>('productForm');
+    if (!category || !form) return;
+
+    this.setFormValue('type', category.defaultType, form);
+
+    // Only replace the license when the admin has not written one
+    const licenseInput = DOMUtils.getElementById<HTMLTextAreaElement>('productLicense');
+    const isDefaultLicense = this.productCategories.some(item => item.defaultLicense === licenseInput?.value);
+    if (licenseInput && (!licenseInput.value || isDefaultLicense)) {
+      licenseInput.value = category.defaultLicense || '';
+    }
+  }
+
+  /**
+   * Handle category form submission (create or edit)
+   */
+  private async handleCategorySubmit(formData: FormData, kind: CategoryKind): Promise<void> {
+    const label = ((formData.get('label') as string) || '').trim();
+    const slug = FormatUtils.slugify((formData.get('slug') as string) || label);
+    const categories = this.getCategories(kind);
+    const editingId = this.editingCategoryIds[kind];
+
+    const error = CategoryUtils.validate(categories, label, slug, editingId);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const existing = categories.find(category => category.id === editingId);
+    const base: CategoryBase = existing
+      ? { ...existing, label, slug }
+      : { id: CategoryUtils.nextId(categories), slug, label, order: categories.length };
+    // Read before anything changes so an invalid template leaves items untouched
+    const productCategory = kind === 'product' ? this.readProductCategory(formData, base) : null;
+
+    // Renaming a slug moves its items, and coupons limited to it, along with it
+    if (existing && existing.slug !== slug) {
+      await this.reassignCategory(kind, existing.slug, slug);
+    }
+
+    if (!productCategory) {
+      this.categories = existing
+        ? this.categories.map(category => category.id === base.id ? base : category)
+        : [...this.categories, base];
+    } else {
+      this.productCategories = existing
+        ? this.productCategories.map(category => category.id === base.id ? productCategory : category)
+        : [...this.productCategories, productCategory];
+    }
+
+    this.resetCategoryForm(kind);
+    await this.saveCategories(kind);
+    await this.renderCategories();
+    await this.updateStatistics();
+  }
+
+  /**
+   * Build a product category from its form fields
+   */
+  private readProductCategory(formData: FormData, base: CategoryBase): ProductCategory {
+    const category: ProductCategory = {
+      ...base,
+      icon: ((formData.get('icon') as string) || '').trim() || 'fas fa-box',
+      defaultType: formData.get('defaultType') === 'physical' ? 'physical' : 'digital'
+    };
+
+    const defaultLicense = ((formData.get('defaultLicense') as string) || '').trim();
+    const whatsappTemplate = ((formData.get('whatsappTemplate') as string) || '').trim();
+    const unknown = TemplateUtils.findUnknown(whatsappTemplate, 'product');
+    if (unknown.length > 0) {
+      throw new Error(`Placeholder tidak dikenal di template pesan: ${unknown.join(', ')}`);
+    }
+
+    if (defaultLicense) category.defaultLicense = defaultLicense;
+    if (whatsappTemplate) category.whatsappTemplate = whatsappTemplate;
+
+    return category;
+  }
+
+  /**
+   * Load a category into its form for editing
+   */
+  private editCategory(kind: CategoryKind, id: number): void {
+    const category = this.getCategories(kind).find(item => item.id === id);
+    const form = DOMUtils.getElementById<HTMLFormElement>(`${kind}CategoryForm`);
+    if (!category || !form) return;
+
+    this.editingCategoryIds[kind] = id;
+    this.setFormValue('label', category.label, form);
+    this.setFormValue('slug', category.slug, form);
+
+    if (kind === 'product') {
+      const productCategory = category as ProductCategory;
+      this.setFormValue('icon', productCategory.icon, form);
+      this.setFormValue('defaultType', productCategory.defaultType, form);
+      this.setFormValue('defaultLicense', productCategory.defaultLicense || '', form);
+      this.setFormValue('whatsappTemplate', productCategory.whatsappTemplate || '', form);
+    }
+
+    const title = DOMUtils.getElementById<HTMLElement>(`${kind}CategoryFormTitle`);
+    if (title) title.textContent = kind === 'portfolio' ? 'Edit Kategori Portfolio' : 'Edit Kategori Produk';
+    const cancelId = kind === 'portfolio' ? 'cancelPortfolioCategoryEdit' : 'cancelProductCategoryEdit';
+    const cancelBtn = DOMUtils.getElementById<HTMLButtonElement>(cancelId);
+    if (cancelBtn) cancelBtn.style.display = 'inline-flex';
+
+    DOMUtils.getElementById<HTMLInputElement>(`${kind}CategoryLabel`)?.focus();
+  }
+
+  /**
+   * Return a category form to "add" mode
+   */
+  private resetCategoryForm(kind: CategoryKind): void {
+    this.editingCategoryIds[kind] = null;
+    DOMUtils.getElementById<HTMLFormElement>(`${kind}CategoryForm`)?.reset();
+
+    const title = DOMUtils.getElementById<HTMLElement>(`${kind}CategoryFormTitle`);
+    if (title) title.textContent = kind === 'portfolio' ? 'Tambah Kategori Portfolio' : 'Tambah Kategori Produk';
+    const cancelId = kind === 'portfolio' ? 'cancelPortfolioCategoryEdit' : 'cancelProductCategoryEdit';
+    const cancelBtn = DOMUtils.getElementById<HTMLButtonElement>(cancelId);
+    if (cancelBtn) cancelBtn.style.display = 'none';
+  }
+
+  /**
+   * Move a category up or down in the display order
+   */
+  private async moveCategory(kind: CategoryKind, id: number, direction: -1 | 1): Promise<void> {
+    if (kind === 'portfolio') {
+      this.categories = CategoryUtils.move(this.categories, id, direction);
+    } else {
+      this.productCategories = CategoryUtils.move(this.productCategories, id, direction);
+    }
+    await this.saveCategories(kind);
+    await this.renderCategories();
+  }
+
+  /**
+   * Delete a category, asking where its items should go first
+   */
+  private async deleteCategory(kind: CategoryKind, id: number): Promise<void> {
+    const category = this.getCategories(kind).find(item => item.id === id);
+    if (!category) return;
+
+    const others = CategoryUtils.sort(this.getCategories(kind)).filter(item => item.id !== id);
+    const items = this.getCategorizedItems(kind);
+    const itemCount = CategoryUtils.countItems(items, category.slug);
+    const itemLabel = kind === 'portfolio' ? 'karya' : 'produk';
+
+    if (itemCount > 0) {
+      if (others.length === 0) {
+        this.showMessage(`Kategori terakhir tidak dapat dihapus selama masih dipakai ${itemLabel}`, 'error');
+        return;
+      }
+
+      const target = await this.showChoiceDialog(
+        'Hapus Kategori',
+        `<p>${itemCount} ${itemLabel} memakai kategori "${category.label}". Pindahkan ${itemLabel} tersebut ke:</p>`,
+        others.map(other => ({ value: other.slug, label: other.label, className: 'btn-primary' }))
+      );
+      if (!target) return;
+
+      await this.reassignCategory(kind, category.slug, target);
+    } else {
+      const confirmed = await this.showConfirmDialog(
+        'Hapus Kategori',
+        `Hapus kategori "${category.label}"?`
+      );
+      if (!confirmed) return;
+    }
+
+    if (kind === 'portfolio') {
+      this.categories = CategoryUtils.sort(this.categories)
+        .filter(item => item.id !== id)
+        .map((item, order) => ({ ...item, order }));
+    } else {
+      this.productCategories = CategoryUtils.sort(this.productCategories)
+        .filter(item => item.id !== id)
+        .map((item, order) => ({ ...item, order }));
+    }
+    if (this.editingCategoryIds[kind] === id) this.resetCategoryForm(kind);
+
+    await this.saveCategories(kind);
+    await this.renderCategories();
+    await this.updateStatistics();
+    this.showMessage(`Kategori "${category.label}" dihapus`, 'success');
+  }
+
+  /**
+   * Move the items of one category to another slug. Product coupons limited
+   * to the old slug are moved too so they keep applying.
+   */
+  private async reassignCategory(kind: CategoryKind, fromSlug: string, toSlug: string): Promise<void> {
+    if (CategoryUtils.reassign(this.getCategorizedItems(kind), fromSlug, toSlug) > 0) {
+      await this.saveCategorizedItems(kind);
+    }
+    if (kind === 'product' && PromoUtils.reassignCategory(this.coupons, fromSlug, toSlug) > 0) {
+      await this.saveCoupons();
+      this.renderCouponList();
+    }
+  }
+
+  /**
+   * Save and re-render the items of a category kind after reassignment
+   */
+  private async saveCategorizedItems(kind: CategoryKind): Promise<void> {
+    if (kind === 'portfolio') {
+      await this.savePortfolioData();
+      await this.renderPortfolioItems();
+    } else {
+      await this.saveProductsData();
+      await this.renderProductItems();
+    }
+  }
+
+  // Coupon & Bundle Methods
+
+  /**
+   * Setup coupon and bundle manager handlers
+   */
+  private setupPromoHandlers(): void {
+    DOMUtils.getElementById<HTMLElement>('couponList')?.addEventListener('click', (event: Event) => {
+      const button = (event.target as HTMLElement).closest<HTMLElement>('.promo-action');
+      const id = parseInt(button?.dataset.id || '0');
+      if (!button || !id) return;
+
+      if (button.dataset.action === 'edit') {
+        this.editCoupon(id);
+      } else if (button.dataset.action === 'delete') {
+        this.deleteCoupon(id);
+      }
+    });
+
+    DOMUtils.getElementById<HTMLElement>('bundleList')?.addEventListener('click', (event: Event) => {
+      const button = (event.target as HTMLElement).closest<HTMLElement>('.promo-action');
+      const id = parseInt(button?.dataset.id || '0');
+      if (!button || !id) return;
+
+      if (button.dataset.action === 'edit') {
+        this.editBundle(id);
+      } else if (button.dataset.action === 'delete') {
+        this.deleteBundle(id);
+      }
+    });
+
+    DOMUtils.getElementById<HTMLButtonElement>('cancelCouponEdit')?.addEventListener('click', () => this.resetCouponForm());
+    DOMUtils.getElementById<HTMLButtonElement>('cancelBundleEdit')?.addEventListener('click', () => this.resetBundleForm());
+  }
+
+  /**
+   * Render the coupon and bundle lists and the choices in their forms
+   */
+  private async renderPromos(): Promise<void> {
+    this.renderCheckboxList('couponCategories', 'categories', CategoryUtils.sort(this.productCategories)
+      .map(category => ({ value: category.slug, label: category.label })));
+    this.renderCheckboxList('bundleProducts', 'productIds', this.productsData
+      .map(product => ({ value: String(product.id), label: product.status === 'active' ? product.name : `${product.name} (tidak aktif)` })));
+    this.renderCouponList();
+    this.renderBundleList();
+  }
+
+  /**
+   * Fill a checkbox group, keeping the boxes that were ticked
+   */
+  private renderCheckboxList(id: string, name: string, options: { value: string; label: string }[]): void {
+    const container = DOMUtils.getElementById<HTMLElement>(id);
+    if (!container) return;
+
+    const checked = this.getCheckedValues(id);
+    container.innerHTML = options.length === 0
+      ? '<small class="form-help">Belum ada pilihan.</small>'
+      : options.map(option => `
+        <label class="checkbox-label">
+          <input type="checkbox" name="${name}" value="${option.value}">
+          ${option.label}
+        </label>
+      `).join('');
+    this.setCheckedValues(id, checked);
+  }
+
+  private getCheckedValues(id: string): string[] {
+    const inputs = DOMUtils.getElementById<HTMLElement>(id)?.querySelectorAll<HTMLInputElement>('input[type="checkbox"]:checked');
+    return Array.from(inputs || []).map(input => input.value);
+  }
+
+  private setCheckedValues(id: string, values: string[]): void {
+    DOMUtils.getElementById<HTMLElement>(id)?.querySelectorAll<HTMLInputElement>('input[type="checkbox"]').forEach(input => {
+      input.checked = values.includes(input.value);
+    });
+  }
+
+  private renderCouponList(): void {
+    const container = DOMUtils.getElementById<HTMLElement>('couponList');
+    if (!container) return;
+
+    if (this.coupons.length === 0) {
+      container.innerHTML = '<li class="empty-state">Belum ada kupon. Tambahkan kupon pertama!</li>';
+      return;
+    }
+
+    const format = (value: string) => new Date(value).toLocaleString('id-ID');
+
+    container.innerHTML = this.coupons.map(coupon => {
+      const value = coupon.type === 'percent' ? `${coupon.value}%` : FormatUtils.formatPrice(coupon.value);
+      const categories = coupon.categories?.length
+        ? coupon.categories.map(slug => CategoryUtils.getLabel(this.productCategories, slug)).join(', ')
+        : 'Semua produk';
+      const usage = `${coupon.usedCount || 0}${coupon.usageLimit ? `/${coupon.usageLimit}` : ''} dipakai`;
+      const period = [
+        coupon.startsAt ? `mulai ${format(coupon.startsAt)}` : '',
+        coupon.endsAt ? `hingga ${format(coupon.endsAt)}` : ''
+      ].filter(Boolean).join(' ');
+      const error = coupon.active ? PromoUtils.getCouponError(coupon) : 'Tidak aktif';
+
+      return `
+        <li class="category-row">
+          <div class="category-info">
+            <span class="category-label"><i class="fas fa-ticket-alt"></i>${coupon.code}</span>
+            <span class="category-meta">${value} &middot; ${categories} &middot; ${usage}</span>
+            ${period ? `<span class="category-meta">${period}</span>` : ''}
+            <span class="promo-status ${error ? 'inactive' : 'active'}">${error || 'Berlaku'}</span>
+          </div>
+          <div class="category-actions">
+            <button class="btn btn-small btn-primary promo-action" data-action="edit" data-id="${coupon.id}">
+              <i class="fas fa-edit"></i> Edit
+            </button>
+            <button class="btn btn-small btn-danger promo-action" data-action="delete" data-id="${coupon.id}">
+              <i class="fas fa-trash"></i> Hapus
+            </button>
+          </div>
+        </li>
+      `;
+    }).join('');
+  }
+
+  private renderBundleList(): void {
+    const container = DOMUtils.getElementById<HTMLElement>('bundleList');
+    if (!container) return;
+
+    if (this.bundles.length === 0) {
+      container.innerHTML = '<li class="empty-state">Belum ada paket. Tambahkan paket pertama!</li>';
+      return;
+    }
+
+    container.innerHTML = this.bundles.map(bundle => {
+      const products = bundle.productIds.map(id => this.productsData.find(product => product.id === id));
+      const names = products.map(product => product ? product.name : '(produk dihapus)').join(' + ');
+      const unavailable = products.some(product => !product || product.status !== 'active');
+      const status = !bundle.active ? 'Tidak aktif' : unavailable ? 'Ada produk yang tidak dijual' : '';
+
+      return `
+        <li class="category-row">
+          <div class="category-info">
+            <span class="category-label"><i class="fas fa-box-open"></i>${bundle.name}</span>
+            <span class="category-meta">${names}</span>
+            <span class="category-meta">
+              ${FormatUtils.formatPrice(bundle.price)} &middot; normal ${FormatUtils.formatPrice(this.getBundleRegularPrice(bundle.productIds))}
+            </span>
+            <span class="promo-status ${status ? 'inactive' : 'active'}">${status || 'Berlaku'}</span>
+          </div>
+          <div class="category-actions">
+            <button class="btn btn-small btn-primary promo-action" data-action="edit" data-id="${bundle.id}">
+              <i class="fas fa-edit"></i> Edit
+            </button>
+            <button class="btn btn-small btn-danger promo-action" data-action="delete" data-id="${bundle.id}">
+              <i class="fas fa-trash"></i> Hapus
+            </button>
+          </div>
+        </li>
+      `;
+    }).join('');
+  }
+
+  /**
+   * What a bundle's products cost separately, at their cheapest variants' regular prices
+   */
+  private getBundleRegularPrice(productIds: number[]): number {
+    return productIds.reduce((sum, id) => {
+      const product = this.productsData.find(item => item.id === id);
+      if (!product) return sum;
+      return sum + Math.min(...VariantUtils.expand(product).map(sold => PricingUtils.getPrice(sold).regularPrice));
+    }, 0);
+  }
+
+  /**
+   * Handle coupon form submission (create or edit)
+   */
+  private async handleCouponSubmit(formData: FormData): Promise<void> {
+    const code = PromoUtils.normalizeCode((formData.get('code') as string) || '');
+    if (!/^[A-Z0-9_-]+$/.test(code)) {
+      throw new Error('Kode kupon hanya boleh berisi huruf, angka, tanda hubung, dan garis bawah');
+    }
+
+    // Keep usage counted by the site since this tab was opened
+    this.coupons = await AsyncStorage.get<Coupon[]>(StorageKeys.COUPONS, []);
+    if (this.coupons.some(coupon => coupon.code === code && coupon.id !== this.editingCouponId)) {
+      throw new Error(`Kode kupon "${code}" sudah ada`);
+    }
+
+    const type: CouponType = formData.get('type') === 'fixed' ? 'fixed' : 'percent';
+    const value = parseInt(formData.get('value') as string) || 0;
+    if (value <= 0 || (type === 'percent' && value > 100)) {
+      throw new Error(type === 'percent' ? 'Persentase potongan harus antara 1 dan 100' : 'Nilai potongan harus lebih dari 0');
+    }
+
+    const startsAt = this.fromDateTimeInput(formData.get('startsAt') as string);
+    const endsAt = this.fromDateTimeInput(formData.get('endsAt') as string);
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      throw new Error('Waktu berakhir kupon harus setelah waktu mulai');
+    }
+
+    const existing = this.coupons.find(coupon => coupon.id === this.editingCouponId);
+    const coupon: Coupon = {
+      id: existing ? existing.id : PromoUtils.nextId(this.coupons),
+      code,
+      type,
+      value,
+      active: formData.get('status') !== 'inactive'
+    };
+
+    const usageLimit = parseInt(formData.get('usageLimit') as string) || 0;
+    const categories = (formData.getAll('categories') as string[])
+      .filter(slug => CategoryUtils.find(this.productCategories, slug));
+
+    if (startsAt) coupon.startsAt = startsAt;
+    if (endsAt) coupon.endsAt = endsAt;
+    if (usageLimit > 0) coupon.usageLimit = usageLimit;
+    if (categories.length > 0) coupon.categories = categories;
+    PromoUtils.countUses([coupon], this.orders);
+
+    this.coupons = existing
+      ? this.coupons.map(item => item.id === coupon.id ? coupon : item)
+      : [...this.coupons, coupon];
+
+    this.resetCouponForm();
+    await this.saveCoupons();
+    this.renderCouponList();
+  }
+
+  /**
+   * Load a coupon into its form for editing
+   */
+  private editCoupon(id: number): void {
+    const coupon = this.coupons.find(item => item.id === id);
+    const form = DOMUtils.getElementById<HTMLFormElement>('couponForm');
+    if (!coupon || !form) return;
+
+    this.editingCouponId = id;
+    this.setFormValue('code', coupon.code, form);
+    this.setFormValue('type', coupon.type, form);
+    this.setFormValue('value', String(coupon.value), form);
+    this.setFormValue('startsAt', this.toDateTimeInput(coupon.startsAt), form);
+    this.setFormValue('endsAt', this.toDateTimeInput(coupon.endsAt), form);
+    this.setFormValue('usageLimit', coupon.usageLimit ? String(coupon.usageLimit) : '', form);
+    this.setFormValue('status', coupon.active ? 'active' : 'inactive', form);
+    this.setCheckedValues('couponCategories', coupon.categories || []);
+
+    const title = DOMUtils.getElementById<HTMLElement>('couponFormTitle');
+    if (title) title.textContent = 'Edit Kupon';
+    const cancelBtn = DOMUtils.getElementById<HTMLButtonElement>('cancelCouponEdit');
+    if (cancelBtn) cancelBtn.style.display = 'inline-flex';
+
+    DOMUtils.getElementById<HTMLInputElement>('couponCode')?.focus();
+  }
+
+  /**
+   * Return the coupon form to "add" mode
+   */
+  private resetCouponForm(): void {
+    this.editingCouponId = null;
+    DOMUtils.getElementById<HTMLFormElement>('couponForm')?.reset();
+    this.setCheckedValues('couponCategories', []);
+
+    const title = DOMUtils.getElementById<HTMLElement>('couponFormTitle');
+    if (title) title.textContent = 'Tambah Kupon';
+    const cancelBtn = DOMUtils.getElementById<HTMLButtonElement>('cancelCouponEdit');
+    if (cancelBtn) cancelBtn.style.display = 'none';
+  }
+
+  private async deleteCoupon(id: number): Promise<void> {
+    const coupon = this.coupons.find(item => item.id === id);
+    if (!coupon) return;
+
+    const confirmed = await this.showConfirmDialog('Hapus Kupon', `Hapus kupon "${coupon.code}"?`);
+    if (!confirmed) return;
+
+    this.coupons = (await AsyncStorage.get<Coupon[]>(StorageKeys.COUPONS, [])).filter(item => item.id !== id);
+    if (this.editingCouponId === id) this.resetCouponForm();
+
+    await this.saveCoupons();
+    this.renderCouponList();
+    this.showMessage(`Kupon "${coupon.code}" dihapus`, 'success');
+  }
+
+  /**
+   * Handle bundle form submission (create or edit)
+   */
+  private async handleBundleSubmit(formData: FormData): Promise<void> {
+    const name = ((formData.get('name') as string) || '').trim();
+    if (!name) {
+      throw new Error('Nama paket wajib diisi');
+    }
+
+    const productIds = (formData.getAll('productIds') as string[])
+      .map(id => parseInt(id))
+      .filter(id => this.productsData.some(product => product.id === id));
+    if (productIds.length < 2) {
+      throw new Error('Pilih minimal 2 produk untuk paket');
+    }
+
+    const price = parseInt(formData.get('price') as string);
+    const regularPrice = this.getBundleRegularPrice(productIds);
+    if (isNaN(price) || price < 0) {
+      throw new Error('Harga paket tidak valid');
+    }
+    if (price >= regularPrice) {
+      throw new Error(`Harga paket harus di bawah total harga produknya (${FormatUtils.formatPrice(regularPrice)})`);
+    }
+
+    const existing = this.bundles.find(bundle => bundle.id === this.editingBundleId);
+    const bundle: ProductBundle = {
+      id: existing ? existing.id : PromoUtils.nextId(this.bundles),
+      name,
+      productIds,
+      price,
+      active: formData.get('status') !== 'inactive'
+    };
+
+    this.bundles = existing
+      ? this.bundles.map(item => item.id === bundle.id ? bundle : item)
+      : [...this.bundles, bundle];
+
+    this.resetBundleForm();
+    await this.saveBundles();
+    this.renderBundleList();
+  }
+
+  /**
+   * Load a bundle into its form for editing
+   */
+  private editBundle(id: number): void {
+    const bundle = this.bundles.find(item => item.id === id);
+    const form = DOMUtils.getElementById<HTMLFormElement>('bundleForm');
+    if (!bundle || !form) return;
+
+    this.editingBundleId = id;
+    this.setFormValue('name', bundle.name, form);
+    this.setFormValue('price', String(bundle.price), form);
+    this.setFormValue('status', bundle.active ? 'active' : 'inactive', form);
+    this.setCheckedValues('bundleProducts', bundle.productIds.map(String));
+
+    const title = DOMUtils.getElementById<HTMLElement>('bundleFormTitle');
+    if (title) title.textContent = 'Edit Paket';
+    const cancelBtn = DOMUtils.getElementById<HTMLButtonElement>('cancelBundleEdit');
+    if (cancelBtn) cancelBtn.style.display = 'inline-flex';
+
+    DOMUtils.getElementById<HTMLInputElement>('bundleName')?.focus();
+  }
+
+  /**
+   * Return the bundle form to "add" mode
+   */
+  private resetBundleForm(): void {
+    this.editingBundleId = null;
+    DOMUtils.getElementById<HTMLFormElement>('bundleForm')?.reset();
+    this.setCheckedValues('bundleProducts', []);
+
+    const title = DOMUtils.getElementById<HTMLElement>('bundleFormTitle');
+    if (title) title.textContent = 'Tambah Paket';
+    const cancelBtn = DOMUtils.getElementById<HTMLButtonElement>('cancelBundleEdit');
+    if (cancelBtn) cancelBtn.style.display = 'none';
+  }
+
+  private async deleteBundle(id: number): Promise<void> {
+    const bundle = this.bundles.find(item => item.id === id);
+    if (!bundle) return;
+
+    const confirmed = await this.showConfirmDialog('Hapus Paket', `Hapus paket "${bundle.name}"?`);
+    if (!confirmed) return;
+
+    this.bundles = this.bundles.filter(item => item.id !== id);
+    if (this.editingBundleId === id) this.resetBundleForm();
+
+    await this.saveBundles();
+    this.renderBundleList();
+    this.showMessage(`Paket "${bundle.name}" dihapus`, 'success');
+  }
+
+  // Stock Methods
+
+  /**
+   * Setup the restock request list: record requests received over WhatsApp
+   * and remove them once the visitor was contacted
+   */
+  private setupStockHandlers(): void {
+    const form = DOMUtils.getElementById<HTMLFormElement>('restockRequestForm');
+    form?.addEventListener('submit', async (event: Event) => {
+      event.preventDefault();
+      const formData = new FormData(form);
+      const productId = parseInt(formData.get('productId') as string);
+      const parsed = StockUtils.parseContact((formData.get('contact') as string) || '');
+      if (!productId || !parsed) {
+        this.showMessage('Masukkan nomor WhatsApp atau email yang valid', 'error');
+        return;
+      }
+
+      const requests = await AsyncStorage.get<RestockRequest[]>(StorageKeys.RESTOCK_REQUESTS, []);
+      this.restockRequests = StockUtils.addRequest(requests, productId, parsed.channel, parsed.contact);
+      if (!(await AsyncStorage.set(StorageKeys.RESTOCK_REQUESTS, this.restockRequests))) {
+        this.showMessage('Gagal menyimpan permintaan restok', 'error');
+        return;
+      }
+      form.reset();
+      this.renderRestockRequests();
+    });
+
+    DOMUtils.getElementById<HTMLElement>('restockRequestList')?.addEventListener('click', async (event: Event) => {
+      const button = (event.target as HTMLElement).closest<HTMLElement>('[data-action="remove-restock"]');
+      const id = parseInt(button?.dataset.id || '0');
+      if (!id) return;
+
+      this.restockRequests = (await AsyncStorage.get<RestockRequest[]>(StorageKeys.RESTOCK_REQUESTS, []))
+        .filter(request => request.id !== id);
+      if (!(await AsyncStorage.set(StorageKeys.RESTOCK_REQUESTS, this.restockRequests))) {
+        this.showMessage('Gagal menyimpan permintaan restok', 'error');
+      }
+      this.renderRestockRequests();
+    });
+
+    AsyncStorage.subscribe(async key => {
+      if (key !== StorageKeys.RESTOCK_REQUESTS) return;
+      this.restockRequests = await AsyncStorage.get<RestockRequest[]>(StorageKeys.RESTOCK_REQUESTS, []);
+      this.renderRestockRequests();
+    });
+  }
+
+  /**
+   * Sold-out and low-stock products on the dashboard
+   */
+  private renderLowStock(): void {
+    const container = DOMUtils.getElementById<HTMLElement>('lowStockList');
+    if (!container) return;
+
+    const products = StockUtils.getLowStock(this.productsData);
+    container.innerHTML = products.length === 0
+      ? '<li class="empty-state">Semua stok aman.</li>'
+      : products.map(product => `
+        <li class="${StockUtils.isSoldOut(product) ? 'sold-out' : 'low'}">
+          <span>${product.name}${product.status === 'active' ? '' : ' (tidak aktif)'}</span>
+          <span>${StockUtils.isSoldOut(product) ? 'Habis' : `Sisa ${product.stock}`} &middot; batas ${StockUtils.getThreshold(product)}</span>
+        </li>
+      `).join('');
+  }
+
+  /**
+   * Visitors waiting for a product, with a link to contact them
+   */
+  private renderRestockRequests(): void {
+    // Products a request can be recorded for: those with tracked stock
+    const select = DOMUtils.querySelector<HTMLSelectElement>('#restockRequestForm select[name="productId"]');
+    if (select) {
+      const selected = select.value;
+      select.replaceChildren(
+        new Option('Pilih produk', ''),
+        ...this.productsData
+          .filter(product => StockUtils.isTracked(product))
+          .map(product => new Option(product.name, String(product.id)))
+      );
+      select.value = selected;
+    }
+
+    const container = DOMUtils.getElementById<HTMLElement>('restockRequestList');
+    if (!container) return;
+
+    if (this.restockRequests.length === 0) {
+      container.innerHTML = '<li class="empty-state">Belum ada permintaan.</li>';
+      return;
+    }
+
+    // Contacts are typed by visitors, so rows are built as elements rather than HTML
+    const rows = [...this.restockRequests]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(request => {
+        const product = this.productsData.find(item => item.id === request.productId);
+        const name = product ? product.name : '(produk dihapus)';
+        const available = product ? !StockUtils.isSoldOut(product) : false;
+
+        const row = document.createElement('li');
+        if (available) row.className = 'restocked';
+
+        const details = document.createElement('span');
+        const title = document.createElement('strong');
+        title.textContent = name;
+        details.append(title, available ? ' \u00b7 sudah tersedia' : '', document.createElement('br'));
+
+        const link = document.createElement('a');
+        link.href = this.getRestockContactUrl(request, name);
+        link.target = '_blank';
+        link.rel = 'noopener';
+        link.append(DOMUtils.createElement('i', request.channel === 'email' ? 'fas fa-envelope' : 'fab fa-whatsapp'), ` ${request.contact}`);
+        details.append(link);
+
+        const remove = DOMUtils.createElement<HTMLButtonElement>('button', 'btn btn-small btn-secondary');
+        remove.type = 'button';
+        remove.dataset.action = 'remove-restock';
+        remove.dataset.id = String(request.id);
+        remove.title = 'Hapus setelah dikabari';
+        remove.append(DOMUtils.createElement('i', 'fas fa-check'));
+
+        const meta = document.createElement('span');
+        meta.append(`${new Date(request.createdAt).toLocaleDateString('id-ID')} `, remove);
+
+        row.append(details, meta);
+        return row;
+      });
+
+    container.replaceChildren(...rows);
+  }
+
+  /**
+   * Link that opens a message to a waiting visitor. Email addresses are
+   * URL-encoded and WhatsApp numbers reduced to digits.
+   */
+  private getRestockContactUrl(request: RestockRequest, productName: string): string {
+    if (request.channel === 'email') {
+      return `mailto:${encodeURIComponent(request.contact)}?subject=${encodeURIComponent(`${productName} tersedia lagi`)}`;
+    }
+
+    const message = `Halo, ${productName} sudah tersedia lagi di ${this.siteSettings.siteName}.`;
+    return `https://wa.me/${request.contact.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`;
+  }
+
+  // Order Methods
+
+  /**
+   * Setup order list filters, export, the order form and inline status/note editing
+   */
+  private setupOrderHandlers(): void {
+    this.setupOrderFormHandlers();
+
+    const renderList = () => this.renderOrderList();
+    DOMUtils.getElementById<HTMLSelectElement>('orderStatusFilter')?.addEventListener('change', renderList);
+    DOMUtils.getElementById<HTMLInputElement>('orderMonthFilter')?.addEventListener('change', renderList);
+    DOMUtils.getElementById<HTMLInputElement>('orderSearch')?.addEventListener('input', debounce(renderList, 300));
+
+    DOMUtils.getElementById<HTMLButtonElement>('exportOrdersBtn')?.addEventListener('click', () => this.exportOrders());
+
+    const list = DOMUtils.getElementById<HTMLElement>('orderList');
+    list?.addEventListener('click', (event: Event) => {
+      const button = (event.target as HTMLElement).closest<HTMLElement>('.order-action');
+      const id = parseInt(button?.dataset.id || '0');
+      if (!button || !id) return;
+
+      if (button.dataset.action === 'edit') {
+        this.editOrder(id);
+      } else {
+        this.createInvoice(id, button.dataset.action === 'pdf' ? 'pdf' : 'print');
+      }
+    });
+
+    list?.addEventListener('change', (event: Event) => {
+      const target = event.target as HTMLElement;
+      const id = parseInt(target.dataset.id || '0');
+      if (!id) return;
+
+      if (target.matches('select.order-status')) {
+        this.updateOrder(id, { status: (target as HTMLSelectElement).value as OrderStatus });
+      } else if (target.matches('textarea.order-note')) {
+        this.updateOrder(id, { note: (target as HTMLTextAreaElement).value.trim() });
+      }
+    });
+
+    // Orders sent from the website or entered in another tab while the panel is open
+    AsyncStorage.subscribe(async key => {
+      if (key !== StorageKeys.ORDERS) return;
+
+      this.orders = await AsyncStorage.get<Order[]>(StorageKeys.ORDERS, []);
+      if (!list?.contains(document.activeElement)) this.renderOrderList();
+      await this.syncCouponUses();
+      await this.updateStatistics();
+    });
+  }
+
+  private getOrderFilter(): OrderFilter {
+    return {
+      status: (DOMUtils.getElementById<HTMLSelectElement>('orderStatusFilter')?.value || '') as OrderStatus | '',
+      month: DOMUtils.getElementById<HTMLInputElement>('orderMonthFilter')?.value || '',
+      query: DOMUtils.getElementById<HTMLInputElement>('orderSearch')?.value || ''
+    };
+  }
+
+  /**
+   * Render the filtered orders, newest first
+   */
+  private renderOrderList(): void {
+    const container = DOMUtils.getElementById<HTMLElement>('orderList');
+    if (!container) return;
+
+    const orders = OrderUtils.filter(this.orders, this.getOrderFilter());
+    const count = DOMUtils.getElementById<HTMLElement>('orderCount');
+    if (count) count.textContent = `${orders.length} dari ${this.orders.length} pesanan`;
+
+    if (orders.length === 0) {
+      container.innerHTML = this.orders.length === 0
+        ? '<li class="empty-state">Belum ada pesanan. Pesanan tercatat saat pengunjung mengirim pesanan lewat WhatsApp dari browser ini; pesanan lain bisa dicatat lewat "Tambah Pesanan".</li>'
+        : '<li class="empty-state">Tidak ada pesanan yang cocok dengan filter.</li>';
+      return;
+    }
+
+    container.innerHTML = orders.map(order => {
+      const currency = this.getOrderCurrency(order);
+      const format = (amount: number) => CurrencyUtils.format(amount, currency);
+      const statusOptions = (Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]).map(status => `
+        <option value="${status}" ${order.status === status ? 'selected' : ''}>${ORDER_STATUS_LABELS[status]}</option>
+      `).join('');
+
+      return `
+        <li class="order-row status-${order.status}">
+          <div class="order-header">
+            <div class="category-info">
+              <span class="category-label"><i class="fas fa-receipt"></i>Pesanan #${order.id}</span>
+              <span class="category-meta">
+                ${new Date(order.createdAt).toLocaleString('id-ID')} &middot;
+                ${order.source === 'cart' ? 'Checkout keranjang' : 'Pesan langsung'}
+                ${order.updatedAt ? `&middot; diubah ${new Date(order.updatedAt).toLocaleString('id-ID')}` : ''}
+              </span>
+              ${order.invoiceNumber ? `<span class="category-meta">Invoice ${FormatUtils.escapeHtml(order.invoiceNumber)}</span>` : ''}
+            </div>
+            <div class="order-actions">
+              <button class="btn btn-small btn-secondary order-action" data-action="edit" data-id="${order.id}" title="Edit pesanan">
+                <i class="fas fa-edit"></i> Edit
+              </button>
+              <button class="btn btn-small btn-secondary order-action" data-action="print" data-id="${order.id}" title="Cetak invoice">
+                <i class="fas fa-print"></i> Invoice
+              </button>
+              <button class="btn btn-small btn-secondary order-action" data-action="pdf" data-id="${order.id}" title="Download invoice PDF">
+                <i class="fas fa-file-pdf"></i> PDF
+              </button>
+              <select class="order-status" data-id="${order.id}" aria-label="Status pesanan #${order.id}">
+                ${statusOptions}
+              </select>
+            </div>
+          </div>
+          <ul class="order-lines">
+            ${order.lines.map(line => `
+              <li><span>${FormatUtils.escapeHtml(line.name)} &times; ${line.quantity}</span><span>${format(line.lineTotal)}</span></li>
+            `).join('')}
+          </ul>
+          <div class="order-totals">
+            ${order.discount > 0 ? `<span>Potongan ${format(order.discount)}${order.couponCode ? ` (kupon ${FormatUtils.escapeHtml(order.couponCode)})` : ''}</span>` : ''}
+            ${order.shippingZone ? `<span>Ongkir ${FormatUtils.escapeHtml(order.shippingZone)} ${order.shipping ? format(order.shipping) : 'gratis'}</span>` : ''}
+            <strong>Total ${format(order.total)}</strong>
+            ${order.currency !== BASE_CURRENCY.code ? `<span>&asymp; ${FormatUtils.formatPrice(order.totalIdr)}</span>` : ''}
+          </div>
+          <textarea class="order-note" data-id="${order.id}" rows="2" placeholder="Catatan (mis. nama pembeli, bukti transfer, resi)">${FormatUtils.escapeHtml(order.note || '')}</textarea>
+        </li>
+      `;
+    }).join('');
+  }
+
+  /**
+   * Currency an order was placed in, even if it has since been disabled
+   */
+  private getOrderCurrency(order: Pick<Order, 'currency'>): CurrencySetting {
+    if (order.currency === BASE_CURRENCY.code) return BASE_CURRENCY;
+    return (this.siteSettings.currencies || []).find(currency => currency.code === order.currency)
+      || { code: order.currency, rate: 0, rounding: 'cents', active: false };
+  }
+
+  /**
+   * Setup the order form: open and cancel it, fill it from a pasted message,
+   * and add, edit and remove its product lines
+   */
+  private setupOrderFormHandlers(): void {
+    const form = DOMUtils.getElementById<HTMLFormElement>('orderForm');
+    const list = DOMUtils.getElementById<HTMLElement>('orderLineList');
+
+    DOMUtils.getElementById<HTMLButtonElement>('addOrderBtn')?.addEventListener('click', () => this.openOrderForm());
+    DOMUtils.getElementById<HTMLButtonElement>('cancelOrderEdit')?.addEventListener('click', () => this.resetOrderForm());
+    DOMUtils.getElementById<HTMLButtonElement>('parseOrderMessage')?.addEventListener('click', () => this.fillOrderFromMessage());
+
+    DOMUtils.getElementById<HTMLButtonElement>('addOrderLine')?.addEventListener('click', () => {
+      this.orderLines.push({ productId: 0, name: '', quantity: 1, unitPrice: 0 });
+      this.renderOrderLineList();
+      list?.querySelector<HTMLSelectElement>('.variant-row:last-child [data-field="product"]')?.focus();
+    });
+
+    // Prices are in the order currency, so switching it prices the lines again from the catalog
+    DOMUtils.getElementById<HTMLSelectElement>('orderCurrency')?.addEventListener('change', () => {
+      const currency = this.getOrderFormCurrency();
+      this.orderLines.forEach(line => { line.unitPrice = this.getCatalogPrice(line, currency); });
+      this.renderOrderLineList();
+    });
+
+    form?.addEventListener('input', () => this.renderOrderFormTotal());
+
+    if (!list) return;
+
+    // Field edits update the list in place so typing keeps focus
+    list.addEventListener('input', (e: Event) => {
+      const input = e.target as HTMLInputElement;
+      const line = this.orderLines[this.getVariantIndex(input)];
+      if (!line) return;
+
+      if (input.dataset.field === 'quantity') line.quantity = parseInt(input.value) || 0;
+      if (input.dataset.field === 'unitPrice') line.unitPrice = parseFloat(input.value) || 0;
+    });
+
+    list.addEventListener('change', (e: Event) => {
+      const select = e.target as HTMLSelectElement;
+      const line = this.orderLines[this.getVariantIndex(select)];
+      if (!line || select.dataset.field !== 'product') return;
+
+      const [productId = '0', variantId] = select.value.split(':');
+      line.productId = parseInt(productId);
+      if (variantId) line.variantId = parseInt(variantId); else delete line.variantId;
+
+      const product = this.productsData.find(item => item.id === line.productId);
+      line.name = product ? VariantUtils.getName(product, VariantUtils.find(product, line.variantId)) : '';
+      line.unitPrice = this.getCatalogPrice(line, this.getOrderFormCurrency());
+      this.renderOrderLineList();
+    });
+
+    list.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action="remove"]');
+      if (!button) return;
+
+      this.orderLines.splice(this.getVariantIndex(button), 1);
+      this.renderOrderLineList();
+    });
+  }
+
+  /**
+   * Render the product lines of the order form, one product or variant per line
+   */
+  private renderOrderLineList(): void {
+    const list = DOMUtils.getElementById<HTMLElement>('orderLineList');
+    if (!list) return;
+
+    if (this.orderLines.length === 0) {
+      list.innerHTML = '<li class="variant-list-empty">Belum ada produk di pesanan ini.</li>';
+    } else {
+      const choices = this.productsData.flatMap(product => {
+        const variants = product.variants || [];
+        return variants.length > 0
+          ? variants.map(variant => ({ key: CartUtils.getKey({ productId: product.id, variantId: variant.id }), name: VariantUtils.getName(product, variant) }))
+          : [{ key: CartUtils.getKey({ productId: product.id }), name: product.name }];
+      });
+
+      list.innerHTML = this.orderLines.map((line, index) => {
+        const key = CartUtils.getKey(line);
+        // Lines of products deleted since keep their recorded name
+        const options = line.productId && !choices.some(choice => choice.key === key)
+          ? [...choices, { key, name: `${line.name} (dihapus)` }]
+          : choices;
+
+        return `
+          <li class="variant-row" data-index="${index}">
+            <div class="variant-fields">
+              <select data-field="product" aria-label="Produk">
+                <option value="">Pilih produk</option>
+                ${options.map(choice => `
+                  <option value="${choice.key}" ${line.productId && choice.key === key ? 'selected' : ''}>${FormatUtils.escapeHtml(choice.name)}</option>
+                `).join('')}
+              </select>
+              <input type="number" data-field="quantity" value="${line.quantity || ''}" min="1" step="1" placeholder="Jumlah">
+              <input type="number" data-field="unitPrice" value="${line.unitPrice}" min="0" step="any" placeholder="Harga satuan">
+            </div>
+            <div class="variant-actions">
+              <button type="button" class="btn btn-small btn-danger" data-action="remove" title="Hapus">
+                <i class="fas fa-trash"></i>
+              </button>
+            </div>
+          </li>
+        `;
+      }).join('');
+    }
+
+    this.renderOrderFormTotal();
+  }
+
+  /**
+   * Total of the order form as it would be saved
+   */
+  private renderOrderFormTotal(): void {
+    const form = DOMUtils.getElementById<HTMLFormElement>('orderForm');
+    const output = DOMUtils.getElementById<HTMLElement>('orderFormTotal');
+    if (!form || !output) return;
+
+    const formData = new FormData(form);
+    const items = this.orderLines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+    const discount = parseFloat(formData.get('discount') as string) || 0;
+    const shipping = parseFloat(formData.get('shipping') as string) || 0;
+    output.textContent = `Total ${CurrencyUtils.format(Math.max(0, items - discount + shipping), this.getOrderFormCurrency())}`;
+  }
+
+  /**
+   * Currency options for the order form: the offered ones, plus an order's
+   * own currency if it has since been disabled
+   */
+  private renderOrderCurrencyOptions(selected: CurrencyCode): void {
+    const select = DOMUtils.getElementById<HTMLSelectElement>('orderCurrency');
+    if (!select) return;
+
+    const currencies = CurrencyUtils.getCurrencies(this.siteSettings);
+    if (!currencies.some(currency => currency.code === selected)) {
+      currencies.push(this.getOrderCurrency({ currency: selected }));
+    }
+
+    select.innerHTML = '';
+    currencies.forEach(currency => select.add(new Option(currency.code, currency.code, false, currency.code === selected)));
+  }
+
+  private getOrderFormCurrency(): CurrencySetting {
+    const code = DOMUtils.getElementById<HTMLSelectElement>('orderCurrency')?.value || BASE_CURRENCY.code;
+    return this.getOrderCurrency({ currency: code });
+  }
+
+  /**
+   * Current catalog price of a line's product (variant) in a currency
+   */
+  private getCatalogPrice(line: Pick<OrderInputLine, 'productId' | 'variantId'>, currency: CurrencySetting): number {
+    const product = this.productsData.find(item => item.id === line.productId);
+    if (!product) return 0;
+
+    const sold = VariantUtils.apply(product, VariantUtils.find(product, line.variantId));
+    return CurrencyUtils.convertPrice(PricingUtils.getPrice(sold).price, currency, sold);
+  }
+
+  /**
+   * Fill the order form from a pasted WhatsApp message. Prices, bundle and
+   * coupon savings and shipping are worked out by the same rules as the cart.
+   */
+  private fillOrderFromMessage(): void {
+    const form = DOMUtils.getElementById<HTMLFormElement>('orderForm');
+    const text = DOMUtils.getElementById<HTMLTextAreaElement>('orderMessage')?.value || '';
+    if (!form || !text.trim()) {
+      this.showMessage('Tempel pesan WhatsApp pembeli terlebih dahulu', 'warning');
+      return;
+    }
+
+    const parsed = OrderUtils.parseMessage(text, this.productsData);
+    if (parsed.lines.length === 0) {
+      this.showMessage('Tidak ada produk yang dikenali di pesan ini', 'error');
+      return;
+    }
+
+    const currency = this.getOrderFormCurrency();
+    const zone = ShippingUtils.getZones(this.siteSettings)
+      .find(item => item.name.toLowerCase() === parsed.shippingZone?.toLowerCase());
+    const priced = CartUtils.summarize(parsed.lines, this.productsData, this.productCategories);
+    const promoted = PromoUtils.apply(priced, this.bundles, this.coupons, parsed.couponCode || '');
+    const summary = CurrencyUtils.convertSummary(ShippingUtils.apply(promoted, zone), currency);
+
+    this.orderLines = parsed.lines.map(cartLine => {
+      const product = this.productsData.find(item => item.id === cartLine.productId);
+      const line: OrderInputLine = {
+        productId: cartLine.productId,
+        name: product ? VariantUtils.getName(product, VariantUtils.find(product, cartLine.variantId)) : '',
+        quantity: cartLine.quantity,
+        unitPrice: summary.lines.find(item => item.key === CartUtils.getKey(cartLine))?.unitPrice
+          ?? this.getCatalogPrice(cartLine, currency)
+      };
+      if (cartLine.variantId !== undefined) line.variantId = cartLine.variantId;
+      return line;
+    });
+
+    this.setFormValue('source', parsed.source, form);
+    this.setFormValue('couponCode', parsed.couponCode || '', form);
+    this.setFormValue('discount', String(PromoUtils.getPromoSavings(summary)), form);
+    this.setFormValue('shippingZone', zone?.name || parsed.shippingZone || '', form);
+    this.setFormValue('shipping', String(summary.shipping?.cost ?? 0), form);
+    this.renderOrderLineList();
+
+    if (parsed.unmatched.length > 0) {
+      this.showMessage(`Produk tidak ditemukan, tambahkan manual: ${parsed.unmatched.join(', ')}`, 'warning');
+    } else {
+      this.showMessage(`${parsed.lines.length} produk dibaca dari pesan`, 'success');
+    }
+  }
+
+  /**
+   * Show an empty order form for a new order
+   */
+  private openOrderForm(): void {
+    this.resetOrderForm();
+
+    const form = DOMUtils.getElementById<HTMLFormElement>('orderForm');
+    if (!form) return;
+
+    this.setFormValue('createdAt', this.toDateTimeInput(new Date().toISOString()), form);
+    form.style.display = 'block';
+    DOMUtils.getElementById<HTMLTextAreaElement>('orderMessage')?.focus();
+  }
+
+  /**
+   * Load an order into its form for editing
+   */
+  private editOrder(id: number): void {
+    const order = this.orders.find(item => item.id === id);
+    const form = DOMUtils.getElementById<HTMLFormElement>('orderForm');
+    if (!order || !form) return;
+
+    this.resetOrderForm();
+    this.editingOrderId = id;
+    this.orderLines = order.lines.map(line => {
+      const input: OrderInputLine = { productId: line.productId, name: line.name, quantity: line.quantity, unitPrice: line.unitPrice };
+      if (line.variantId !== undefined) input.variantId = line.variantId;
+      return input;
+    });
+
+    this.setFormValue('createdAt', this.toDateTimeInput(order.createdAt), form);
+    this.setFormValue('source', order.source, form);
+    this.setFormValue('status', order.status, form);
+    this.renderOrderCurrencyOptions(order.currency);
+    this.setFormValue('couponCode', order.couponCode || '', form);
+    this.setFormValue('discount', String(order.discount), form);
+    this.setFormValue('shippingZone', order.shippingZone || '', form);
+    this.setFormValue('shipping', String(order.shipping || 0), form);
+    this.setFormValue('note', order.note || '', form);
+    this.renderOrderLineList();
+
+    const title = DOMUtils.getElementById<HTMLElement>('orderFormTitle');
+    if (title) title.textContent = `Edit Pesanan #${order.id}`;
+
+    form.style.display = 'block';
+    form.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }
+
+  /**
+   * Empty and hide the order form
+   */
+  private resetOrderForm(): void {
+    this.editingOrderId = null;
+    this.orderLines = [];
+
+    const form = DOMUtils.getElementById<HTMLFormElement>('orderForm');
+    form?.reset();
+    if (form) form.style.display = 'none';
+    this.renderOrderCurrencyOptions(BASE_CURRENCY.code);
+    this.renderOrderLineList();
+
+    const zones = DOMUtils.getElementById<HTMLDataListElement>('orderShippingZones');
+    if (zones) {
+      zones.innerHTML = '';
+      ShippingUtils.getZones(this.siteSettings).forEach(zone => zones.appendChild(new Option(zone.name)));
+    }
+
+    const title = DOMUtils.getElementById<HTMLElement>('orderFormTitle');
+    if (title) title.textContent = 'Tambah Pesanan';
+  }
+
+  /**
+   * Handle order form submission (create or edit). Editing a paid order puts
+   * back the stock its old lines took before the new lines are taken off.
+   */
+  private async handleOrderSubmit(formData: FormData): Promise<void> {
+    const createdAt = this.fromDateTimeInput(formData.get('createdAt') as string);
+    if (!createdAt) {
+      throw new Error('Tanggal pesanan tidak valid');
+    }
+
+    if (this.orderLines.length === 0) {
+      throw new Error('Tambahkan minimal 1 produk ke pesanan');
+    }
+    if (this.orderLines.some(line => !line.productId)) {
+      throw new Error('Pilih produk untuk setiap baris pesanan');
+    }
+    if (this.orderLines.some(line => !Number.isInteger(line.quantity) || line.quantity < 1)) {
+      throw new Error('Jumlah produk minimal 1');
+    }
+    if (this.orderLines.some(line => line.unitPrice < 0)) {
+      throw new Error('Harga produk tidak valid');
     }
 
-    // Validate required fields
-    if (!portfolioItem.title || !portfolioItem.category) {
-      throw new Error('Title and category are required');
+    const discount = parseFloat(formData.get('discount') as string) || 0;
+    const shipping = parseFloat(formData.get('shipping') as string) || 0;
+    if (discount < 0 || shipping < 0) {
+      throw new Error('Potongan dan ongkir tidak boleh negatif');
     }
 
-    if (this.currentEditingId) {
-      // Update existing item
-      const index = this.portfolioData.findIndex(item => item.id === this.currentEditingId);
-      if (index !== -1) {
-      const existingItem = this.portfolioData[index];
-      if (existingItem) {
-        this.portfolioData[index] = { 
-          ...existingItem, 
-          ...portfolioItem,
-          image: imageUrl || existingItem.image,
-          additionalImages: additionalImageUrls,
-          id: existingItem.id // Keep original ID
-        } as PortfolioItem;
-      }
-      }
-      this.currentEditingId = null;
-    } else {
-      // Create new item
-      const newItem: PortfolioItem = {
-        ...portfolioItem as PortfolioItem,
-        id: this.generateId(),
-        image: imageUrl || ImageUtils.createPlaceholder(400, 300, portfolioItem.title || 'Portfolio Item'),
-        additionalImages: additionalImageUrls
-      };
-      this.portfolioData.push(newItem);
+    const currency = this.getOrderCurrency({ currency: (formData.get('currency') as string) || BASE_CURRENCY.code });
+    const input: OrderInput = {
+      createdAt,
+      status: (formData.get('status') as OrderStatus) || 'new',
+      source: (formData.get('source') as OrderSource) || 'cart',
+      currency: currency.code,
+      lines: this.orderLines.map(line => ({ ...line })),
+      discount,
+      shipping
+    };
+    const shippingZone = ((formData.get('shippingZone') as string) || '').trim();
+    const couponCode = PromoUtils.normalizeCode((formData.get('couponCode') as string) || '');
+    const note = ((formData.get('note') as string) || '').trim();
+    if (shippingZone) input.shippingZone = shippingZone;
+    if (couponCode) input.couponCode = couponCode;
+    if (note) input.note = note;
+
+    // Re-read so orders the website added in the meantime are kept
+    this.orders = await AsyncStorage.get<Order[]>(StorageKeys.ORDERS, []);
+    const existing = this.orders.find(item => item.id === this.editingOrderId);
+    if (this.editingOrderId !== null && !existing) {
+      throw new Error('Pesanan tidak ditemukan');
     }
 
-    // Clear temp image data
-    delete this.tempImageData.portfolio;
+    const order = OrderUtils.fromInput(this.orders, input, currency, existing);
+    const restored = existing?.stockDeducted ? StockUtils.applyOrder(this.productsData, existing, 1) : false;
+    const deducted = this.syncOrderStock(order);
 
-    await this.savePortfolioData();
-    await this.renderPortfolioItems();
+    this.orders = existing
+      ? this.orders.map(item => item.id === order.id ? order : item)
+      : [...this.orders, order];
+    if (!(await AsyncStorage.set(StorageKeys.ORDERS, this.orders))) {
+      await this.discardOrderChanges();
+      throw new Error('Gagal menyimpan pesanan');
+    }
+    if (restored || deducted) await this.saveOrderStock(order);
+    await this.syncCouponUses();
+
+    this.resetOrderForm();
+    this.renderOrderList();
+    await this.updateStatistics();
   }
 
   /**
-   * Handle product form submission
+   * Change an order's status or note. Orders are re-read first so ones the
+   * website added in the meantime are kept.
    */
-  private async handleProductSubmit(formData: FormData): Promise<void> {
-    const price = parseInt(formData.get('price') as string);
-    const originalPrice = formData.get('originalPrice') ? parseInt(formData.get('originalPrice') as string) : undefined;
-    const discount = formData.get('discount') ? parseInt(formData.get('discount') as string) : undefined;
-    
-    // Calculate discount if original price is provided
-    let calculatedDiscount = discount;
-    if (originalPrice && originalPrice > price) {
-      calculatedDiscount = Math.round(((originalPrice - price) / originalPrice) * 100);
+  private async updateOrder(id: number, changes: Partial<Pick<Order, 'status' | 'note'>>): Promise<void> {
+    this.orders = await AsyncStorage.get<Order[]>(StorageKeys.ORDERS, []);
+    const order = this.orders.find(item => item.id === id);
+    if (!order) {
+      this.showMessage('Pesanan tidak ditemukan', 'error');
+      this.renderOrderList();
+      return;
     }
-    
-    const productItem: Partial<ProductItem> = {
-      name: formData.get('name') as string,
-      description: formData.get('description') as string,
-      price: price,
-      status: ((formData.get('status') as string) || 'active') as 'active' | 'inactive'
-    };
 
-    // Add optional fields only if they have values
-    if (originalPrice !== undefined) {
-      productItem.originalPrice = originalPrice;
+    let stockChanged = false;
+    if (changes.status) {
+      order.status = changes.status;
+      stockChanged = this.syncOrderStock(order);
     }
-    if (calculatedDiscount !== undefined) {
-      productItem.discount = calculatedDiscount;
+    if (changes.note !== undefined) {
+      if (changes.note) {
+        order.note = changes.note;
+      } else {
+        delete order.note;
+      }
     }
-    if (formData.get('category')) {
-      productItem.category = formData.get('category') as ProductCategoryName;
+    order.updatedAt = new Date().toISOString();
+
+    if (!(await AsyncStorage.set(StorageKeys.ORDERS, this.orders))) {
+      await this.discardOrderChanges();
+      this.showMessage('Gagal menyimpan pesanan', 'error');
+      return;
     }
-    if (formData.get('type')) {
-      productItem.type = formData.get('type') as 'digital' | 'physical';
+    if (stockChanged) await this.saveOrderStock(order);
+    if (changes.status) await this.syncCouponUses();
+
+    if (changes.status) {
+      this.renderOrderList();
+      this.showMessage(`Pesanan #${id} ditandai ${ORDER_STATUS_LABELS[changes.status]}`, 'success');
     }
-    if (formData.get('downloadLink')) {
-      productItem.downloadLink = formData.get('downloadLink') as string;
+    await this.updateStatistics();
+  }
+
+  /**
+   * Take a paid order's units off product stock, or put them back when it is
+   * cancelled or reopened. The order remembers whether it was deducted.
+   * Only the loaded products change; returns whether any did, so the stock
+   * is saved with saveOrderStock once the order itself is saved.
+   */
+  private syncOrderStock(order: Order): boolean {
+    const deduct = StockUtils.shouldDeduct(order);
+    if (deduct === Boolean(order.stockDeducted)) return false;
+
+    const changed = StockUtils.applyOrder(this.productsData, order, deduct ? -1 : 1);
+    if (deduct) {
+      order.stockDeducted = true;
+    } else {
+      delete order.stockDeducted;
     }
+    return changed;
+  }
 
-    // Get image from form or temp storage
-    const imageInput = DOMUtils.getElementById<HTMLInputElement>('productImage');
-    const imageUrl = this.tempImageData.product || imageInput?.value || '';
+  /**
+   * Save the stock an order changed and warn about its products running low
+   */
+  private async saveOrderStock(order: Order): Promise<void> {
+    await this.saveProductsData();
+    await this.renderProductItems();
 
-    // Validate required fields
-    if (!productItem.name || !productItem.price) {
-      throw new Error('Name and price are required');
+    const lowStock = StockUtils.getLowStock(this.productsData)
+      .filter(product => order.lines.some(line => line.productId === product.id));
+    if (lowStock.length > 0) {
+      this.showMessage(`Stok menipis: ${lowStock.map(product => `${product.name} (${product.stock})`).join(', ')}`, 'warning');
     }
+  }
 
-    if (this.currentEditingId) {
-      // Update existing item
-      const index = this.productsData.findIndex(item => item.id === this.currentEditingId);
-      if (index !== -1) {
-      const existingItem = this.productsData[index];
-      if (existingItem) {
-        this.productsData[index] = { 
-          ...existingItem, 
-          ...productItem,
-          image: imageUrl || existingItem.image,
-          id: existingItem.id // Keep original ID
-        } as ProductItem;
+  /**
+   * Recount coupon use after the order log changed
+   */
+  private async syncCouponUses(): Promise<void> {
+    if (!PromoUtils.countUses(this.coupons, this.orders)) return;
+
+    await this.saveCoupons();
+    this.renderCouponList();
+  }
+
+  /**
+   * Drop the changes of an order that could not be saved, stock included, back to what is stored
+   */
+  private async discardOrderChanges(): Promise<void> {
+    this.orders = await AsyncStorage.get<Order[]>(StorageKeys.ORDERS, []);
+    this.productsData = await AsyncStorage.get<ProductItem[]>(StorageKeys.PRODUCTS_DATA, this.productsData);
+  }
+
+  /**
+   * Print or download an order's invoice, giving it the next invoice number first
+   */
+  private async createInvoice(id: number, output: 'print' | 'pdf'): Promise<void> {
+    // Opened before any await so the browser still treats it as a click
+    const printWindow = output === 'print' ? window.open('', '_blank') : null;
+
+    try {
+      this.orders = await AsyncStorage.get<Order[]>(StorageKeys.ORDERS, []);
+      const order = this.orders.find(item => item.id === id);
+      if (!order) {
+        throw new Error('Pesanan tidak ditemukan');
       }
+      if (order.status === 'cancelled') {
+        throw new Error('Pesanan yang dibatalkan tidak bisa dibuatkan invoice');
       }
-      this.currentEditingId = null;
-    } else {
-      // Create new item
-      const newItem: ProductItem = {
-        ...productItem as ProductItem,
-        id: this.generateId(),
-        image: imageUrl || ImageUtils.createPlaceholder(300, 200, productItem.name || 'Product')
-      };
-      this.productsData.push(newItem);
+
+      if (!order.invoiceNumber) {
+        order.invoiceNumber = InvoiceUtils.nextNumber(this.orders, this.siteSettings.invoicePrefix);
+        order.invoicedAt = new Date().toISOString();
+        if (!(await AsyncStorage.set(StorageKeys.ORDERS, this.orders))) {
+          throw new Error('Gagal menyimpan nomor invoice');
+        }
+        this.renderOrderList();
+      }
+
+      const currency = this.getOrderCurrency(order);
+      if (printWindow) {
+        InvoiceUtils.print(printWindow, order, this.siteSettings, currency);
+      } else {
+        await InvoiceUtils.downloadPdf(order, this.siteSettings, currency);
+        this.showMessage(`Invoice ${order.invoiceNumber} didownload`, 'success');
+      }
+    } catch (error) {
+      printWindow?.close();
+      this.showMessage(error instanceof Error ? error.message : 'Gagal membuat invoice', 'error');
     }
+  }
 
-    // Clear temp image data
-    delete this.tempImageData.product;
+  /**
+   * Download the filtered orders as CSV
+   */
+  private exportOrders(): void {
+    const orders = OrderUtils.filter(this.orders, this.getOrderFilter());
+    if (orders.length === 0) {
+      this.showMessage('Tidak ada pesanan untuk diexport', 'info');
+      return;
+    }
 
-    await this.saveProductsData();
-    await this.renderProductItems();
+    OrderUtils.download(orders);
+    this.showMessage(`${orders.length} pesanan diexport`, 'success');
   }
 
   /**
-   * Handle settings form submission
+   * Orders and paid revenue per month on the dashboard
    */
-  private async handleSettingsSubmit(formData: FormData): Promise<void> {
-    const settings: Partial<SiteSettings> = {
-      siteName: formData.get('siteName') as string,
-      heroTitle: formData.get('heroTitle') as string,
-      heroSubtitle: formData.get('heroSubtitle') as string,
-      aboutText: formData.get('aboutText') as string,
-      whatsappNumber: formData.get('whatsappNumber') as string,
-      gridLayout: formData.get('gridLayout') as 'masonry' | 'grid' | 'list',
-      itemsPerPage: parseInt(formData.get('itemsPerPage') as string) || 9,
-      showCategories: formData.get('showCategories') === 'on',
-      enableAnimations: formData.get('enableAnimations') === 'on'
-    };
+  private renderMonthlySales(): void {
+    const container = DOMUtils.getElementById<HTMLElement>('monthlySales');
+    if (!container) return;
 
-    // Validate WhatsApp number
-    if (settings.whatsappNumber && !ValidationUtils.isValidPhoneNumber(settings.whatsappNumber)) {
-      throw new Error('Invalid WhatsApp number format');
+    const months = OrderUtils.getMonthlyTotals(this.orders).slice(0, 12);
+    if (months.length === 0) {
+      container.innerHTML = '<p class="last-login">Belum ada pesanan.</p>';
+      return;
     }
 
-    this.siteSettings = { ...this.siteSettings, ...settings };
-    await this.saveSiteSettings();
-    
-    // Show success message
-    this.showMessage('Pengaturan berhasil disimpan!', 'success');
+    container.innerHTML = `
+      <table class="sales-table">
+        <thead>
+          <tr><th>Bulan</th><th>Pesanan</th><th>Dibayar</th><th>Pendapatan</th></tr>
+        </thead>
+        <tbody>
+          ${months.map(totals => `
+            <tr>
+              <td>${OrderUtils.formatMonth(totals.month)}</td>
+              <td>${totals.count}</td>
+              <td>${totals.paidCount}</td>
+              <td>${FormatUtils.formatPrice(totals.paidTotal)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `;
   }
 
   /**
@@ -1063,8 +3940,7 @@ class AdminApp {
 
     try {
       const canvas = this.cropper.getCroppedCanvas({
-        width: 800,
-        height: 600,
+        ...this.getCropperOutputSize(),
         imageSmoothingEnabled: true,
         imageSmoothingQuality: 'high'
       });
@@ -1145,7 +4021,7 @@ class AdminApp {
     if (type === 'portfolio') {
       const item = this.portfolioData.find(p => p.id === id);
       if (item) {
-        this.showImagePreview(item.image, item.title, item.additionalImages);
+        this.showImagePreview(item.image, item.title, item.additionalImages?.map(image => image.src));
       }
     } else {
       const item = this.productsData.find(p => p.id === id);
@@ -1366,6 +4242,25 @@ class AdminApp {
     };
   }
 
+  /**
+   * Get the pixel size a crop is exported at for the current target
+   */
+  private getCropperOutputSize(): { width: number; height: number } {
+    switch (this.currentImageTarget) {
+      case 'portfolio': {
+        // Main image at twice the thumbnail size so the preview stays sharp
+        const size = this.getSelectedThumbnailSize();
+        return { width: size.width * 2, height: size.height * 2 };
+      }
+      case 'portfolio-thumbnail': {
+        const { width, height } = this.getSelectedThumbnailSize();
+        return { width, height };
+      }
+      default:
+        return { width: 800, height: 600 };
+    }
+  }
+
   /**
    * Get cropper configuration based on target
    */
@@ -1391,8 +4286,12 @@ class AdminApp {
       case 'product':
         return { ...baseConfig, aspectRatio: 3 / 2 }; // 3:2 for products
       case 'portfolio':
-      default:
-        return { ...baseConfig, aspectRatio: 4 / 3 }; // 4:3 for portfolio
+      case 'portfolio-thumbnail':
+      default: {
+        // Portfolio images follow the item's display size
+        const size = this.getSelectedThumbnailSize();
+        return { ...baseConfig, aspectRatio: size.ratio ?? size.width / size.height };
+      }
     }
   }
 
@@ -1413,6 +4312,10 @@ class AdminApp {
           this.updatePortfolioImagePreview(imageUrl);
         }
         break;
+      case 'portfolio-thumbnail':
+        // Applied when the portfolio form is saved
+        this.tempImageData['portfolio-thumbnail'] = imageUrl;
+        break;
       case 'product':
         if (this.currentEditingId) {
           await this.updateProductImage(imageUrl);
@@ -1447,7 +4350,9 @@ class AdminApp {
     const item = this.portfolioData.find(p => p.id === this.currentEditingId);
     if (item) {
       item.image = imageUrl;
-      item.thumbnail = await ImageUtils.createThumbnail(imageUrl, 300, 200);
+      item.size = this.getPortfolioFormSize();
+      await this.applyThumbnail(item);
+      await this.applyImageSize(item);
       await this.savePortfolioData();
       await this.renderPortfolioItems();
     }
@@ -1529,7 +4434,9 @@ class AdminApp {
     this.setFormValue('title', item.title);
     this.setFormValue('category', item.category);
     this.setFormValue('description', item.description || '');
+    this.setFormValue('size', LayoutUtils.getSize(item.size));
     this.setFormValue('status', item.status || 'active');
+    delete this.tempImageData['portfolio-thumbnail'];
 
     // Load main image
     if (item.image) {
@@ -1539,19 +4446,8 @@ class AdminApp {
     }
 
     // Load additional images
-    for (let i = 1; i <= 3; i++) {
-      const urlInput = DOMUtils.getElementById<HTMLInputElement>(`additionalImageUrl${i}`);
-      const preview = DOMUtils.getElementById<HTMLElement>(`additionalPreview${i}`);
-      
-      if (item.additionalImages && item.additionalImages[i - 1]) {
-        const imageUrl = item.additionalImages[i - 1];
-        if (urlInput && imageUrl) urlInput.value = imageUrl;
-        if (imageUrl) this.showAdditionalImagePreview(imageUrl, i);
-      } else {
-        if (urlInput) urlInput.value = '';
-        if (preview) preview.style.display = 'none';
-      }
-    }
+    this.additionalImages = (item.additionalImages || []).map(image => ({ ...image }));
+    this.renderAdditionalImageList();
 
     // Show portfolio modal
     const modal = DOMUtils.getElementById<HTMLElement>('portfolioModal');
@@ -1576,15 +4472,31 @@ class AdminApp {
     this.currentEditingId = id;
     
     // Fill form with item data
-    this.setFormValue('name', item.name);
-    this.setFormValue('description', item.description);
-    this.setFormValue('price', item.price.toString());
-    this.setFormValue('originalPrice', item.originalPrice?.toString() || '');
-    this.setFormValue('discount', item.discount?.toString() || '');
-    this.setFormValue('category', item.category || '');
-    this.setFormValue('type', item.type || 'digital');
-    this.setFormValue('downloadLink', item.downloadLink || '');
-    this.setFormValue('status', item.status);
+    const form = DOMUtils.getElementById<HTMLFormElement>('productForm') || undefined;
+    this.setFormValue('name', item.name, form);
+    this.setFormValue('description', item.description, form);
+    this.setFormValue('price', item.price.toString(), form);
+    this.setFormValue('originalPrice', item.originalPrice?.toString() || '', form);
+    this.setFormValue('discount', item.discount?.toString() || '', form);
+    this.setFormValue('saleStartsAt', this.toDateTimeInput(item.saleStartsAt), form);
+    this.setFormValue('saleEndsAt', this.toDateTimeInput(item.saleEndsAt), form);
+    this.setFormValue('category', item.category || '', form);
+    this.setFormValue('type', item.type || 'digital', form);
+    this.setFormValue('stock', item.stock?.toString() || '', form);
+    this.setFormValue('lowStockThreshold', item.lowStockThreshold?.toString() || '', form);
+    this.setFormValue('weight', item.weight?.toString() || '', form);
+    this.setFormValue('length', item.dimensions?.length.toString() || '', form);
+    this.setFormValue('width', item.dimensions?.width.toString() || '', form);
+    this.setFormValue('height', item.dimensions?.height.toString() || '', form);
+    this.setFormValue('license', item.license || '', form);
+    this.setFormValue('downloadLink', item.downloadLink || '', form);
+    this.setFormValue('details', item.details || '', form);
+    this.setFormValue('fileFormat', item.fileFormat || '', form);
+    this.setFormValue('additionalImages', (item.additionalImages || []).join('\n'), form);
+    this.productVariants = (item.variants || []).map(variant => ({ ...variant }));
+    this.renderVariantList();
+    this.renderCurrencyPriceInputs(item);
+    this.setFormValue('status', item.status, form);
 
     // Switch to products tab
     this.switchToTab('products');
@@ -1641,14 +4553,28 @@ class AdminApp {
   private async loadTabData(tabName: TabName): Promise<void> {
     switch (tabName) {
       case 'dashboard':
+        // Restock requests arrive from the website at any time
+        this.restockRequests = await AsyncStorage.get<RestockRequest[]>(StorageKeys.RESTOCK_REQUESTS, []);
         await this.updateStatistics();
         break;
       case 'portfolio':
         await this.renderPortfolioItems();
         break;
+      case 'categories':
+        await this.renderCategories();
+        break;
       case 'products':
         await this.renderProductItems();
         break;
+      case 'orders':
+        this.orders = await AsyncStorage.get<Order[]>(StorageKeys.ORDERS, []);
+        this.renderOrderList();
+        break;
+      case 'promos':
+        // Usage counts change whenever the site sends an order with a coupon
+        this.coupons = await AsyncStorage.get<Coupon[]>(StorageKeys.COUPONS, []);
+        await this.renderPromos();
+        break;
       case 'settings':
         await this.loadSettings();
         break;
@@ -1853,6 +4779,9 @@ class AdminApp {
    * Auto-save functionality
    */
   private async autoSave(): Promise<void> {
+    // Writes are refused while old data waits to be restored; the alert already says so
+    if (SchemaMigrator.getFailures().length > 0) return;
+
     try {
       await this.saveAllData();
       console.log('📁 Auto-save completed');
@@ -1868,7 +4797,9 @@ class AdminApp {
     await Promise.all([
       this.savePortfolioData(),
       this.saveProductsData(),
-      this.saveSiteSettings()
+      this.saveSiteSettings(),
+      this.saveCategories('portfolio'),
+      this.saveCategories('product')
     ]);
   }
 
@@ -1876,33 +4807,93 @@ class AdminApp {
    * Save portfolio data
    */
   private async savePortfolioData(): Promise<void> {
-    SafeStorage.set(StorageKeys.PORTFOLIO_DATA, this.portfolioData);
+    if (!(await AsyncStorage.set(StorageKeys.PORTFOLIO_DATA, this.portfolioData))) {
+      this.showMessage('Gagal menyimpan data portfolio', 'error');
+    }
   }
 
   /**
    * Save products data
    */
   private async saveProductsData(): Promise<void> {
-    SafeStorage.set(StorageKeys.PRODUCTS_DATA, this.productsData);
+    if (!(await AsyncStorage.set(StorageKeys.PRODUCTS_DATA, this.productsData))) {
+      this.showMessage('Gagal menyimpan data produk', 'error');
+    }
   }
 
   /**
    * Save site settings
    */
   private async saveSiteSettings(): Promise<void> {
-    SafeStorage.set(StorageKeys.SITE_SETTINGS, this.siteSettings);
+    if (!(await AsyncStorage.set(StorageKeys.SITE_SETTINGS, this.siteSettings))) {
+      this.showMessage('Gagal menyimpan pengaturan', 'error');
+    }
+  }
+
+  private async saveCoupons(): Promise<void> {
+    if (!(await AsyncStorage.set(StorageKeys.COUPONS, this.coupons))) {
+      this.showMessage('Gagal menyimpan kupon', 'error');
+    }
+  }
+
+  private async saveBundles(): Promise<void> {
+    if (!(await AsyncStorage.set(StorageKeys.BUNDLES, this.bundles))) {
+      this.showMessage('Gagal menyimpan paket', 'error');
+    }
+  }
+
+  /**
+   * Save portfolio or product categories
+   */
+  private async saveCategories(kind: CategoryKind): Promise<void> {
+    const saved = kind === 'portfolio'
+      ? await AsyncStorage.set(StorageKeys.CATEGORIES, this.categories)
+      : await AsyncStorage.set(StorageKeys.PRODUCT_CATEGORIES, this.productCategories);
+
+    if (!saved) {
+      this.showMessage('Gagal menyimpan kategori', 'error');
+    }
+  }
+
+  /**
+   * ISO date from a datetime-local input, which is in the admin's local time
+   */
+  private fromDateTimeInput(value: string | null): string | undefined {
+    const date = value ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date.toISOString() : undefined;
+  }
+
+  /**
+   * datetime-local input value for a stored ISO date
+   */
+  private toDateTimeInput(value: string | undefined): string {
+    const date = value ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) return '';
+
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+    return local.toISOString().slice(0, 16);
   }
 
   /**
-   * Set form field value
+   * Set form field value, optionally only within one form
    */
-  private setFormValue(name: string, value: string): void {
-    const input = DOMUtils.querySelector<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>(`[name="${name}"]`);
+  private setFormValue(name: string, value: string, form?: HTMLFormElement): void {
+    const input = (form || document).querySelector<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>(`[name="${name}"]`);
     if (input) {
       input.value = value;
     }
   }
 
+  /**
+   * Set checkbox state
+   */
+  private setCheckboxValue(name: string, checked: boolean): void {
+    const input = DOMUtils.querySelector<HTMLInputElement>(`input[type="checkbox"][name="${name}"]`);
+    if (input) {
+      input.checked = checked;
+    }
+  }
+
   /**
    * Update statistic element
    */
@@ -2021,6 +5012,75 @@ class AdminApp {
     return dialog;
   }
 
+  /**
+   * Show a dialog with custom choices; resolves null when cancelled
+   */
+  private async showChoiceDialog<T extends string>(
+    title: string,
+    message: string,
+    choices: { value: T; label: string; className: string }[]
+  ): Promise<T | null> {
+    return new Promise((resolve) => {
+      const dialog = DOMUtils.createElement<HTMLDivElement>('div', 'confirm-dialog');
+      const buttonsHtml = choices.map((choice, index) =>
+        `<button class="btn ${choice.className} dialog-choice" data-index="${index}">${choice.label}</button>`
+      ).join('');
+
+      dialog.innerHTML = `
+        <div class="dialog-overlay"></div>
+        <div class="dialog-content">
+          <h3 class="dialog-title">${title}</h3>
+          <div class="dialog-message">${message}</div>
+          <div class="dialog-actions">
+            <button class="btn btn-secondary dialog-cancel">Batal</button>
+            ${buttonsHtml}
+          </div>
+        </div>
+      `;
+
+      const closeDialog = (result: T | null) => {
+        DOMUtils.removeClass(dialog, 'active');
+        setTimeout(() => {
+          dialog.remove();
+          resolve(result);
+        }, 300);
+      };
+
+      dialog.querySelectorAll<HTMLButtonElement>('.dialog-choice').forEach(button => {
+        button.addEventListener('click', () => {
+          const choice = choices[parseInt(button.dataset.index || '0')];
+          closeDialog(choice ? choice.value : null);
+        });
+      });
+      dialog.querySelector('.dialog-cancel')?.addEventListener('click', () => closeDialog(null));
+      dialog.querySelector('.dialog-overlay')?.addEventListener('click', () => closeDialog(null));
+
+      document.body.appendChild(dialog);
+      requestAnimationFrame(() => {
+        DOMUtils.addClass(dialog, 'active');
+      });
+    });
+  }
+
+  /**
+   * Get display label for a storage key
+   */
+  private getStorageKeyLabel(key: string): string {
+    const labels: Record<string, string> = {
+      [StorageKeys.PORTFOLIO_DATA]: 'Portfolio',
+      [StorageKeys.PRODUCTS_DATA]: 'Produk',
+      [StorageKeys.SITE_SETTINGS]: 'Pengaturan',
+      [StorageKeys.CATEGORIES]: 'Kategori Portfolio',
+      [StorageKeys.PRODUCT_CATEGORIES]: 'Kategori Produk',
+      [StorageKeys.COUPONS]: 'Kupon',
+      [StorageKeys.BUNDLES]: 'Paket Produk',
+      [StorageKeys.ORDERS]: 'Pesanan',
+      [StorageKeys.RESTOCK_REQUESTS]: 'Permintaan Restok'
+    };
+
+    return labels[key] || key;
+  }
+
   /**
    * Generate unique ID
    */
@@ -2037,30 +5097,7 @@ class AdminApp {
    * Get category display name
    */
   private getCategoryName(category: string): string {
-    const categoryNames: Record<string, string> = {
-      'ilustrasi': 'Ilustrasi',
-      'character': 'Character Design',
-      'branding': 'Branding',
-      'editorial': 'Editorial'
-    };
-    
-    return categoryNames[category] || category;
-  }
-
-  /**
-   * Get display name for product category
-   */
-  private getCategoryDisplayName(category: string): string {
-    const categoryMap: Record<string, string> = {
-      'brush': 'Custom Brush',
-      'font': 'Font',
-      'action': 'Action Photoshop',
-      'texture': 'Texture Pack',
-      'template': 'Template',
-      'other': 'Lainnya'
-    };
-    
-    return categoryMap[category] || category;
+    return CategoryUtils.getLabel(this.categories, category);
   }
 
   /**
@@ -2073,6 +5110,10 @@ class AdminApp {
       // Reset form
       const form = modal.querySelector('form');
       if (form) form.reset();
+      this.applyProductCategoryDefaults(DOMUtils.getElementById<HTMLSelectElement>('productCategory')?.value || '');
+      this.productVariants = [];
+      this.renderVariantList();
+      this.renderCurrencyPriceInputs();
       // Update modal title
       const title = modal.querySelector('#productModalTitle');
       if (title) title.textContent = 'Tambah Produk Digital';
@@ -2101,6 +5142,9 @@ class AdminApp {
       // Reset form
       const form = modal.querySelector('form');
       if (form) form.reset();
+      delete this.tempImageData['portfolio-thumbnail'];
+      this.additionalImages = [];
+      this.renderAdditionalImageList();
       // Update modal title
       const title = modal.querySelector('#portfolioModalTitle');
       if (title) title.textContent = 'Tambah Karya Portfolio';
@@ -2169,12 +5213,39 @@ class AdminApp {
   /**
    * Get default thumbnail sizes
    */
-  private getDefaultThumbnailSizes(): ThumbnailSize[] {
-    return [
-      { name: 'small', width: 150, height: 100 },
-      { name: 'medium', width: 300, height: 200 },
-      { name: 'large', width: 600, height: 400 }
-    ];
+  private getDefaultThumbnailSizes(): ThumbnailSizes {
+    return { ...THUMBNAIL_SIZES };
+  }
+
+  /**
+   * Display size selected in the portfolio form
+   */
+  private getPortfolioFormSize(): SizeName {
+    const select = DOMUtils.getElementById<HTMLSelectElement>('portfolioSize');
+    return LayoutUtils.getSize(select?.value);
+  }
+
+  /**
+   * Thumbnail size for the display size selected in the portfolio form
+   */
+  private getSelectedThumbnailSize(): ThumbnailSize {
+    return this.thumbnailSizes[this.getPortfolioFormSize()];
+  }
+
+  /**
+   * Crop the portfolio card thumbnail from the current main image
+   */
+  public editPortfolioThumbnail(): void {
+    const input = DOMUtils.getElementById<HTMLInputElement>('portfolioImage');
+    const imageUrl = this.tempImageData.portfolio || input?.value.trim();
+
+    if (!imageUrl) {
+      this.showMessage('Pilih gambar utama terlebih dahulu!', 'warning');
+      return;
+    }
+
+    this.currentImageTarget = 'portfolio-thumbnail';
+    this.showCropperModal(imageUrl);
   }
 
   /**
@@ -2300,6 +5371,7 @@ if (document.readyState === 'loading') {
 (window as any).previewProductImageUrl = () => adminApp.previewProductImageUrl();
 (window as any).clearPortfolioImage = () => adminApp.clearPortfolioImage();
 (window as any).clearProductImage = () => adminApp.clearProductImage();
+(window as any).editPortfolioThumbnail = () => adminApp.editPortfolioThumbnail();
 
 // Export for potential external use
 export default adminApp;
@@ -0,0 +1,276 @@
+// Admin authentication for Portfolio Application
+import {
+  StorageKeys,
+  StoredCredentials,
+  AdminSession,
+  SessionConfig,
+  LoginAttemptState,
+  LoginRecord
+} from './types.js';
+import { SafeStorage } from './utils.js';
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+const MIN_PASSWORD_LENGTH = 8;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const FREE_ATTEMPTS = 3;
+const BASE_LOCKOUT = 30 * 1000;
+const MAX_LOCKOUT = 60 * MINUTE;
+const HISTORY_LIMIT = 20;
+
+export const DEFAULT_SESSION_CONFIG: SessionConfig = {
+  idleMinutes: 30,
+  rememberDays: 7
+};
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => binary += String.fromCharCode(byte));
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Compare two strings without returning early on the first mismatch
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  let mismatch = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    mismatch |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return mismatch === 0;
+}
+
+/**
+ * Admin credential handling. Passwords are never stored; only a salted
+ * PBKDF2-SHA256 hash derived with WebCrypto.
+ */
+export class AuthUtils {
+  static isSupported(): boolean {
+    return typeof crypto !== 'undefined' && !!crypto.subtle;
+  }
+
+  static hasCredentials(): boolean {
+    return this.getCredentials() !== null;
+  }
+
+  static getCredentials(): StoredCredentials | null {
+    const credentials = SafeStorage.get<StoredCredentials | null>(StorageKeys.ADMIN_CREDENTIALS, null);
+    return credentials && credentials.passwordHash && credentials.salt ? credentials : null;
+  }
+
+  /**
+   * Get a validation error for a new password, or null when acceptable
+   */
+  static validatePassword(password: string, confirmation: string): string | null {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return `Password minimal ${MIN_PASSWORD_LENGTH} karakter`;
+    }
+    if (password !== confirmation) {
+      return 'Konfirmasi password tidak sama';
+    }
+    return null;
+  }
+
+  /**
+   * Hash and store new credentials, replacing any existing ones
+   */
+  static async saveCredentials(username: string, password: string): Promise<boolean> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const passwordHash = await this.deriveHash(password, salt, PBKDF2_ITERATIONS);
+
+    const credentials: StoredCredentials = {
+      username,
+      passwordHash,
+      salt: bytesToBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      algorithm: 'PBKDF2-SHA256',
+      updatedAt: new Date().toISOString()
+    };
+
+    return SafeStorage.set(StorageKeys.ADMIN_CREDENTIALS, credentials);
+  }
+
+  /**
+   * Check a username/password pair against the stored hash
+   */
+  static async verify(username: string, password: string): Promise<boolean> {
+    const credentials = this.getCredentials();
+    if (!credentials) return false;
+
+    const hash = await this.deriveHash(password, base64ToBytes(credentials.salt), credentials.iterations);
+    const usernameMatches = timingSafeEqual(username, credentials.username);
+    const passwordMatches = timingSafeEqual(hash, credentials.passwordHash);
+
+    return usernameMatches && passwordMatches;
+  }
+
+  /**
+   * Replace the password after confirming the current one
+   */
+  static async changePassword(currentPassword: string, newPassword: string): Promise<boolean> {
+    const credentials = this.getCredentials();
+    if (!credentials || !(await this.verify(credentials.username, currentPassword))) {
+      return false;
+    }
+    return this.saveCredentials(credentials.username, newPassword);
+  }
+
+  private static async deriveHash(password: string, salt: Uint8Array, iterations: number): Promise<string> {
+    const keyMaterial = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(password),
+      'PBKDF2',
+      false,
+      ['deriveBits']
+    );
+
+    const bits = await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+      keyMaterial,
+      HASH_BITS
+    );
+
+    return bytesToBase64(new Uint8Array(bits));
+  }
+}
+
+/**
+ * Admin sessions with an expiry timestamp, sliding idle timeout and an
+ * exponential lockout after repeated failed logins.
+ */
+export class SessionUtils {
+  /**
+   * Start a session. "Remember me" sessions last a fixed number of days;
+   * others expire after the idle timeout unless activity extends them.
+   */
+  static createSession(username: string, remember: boolean, config: SessionConfig): AdminSession {
+    const now = Date.now();
+    const lastLogin = this.getLastSuccessfulLogin();
+
+    const session: AdminSession = {
+      username,
+      createdAt: new Date(now).toISOString(),
+      lastActivity: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.getLifetime(remember, config)).toISOString(),
+      remember
+    };
+    if (lastLogin) session.lastLogin = lastLogin.timestamp;
+
+    SafeStorage.set(StorageKeys.USER_DATA, session);
+    return session;
+  }
+
+  /**
+   * Get the stored session if it is still valid; expired or legacy sessions are removed
+   */
+  static getSession(): AdminSession | null {
+    const session = SafeStorage.get<AdminSession | null>(StorageKeys.USER_DATA, null);
+    if (!session || typeof session.expiresAt !== 'string') {
+      if (session) SafeStorage.remove(StorageKeys.USER_DATA);
+      return null;
+    }
+
+    if (this.getRemainingTime(session) <= 0) {
+      SafeStorage.remove(StorageKeys.USER_DATA);
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Record activity, sliding the expiry forward for idle-timeout sessions
+   */
+  static touch(session: AdminSession, config: SessionConfig): AdminSession {
+    const now = Date.now();
+    const updated: AdminSession = { ...session, lastActivity: new Date(now).toISOString() };
+
+    if (!session.remember) {
+      updated.expiresAt = new Date(now + this.getLifetime(false, config)).toISOString();
+    }
+
+    SafeStorage.set(StorageKeys.USER_DATA, updated);
+    return updated;
+  }
+
+  static endSession(): void {
+    SafeStorage.remove(StorageKeys.USER_DATA);
+  }
+
+  static getRemainingTime(session: AdminSession): number {
+    return new Date(session.expiresAt).getTime() - Date.now();
+  }
+
+  /**
+   * Milliseconds until login is allowed again (0 when not locked)
+   */
+  static getLockoutRemaining(): number {
+    const state = this.getAttemptState();
+    if (!state.lockedUntil) return 0;
+    return Math.max(0, new Date(state.lockedUntil).getTime() - Date.now());
+  }
+
+  /**
+   * Count a failed login; from the third failure on, each one doubles the lockout
+   */
+  static recordFailure(username: string): LoginAttemptState {
+    const state = this.getAttemptState();
+    const failedAttempts = state.failedAttempts + 1;
+    const next: LoginAttemptState = {
+      failedAttempts,
+      lastFailedAt: new Date().toISOString()
+    };
+
+    if (failedAttempts >= FREE_ATTEMPTS) {
+      const lockout = Math.min(BASE_LOCKOUT * Math.pow(2, failedAttempts - FREE_ATTEMPTS), MAX_LOCKOUT);
+      next.lockedUntil = new Date(Date.now() + lockout).toISOString();
+    }
+
+    SafeStorage.set(StorageKeys.LOGIN_ATTEMPTS, next);
+    this.addHistory({ username, timestamp: new Date().toISOString(), success: false });
+    return next;
+  }
+
+  static recordSuccess(username: string): void {
+    SafeStorage.remove(StorageKeys.LOGIN_ATTEMPTS);
+    this.addHistory({ username, timestamp: new Date().toISOString(), success: true });
+  }
+
+  static getAttemptState(): LoginAttemptState {
+    return SafeStorage.get<LoginAttemptState>(StorageKeys.LOGIN_ATTEMPTS, { failedAttempts: 0 });
+  }
+
+  /**
+   * Login history, newest first
+   */
+  static getHistory(): LoginRecord[] {
+    return SafeStorage.get<LoginRecord[]>(StorageKeys.LOGIN_HISTORY, []);
+  }
+
+  static getLastSuccessfulLogin(): LoginRecord | undefined {
+    return this.getHistory().find(record => record.success);
+  }
+
+  private static addHistory(record: LoginRecord): void {
+    const history = [record, ...this.getHistory()].slice(0, HISTORY_LIMIT);
+    SafeStorage.set(StorageKeys.LOGIN_HISTORY, history);
+  }
+
+  private static getLifetime(remember: boolean, config: SessionConfig): number {
+    return remember ? config.rememberDays * DAY : config.idleMinutes * MINUTE;
+  }
+}
+
+export default AuthUtils;
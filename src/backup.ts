@@ -0,0 +1,262 @@
+// Backup export and restore for Portfolio Application
+import {
+  StorageKeys,
+  SiteBackup,
+  BackupDiff,
+  CollectionDiff,
+  BackupImportMode,
+  MigrationFailure
+} from './types.js';
+import { AsyncStorage, PERSISTENT_KEYS } from './storage.js';
+import { SchemaMigrator, SCHEMA_VERSION } from './migrations.js';
+
+const BACKUP_FORMAT = 'portfolio-backup';
+
+type Identifiable = { id: number | string };
+
+/**
+ * Backup utilities: serialize every persisted key into one JSON bundle and
+ * restore it again, with a diff summary for the admin to review first.
+ */
+export class BackupUtils {
+  /**
+   * Collect all persisted data with images embedded as data URLs
+   */
+  static async createBackup(): Promise<SiteBackup> {
+    const contents: Partial<Record<StorageKeys, unknown>> = {};
+
+    for (const key of PERSISTENT_KEYS) {
+      const value = await AsyncStorage.get<unknown>(key, null);
+      // Keys that failed to upgrade hold defaults; their real data is exported by createFailureBackup
+      if (SchemaMigrator.isBlocked(key)) continue;
+      if (value !== null) {
+        contents[key] = await this.embedImages(value);
+      }
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      schemaVersion: SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      contents
+    };
+  }
+
+  /**
+   * Backup of one key that failed to upgrade, stamped with the schema version
+   * it was saved with so a later build can still import it
+   */
+  static async createFailureBackup(failure: MigrationFailure): Promise<SiteBackup> {
+    const stored = await AsyncStorage.getBackup(failure);
+    if (stored === undefined) {
+      throw new Error('Cadangan data lama tidak ditemukan');
+    }
+
+    const data = SchemaMigrator.isVersioned(stored) ? stored.data : stored;
+    return {
+      format: BACKUP_FORMAT,
+      schemaVersion: failure.fromVersion,
+      exportedAt: new Date().toISOString(),
+      contents: { [failure.key]: await this.embedImages(data) }
+    };
+  }
+
+  /**
+   * Trigger a browser download of a backup
+   */
+  static download(backup: SiteBackup): void {
+    const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const date = backup.exportedAt.substring(0, 10);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `portfolio-backup-${date}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  /**
+   * Read, validate and upgrade a backup file.
+   * Throws an Error with a user-facing message when the file is unusable.
+   */
+  static async readFile(file: File): Promise<SiteBackup> {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      throw new Error('File backup bukan JSON yang valid');
+    }
+
+    if (!parsed || parsed.format !== BACKUP_FORMAT) {
+      throw new Error('File ini bukan backup portfolio');
+    }
+    if (typeof parsed.schemaVersion !== 'number') {
+      throw new Error('Versi skema backup tidak ditemukan');
+    }
+    if (!parsed.contents || typeof parsed.contents !== 'object') {
+      throw new Error('Backup tidak berisi data');
+    }
+
+    const contents: Partial<Record<StorageKeys, unknown>> = {};
+    for (const [key, value] of Object.entries(parsed.contents)) {
+      if (!PERSISTENT_KEYS.includes(key as StorageKeys)) {
+        console.warn(`Ignoring unknown backup key: ${key}`);
+        continue;
+      }
+
+      // Run the same migrations stored data goes through, so old backups stay importable
+      const { data } = SchemaMigrator.upgrade(key as StorageKeys, {
+        schemaVersion: parsed.schemaVersion,
+        data: value
+      });
+      this.validateValue(key as StorageKeys, data);
+      contents[key as StorageKeys] = data;
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      schemaVersion: SCHEMA_VERSION,
+      exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+      contents
+    };
+  }
+
+  /**
+   * Summarize what importing a backup would add, change or remove
+   */
+  static diff(current: SiteBackup, incoming: SiteBackup): BackupDiff {
+    const result: BackupDiff = { collections: {}, changedSettings: [] };
+
+    for (const key of Object.keys(incoming.contents) as StorageKeys[]) {
+      const next = incoming.contents[key];
+      const previous = current.contents[key];
+
+      if (Array.isArray(next)) {
+        result.collections[key] = this.diffCollection(
+          Array.isArray(previous) ? previous as Identifiable[] : [],
+          next as Identifiable[]
+        );
+      } else if (this.stableStringify(previous) !== this.stableStringify(next)) {
+        result.changedSettings.push(key);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Write a backup to storage. Merge keeps items missing from the backup;
+   * replace overwrites every key the backup contains.
+   */
+  static async restore(current: SiteBackup, incoming: SiteBackup, mode: BackupImportMode): Promise<boolean> {
+    let success = true;
+
+    for (const key of Object.keys(incoming.contents) as StorageKeys[]) {
+      const next = incoming.contents[key];
+      const value = mode === 'merge' ? this.mergeValue(current.contents[key], next) : next;
+      // Importing a key replaces data that failed to upgrade, so saving it is allowed again
+      SchemaMigrator.resolveFailure(key);
+      success = await AsyncStorage.set(key, value) && success;
+    }
+
+    return success;
+  }
+
+  private static diffCollection(previous: Identifiable[], next: Identifiable[]): CollectionDiff {
+    const previousById = new Map(previous.map(item => [String(item.id), item]));
+    const nextIds = new Set(next.map(item => String(item.id)));
+    const diff: CollectionDiff = { added: 0, changed: 0, removed: 0 };
+
+    for (const item of next) {
+      const existing = previousById.get(String(item.id));
+      if (!existing) {
+        diff.added++;
+      } else if (this.stableStringify(existing) !== this.stableStringify(item)) {
+        diff.changed++;
+      }
+    }
+
+    diff.removed = previous.filter(item => !nextIds.has(String(item.id))).length;
+    return diff;
+  }
+
+  private static mergeValue(previous: unknown, next: unknown): unknown {
+    if (Array.isArray(next)) {
+      const merged = new Map<string, Identifiable>();
+      (Array.isArray(previous) ? previous as Identifiable[] : []).forEach(item => merged.set(String(item.id), item));
+      (next as Identifiable[]).forEach(item => merged.set(String(item.id), item));
+      return Array.from(merged.values());
+    }
+
+    if (next && typeof next === 'object' && previous && typeof previous === 'object') {
+      return { ...previous, ...next };
+    }
+
+    return next;
+  }
+
+  private static validateValue(key: StorageKeys, value: unknown): void {
+    if (Array.isArray(value)) {
+      const invalid = value.some(item => !item || typeof item !== 'object' || item.id === undefined);
+      if (invalid) {
+        throw new Error(`Data "${key}" di backup berisi item tanpa id`);
+      }
+    } else if (!value || typeof value !== 'object') {
+      throw new Error(`Data "${key}" di backup tidak valid`);
+    }
+  }
+
+  /**
+   * Replace object URLs with data URLs so the backup is self-contained
+   */
+  private static async embedImages(value: unknown): Promise<unknown> {
+    if (typeof value === 'string') {
+      return value.startsWith('blob:') ? this.blobUrlToDataUrl(value) : value;
+    }
+
+    if (Array.isArray(value)) {
+      return Promise.all(value.map(entry => this.embedImages(entry)));
+    }
+
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [prop, entry] of Object.entries(value)) {
+        result[prop] = await this.embedImages(entry);
+      }
+      return result;
+    }
+
+    return value;
+  }
+
+  private static async blobUrlToDataUrl(url: string): Promise<string> {
+    const blob = await (await fetch(url)).blob();
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error('Failed to embed image'));
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  /**
+   * JSON.stringify with sorted object keys, for order-insensitive comparison
+   */
+  private static stableStringify(value: unknown): string {
+    return JSON.stringify(value, (_key, entry) => {
+      if (entry && typeof entry === 'object' && !Array.isArray(entry)) {
+        return Object.keys(entry).sort().reduce<Record<string, unknown>>((sorted, prop) => {
+          sorted[prop] = entry[prop];
+          return sorted;
+        }, {});
+      }
+      return entry;
+    }) ?? '';
+  }
+}
+
+export default BackupUtils;
@@ -0,0 +1,166 @@
+// Shopping cart for Portfolio Application
+import {
+  StorageKeys,
+  CartLine,
+  CartSummary,
+  CartSummaryLine,
+  CurrencySetting,
+  ProductItem,
+  ProductCategory
+} from './types.js';
+import { SafeStorage } from './utils.js';
+import { CategoryUtils } from './categories.js';
+import { PricingUtils } from './pricing.js';
+import { VariantUtils } from './variants.js';
+import { CurrencyUtils, BASE_CURRENCY } from './currency.js';
+import { StockUtils } from './stock.js';
+import { ShippingUtils } from './shipping.js';
+
+const MAX_QUANTITY = 99;
+
+/**
+ * Cart kept in the visitor's browser. Lines only reference products by id
+ * and are priced against the current product data, so price changes made
+ * in the admin panel apply to carts that already hold the product.
+ */
+export class CartUtils {
+  static load(): CartLine[] {
+    const stored = SafeStorage.get<unknown>(StorageKeys.CART, []);
+    if (!Array.isArray(stored)) return [];
+
+    return stored
+      .map(line => {
+        const cartLine: CartLine = { productId: Number(line?.productId), quantity: Math.floor(Number(line?.quantity)) };
+        if (Number(line?.variantId) > 0) cartLine.variantId = Number(line.variantId);
+        return cartLine;
+      })
+      .filter(line => line.productId > 0 && line.quantity > 0);
+  }
+
+  /**
+   * Identifies a line: a product, or one variant of it
+   */
+  static getKey(line: { productId: number; variantId?: number | undefined }): string {
+    return line.variantId ? `${line.productId}:${line.variantId}` : String(line.productId);
+  }
+
+  static save(lines: CartLine[]): void {
+    if (lines.length === 0) {
+      SafeStorage.remove(StorageKeys.CART);
+    } else {
+      SafeStorage.set(StorageKeys.CART, lines);
+    }
+  }
+
+  /**
+   * Physical products can be ordered in any quantity; digital ones once
+   */
+  static isPhysical(product: ProductItem, category: ProductCategory | undefined): boolean {
+    return (product.type || category?.defaultType) === 'physical';
+  }
+
+  /**
+   * Add a product (variant), or one more of it for physical products
+   */
+  static add(lines: CartLine[], productId: number, variantId: number | undefined, physical: boolean): CartLine[] {
+    const key = this.getKey({ productId, variantId });
+    const existing = lines.find(line => this.getKey(line) === key);
+    if (!existing) {
+      const line: CartLine = { productId, quantity: 1 };
+      if (variantId) line.variantId = variantId;
+      return [...lines, line];
+    }
+    return physical ? this.setQuantity(lines, key, existing.quantity + 1) : lines;
+  }
+
+  /**
+   * Set a line's quantity; zero or less removes it
+   */
+  static setQuantity(lines: CartLine[], key: string, quantity: number): CartLine[] {
+    if (quantity <= 0) return this.remove(lines, key);
+    return lines.map(line => this.getKey(line) === key
+      ? { ...line, quantity: Math.min(MAX_QUANTITY, Math.floor(quantity)) }
+      : line);
+  }
+
+  static remove(lines: CartLine[], key: string): CartLine[] {
+    return lines.filter(line => this.getKey(line) !== key);
+  }
+
+  /**
+   * Price the cart. Lines for products or variants that were removed,
+   * deactivated or sold out are skipped, and quantities are capped at the stock left.
+   */
+  static summarize(lines: CartLine[], products: ProductItem[], categories: ProductCategory[], now: Date = new Date()): CartSummary {
+    const summaryLines: CartSummaryLine[] = [];
+
+    lines.forEach(line => {
+      const product = products.find(p => p.id === line.productId && p.status === 'active');
+      if (!product) return;
+
+      // Lines added before the product had variants fall back to its first variant
+      const variant = VariantUtils.find(product, line.variantId);
+      if (line.variantId && !variant) return;
+
+      const available = StockUtils.getAvailable(product);
+      if (available === 0) return;
+
+      const physical = this.isPhysical(product, CategoryUtils.find(categories, product.category));
+      const quantity = physical ? Math.min(line.quantity, available) : 1;
+      const { price, regularPrice } = PricingUtils.getPrice(VariantUtils.apply(product, variant), now);
+
+      const summaryLine: CartSummaryLine = {
+        key: this.getKey(line),
+        product,
+        name: VariantUtils.getName(product, variant),
+        quantity,
+        physical,
+        unitPrice: price,
+        lineTotal: price * quantity,
+        savings: (regularPrice - price) * quantity
+      };
+      if (variant) summaryLine.variant = variant;
+      summaryLines.push(summaryLine);
+    });
+
+    const total = summaryLines.reduce((sum, line) => sum + line.lineTotal, 0);
+    const discount = summaryLines.reduce((sum, line) => sum + line.savings, 0);
+
+    return {
+      lines: summaryLines,
+      itemCount: summaryLines.reduce((sum, line) => sum + line.quantity, 0),
+      subtotal: total + discount,
+      discount,
+      bundles: [],
+      total
+    };
+  }
+
+  /**
+   * One numbered line per cart entry, followed by the bundles, coupon and
+   * shipping applied, for the {cart.lines} placeholder. Pass the currency the summary was converted to.
+   */
+  static formatLines(summary: CartSummary, currency: CurrencySetting = BASE_CURRENCY): string[] {
+    const format = (amount: number) => CurrencyUtils.format(amount, currency);
+    const lines = summary.lines.map((line, index) => {
+      const quantity = line.quantity > 1 ? ` x${line.quantity} @ ${format(line.unitPrice)}` : '';
+      return `${index + 1}. ${line.name}${quantity} - ${format(line.lineTotal)}`;
+    });
+
+    summary.bundles.forEach(({ bundle, count, savings }) => {
+      const sets = count > 1 ? ` x${count}` : '';
+      lines.push(`Paket ${bundle.name}${sets} - hemat ${format(savings)}`);
+    });
+    if (summary.coupon) {
+      lines.push(`Kupon ${summary.coupon.coupon.code} - hemat ${format(summary.coupon.savings)}`);
+    }
+    if (summary.shipping) {
+      const { zone, weight, cost, free } = summary.shipping;
+      lines.push(`Ongkir ${zone.name} (${ShippingUtils.formatWeight(weight)}) - ${free ? 'gratis' : format(cost)}`);
+    }
+
+    return lines;
+  }
+}
+
+export default CartUtils;
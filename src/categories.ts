@@ -0,0 +1,138 @@
+// Portfolio and product category management for Portfolio Application
+import { CategoryBase, PortfolioCategory, ProductCategory } from './types.js';
+import { FormatUtils } from './utils.js';
+
+/**
+ * Portfolio categories used until the admin defines their own
+ */
+export const DEFAULT_CATEGORIES: PortfolioCategory[] = [
+  { id: 1, slug: 'ilustrasi', label: 'Ilustrasi', order: 0 },
+  { id: 2, slug: 'character', label: 'Character Design', order: 1 },
+  { id: 3, slug: 'editorial', label: 'Editorial', order: 2 },
+  { id: 4, slug: 'branding', label: 'Branding', order: 3 },
+  { id: 5, slug: 'concept', label: 'Concept Art', order: 4 }
+];
+
+/**
+ * Product categories used until the admin defines their own
+ */
+export const DEFAULT_PRODUCT_CATEGORIES: ProductCategory[] = [
+  { id: 1, slug: 'brush', label: 'Custom Brush', icon: 'fas fa-paint-brush', defaultType: 'digital', order: 0 },
+  { id: 2, slug: 'font', label: 'Font', icon: 'fas fa-font', defaultType: 'digital', order: 1 },
+  { id: 3, slug: 'action', label: 'Action Photoshop', icon: 'fas fa-magic', defaultType: 'digital', order: 2 },
+  { id: 4, slug: 'texture', label: 'Texture Pack', icon: 'fas fa-layer-group', defaultType: 'digital', order: 3 },
+  { id: 5, slug: 'template', label: 'Template', icon: 'fas fa-file-alt', defaultType: 'digital', order: 4 },
+  { id: 6, slug: 'other', label: 'Lainnya', icon: 'fas fa-box', defaultType: 'digital', order: 5 }
+];
+
+/**
+ * Category utilities shared by the public site and the admin panel.
+ * Items reference categories by slug; portfolio and product categories
+ * share the same id/slug/label/order shape.
+ */
+export class CategoryUtils {
+  /**
+   * Categories in display order
+   */
+  static sort<T extends CategoryBase>(categories: T[]): T[] {
+    return [...categories].sort((a, b) => a.order - b.order);
+  }
+
+  static find<T extends CategoryBase>(categories: T[], slug: string | undefined): T | undefined {
+    return categories.find(category => category.slug === slug);
+  }
+
+  /**
+   * Display label for a slug, falling back to the slug itself
+   */
+  static getLabel(categories: CategoryBase[], slug: string): string {
+    return this.find(categories, slug)?.label || slug;
+  }
+
+  /**
+   * Add a category for every slug used by an item but not defined yet,
+   * so items saved before categories were editable keep a valid category
+   */
+  static withMissing<T extends CategoryBase>(
+    categories: T[],
+    items: { category?: string | undefined }[],
+    create: (base: CategoryBase) => T
+  ): T[] {
+    const result = this.sort(categories);
+    const known = new Set(result.map(category => category.slug));
+    let nextId = this.nextId(result);
+
+    items.forEach(item => {
+      if (item.category && !known.has(item.category)) {
+        known.add(item.category);
+        result.push(create({ id: nextId++, slug: item.category, label: item.category, order: result.length }));
+      }
+    });
+
+    return result;
+  }
+
+  static nextId(categories: CategoryBase[]): number {
+    return Math.max(0, ...categories.map(category => category.id)) + 1;
+  }
+
+  /**
+   * Get a validation error for a new or edited category, or null when acceptable
+   */
+  static validate(categories: CategoryBase[], label: string, slug: string, editingId: number | null): string | null {
+    if (!label.trim()) {
+      return 'Nama kategori wajib diisi';
+    }
+    if (!slug || slug !== FormatUtils.slugify(slug)) {
+      return 'Slug hanya boleh berisi huruf kecil, angka, dan tanda hubung';
+    }
+    if (categories.some(category => category.slug === slug && category.id !== editingId)) {
+      return `Slug "${slug}" sudah dipakai kategori lain`;
+    }
+    return null;
+  }
+
+  /**
+   * Swap a category with its neighbour and renumber the order
+   */
+  static move<T extends CategoryBase>(categories: T[], id: number, direction: -1 | 1): T[] {
+    const sorted = this.sort(categories);
+    const index = sorted.findIndex(category => category.id === id);
+    const target = index + direction;
+    const current = sorted[index];
+    const neighbour = sorted[target];
+
+    if (index === -1 || !current || !neighbour) return sorted;
+
+    sorted[index] = neighbour;
+    sorted[target] = current;
+    return sorted.map((category, order) => ({ ...category, order }));
+  }
+
+  /**
+   * Point every item of one category at another; returns the number of items changed
+   */
+  static reassign(items: { category?: string | undefined }[], fromSlug: string, toSlug: string): number {
+    let count = 0;
+    items.forEach(item => {
+      if (item.category === fromSlug) {
+        item.category = toSlug;
+        count++;
+      }
+    });
+    return count;
+  }
+
+  static countItems(items: { category?: string | undefined }[], slug: string): number {
+    return items.filter(item => item.category === slug).length;
+  }
+
+  /**
+   * Product category for a slug created on the fly (digital, generic icon)
+   */
+  static createProductCategory(base: CategoryBase): ProductCategory {
+    return { ...base, icon: 'fas fa-box', defaultType: 'digital' };
+  }
+}
+
+export default CategoryUtils;
@@ -0,0 +1,188 @@
+// Currency conversion for Portfolio Application
+import {
+  CurrencyCode,
+  CurrencySetting,
+  SiteSettings,
+  ProductItem,
+  CartSummary,
+  CartSummaryLine
+} from './types.js';
+import { FormatUtils } from './utils.js';
+import { VariantUtils } from './variants.js';
+import { PricingUtils } from './pricing.js';
+
+/**
+ * Prices are stored in Rupiah; every other currency is derived from it
+ */
+export const BASE_CURRENCY: CurrencySetting = { code: 'IDR', rate: 1, rounding: 'whole', active: true };
+
+/**
+ * Currency usually used in a country, for picking a visitor's default
+ */
+const REGION_CURRENCIES: Record<string, CurrencyCode> = {
+  ID: 'IDR', US: 'USD', GB: 'GBP', AU: 'AUD', NZ: 'NZD', CA: 'CAD', SG: 'SGD', MY: 'MYR',
+  JP: 'JPY', KR: 'KRW', CN: 'CNY', HK: 'HKD', TW: 'TWD', PH: 'PHP', TH: 'THB', VN: 'VND',
+  IN: 'INR', CH: 'CHF', DE: 'EUR', FR: 'EUR', ES: 'EUR', IT: 'EUR', NL: 'EUR', BE: 'EUR',
+  AT: 'EUR', PT: 'EUR', IE: 'EUR', FI: 'EUR', GR: 'EUR'
+};
+
+/**
+ * Fallback for language tags without a region, e.g. "ja" or "de"
+ */
+const LANGUAGE_CURRENCIES: Record<string, CurrencyCode> = {
+  id: 'IDR', en: 'USD', ms: 'MYR', ja: 'JPY', ko: 'KRW', zh: 'CNY', th: 'THB', vi: 'VND',
+  tl: 'PHP', de: 'EUR', fr: 'EUR', es: 'EUR', it: 'EUR', nl: 'EUR', pt: 'EUR'
+};
+
+/**
+ * Display prices in the visitor's currency. Cart math (coupons, bundles)
+ * stays in Rupiah; amounts are converted only for display and messages.
+ *
+ * A product's price is converted with the admin's exchange rate and the
+ * currency's rounding rule, unless the product has a fixed price in that
+ * currency. Its sale and original prices then keep the same ratio.
+ */
+export class CurrencyUtils {
+  /**
+   * Rupiah plus the active foreign currencies from the settings
+   */
+  static getCurrencies(settings: SiteSettings): CurrencySetting[] {
+    const foreign = (settings.currencies || [])
+      .filter(currency => currency.active && currency.rate > 0 && currency.code !== BASE_CURRENCY.code);
+    return [BASE_CURRENCY, ...foreign];
+  }
+
+  static find(settings: SiteSettings, code: CurrencyCode): CurrencySetting | undefined {
+    return this.getCurrencies(settings).find(currency => currency.code === code);
+  }
+
+  /**
+   * First offered currency matching the browser languages, or Rupiah
+   */
+  static detect(settings: SiteSettings, languages: readonly string[]): CurrencySetting {
+    for (const language of languages) {
+      const [base = '', region = ''] = language.split('-');
+      const code = REGION_CURRENCIES[region.toUpperCase()] || LANGUAGE_CURRENCIES[base.toLowerCase()];
+      const currency = code ? this.find(settings, code) : undefined;
+      if (currency) return currency;
+    }
+    return BASE_CURRENCY;
+  }
+
+  /**
+   * A product price in a currency. Pass the product as sold (with its variant
+   * applied) so fixed foreign prices are used where the admin set them. A
+   * fixed price is the regular price; sale prices keep their ratio to it.
+   */
+  static convertPrice(amount: number, currency: CurrencySetting, product?: ProductItem): number {
+    if (currency.code === BASE_CURRENCY.code) return amount;
+
+    const fixedPrice = product?.currencyPrices?.[currency.code];
+    const regularPrice = product ? PricingUtils.getPrice(product).regularPrice : 0;
+    if (fixedPrice && regularPrice > 0) {
+      return this.roundMinor(amount * fixedPrice / regularPrice, currency);
+    }
+
+    const converted = amount / currency.rate;
+    switch (currency.rounding) {
+      case 'whole':
+        return Math.round(converted);
+      case 'charm':
+        return Math.max(0, Math.ceil(converted) - 0.01);
+      default:
+        return this.roundMinor(converted, currency);
+    }
+  }
+
+  /**
+   * Any other amount (savings, fees) in a currency, without price rounding rules
+   */
+  static convertAmount(amount: number, currency: CurrencySetting): number {
+    if (currency.code === BASE_CURRENCY.code) return amount;
+    return this.roundMinor(amount / currency.rate, currency);
+  }
+
+  /**
+   * The cart in another currency. Lines are converted as product prices and
+   * the totals are added up again, so the shown figures always add up.
+   */
+  static convertSummary(summary: CartSummary, currency: CurrencySetting): CartSummary {
+    if (currency.code === BASE_CURRENCY.code) return summary;
+
+    const lines: CartSummaryLine[] = summary.lines.map(line => {
+      const sold = VariantUtils.apply(line.product, line.variant);
+      const unitPrice = this.convertPrice(line.unitPrice, currency, sold);
+      const regularPrice = this.convertPrice(line.unitPrice + line.savings / line.quantity, currency, sold);
+      return {
+        ...line,
+        unitPrice,
+        lineTotal: this.roundMinor(unitPrice * line.quantity, currency),
+        savings: this.roundMinor((regularPrice - unitPrice) * line.quantity, currency)
+      };
+    });
+
+    const bundles = summary.bundles.map(applied => ({ ...applied, savings: this.convertAmount(applied.savings, currency) }));
+    const subtotal = lines.reduce((sum, line) => sum + line.lineTotal + line.savings, 0);
+    const discount = lines.reduce((sum, line) => sum + line.savings, 0);
+    const promoSavings = bundles.reduce((sum, applied) => sum + applied.savings, 0);
+
+    const result: CartSummary = {
+      ...summary,
+      lines,
+      bundles,
+      subtotal: this.roundMinor(subtotal, currency),
+      discount: this.roundMinor(discount, currency)
+    };
+
+    let couponSavings = 0;
+    if (summary.coupon) {
+      couponSavings = this.convertAmount(summary.coupon.savings, currency);
+      result.coupon = { ...summary.coupon, savings: couponSavings };
+    }
+
+    let shippingCost = 0;
+    if (summary.shipping) {
+      shippingCost = this.convertAmount(summary.shipping.cost, currency);
+      result.shipping = { ...summary.shipping, cost: shippingCost };
+    }
+
+    result.total = this.roundMinor(Math.max(0, subtotal - discount - promoSavings - couponSavings) + shippingCost, currency);
+    return result;
+  }
+
+  /**
+   * Amount with its currency sign, e.g. "Rp 150.000" or "$12.99"
+   */
+  static format(amount: number, currency: CurrencySetting = BASE_CURRENCY): string {
+    if (currency.code === BASE_CURRENCY.code) {
+      return FormatUtils.formatPrice(amount);
+    }
+
+    const digits = currency.rounding === 'whole' ? 0 : 2;
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency.code,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits
+    }).format(amount);
+  }
+
+  /**
+   * Whether a currency code is well-formed, for validating the admin's input
+   */
+  static isSupported(code: CurrencyCode): boolean {
+    if (!/^[A-Z]{3}$/.test(code)) return false;
+    try {
+      new Intl.NumberFormat('en-US', { style: 'currency', currency: code });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static roundMinor(amount: number, currency: CurrencySetting): number {
+    return currency.rounding === 'whole' ? Math.round(amount) : Math.round(amount * 100) / 100;
+  }
+}
+
+export default CurrencyUtils;
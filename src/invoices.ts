@@ -0,0 +1,323 @@
+// Invoices for Portfolio Application
+import { Order, SiteSettings, CurrencySetting } from './types.js';
+import { CurrencyUtils } from './currency.js';
+import { ORDER_STATUS_LABELS } from './orders.js';
+import { FormatUtils } from './utils.js';
+
+/**
+ * The part of the jsPDF API the invoice uses
+ */
+interface PdfDocument {
+  addImage(imageData: string, format: 'JPEG', x: number, y: number, width: number, height: number): void;
+  setFont(fontName: string, fontStyle: 'normal' | 'bold'): void;
+  setFontSize(size: number): void;
+  text(text: string | string[], x: number, y: number, options?: { align: 'left' | 'center' | 'right' }): void;
+  line(x1: number, y1: number, x2: number, y2: number): void;
+  splitTextToSize(text: string, maxWidth: number): string[];
+  addPage(): void;
+  save(filename: string): void;
+}
+
+// jsPDF UMD build, loaded from the CDN in admin.html
+declare const jspdf: {
+  jsPDF: new (options: { unit: 'mm'; format: 'a4' }) => PdfDocument;
+};
+
+export const DEFAULT_INVOICE_PREFIX = 'INV';
+
+/**
+ * Amounts as printed on an invoice: the items at the price they were sold
+ * for, bundle and coupon savings as one discount, then shipping
+ */
+interface InvoiceTotals {
+  itemsTotal: number;
+  discount: number;
+  shipping: number;
+  total: number;
+}
+
+/**
+ * Invoices for recorded orders, as a print-ready HTML page or a PDF file.
+ * Both are generated in the browser from the order and the site settings.
+ *
+ * Invoice numbers run per year ("INV-2026-0001") and are stored on the
+ * order the first time an invoice is made, so reprints keep their number.
+ */
+export class InvoiceUtils {
+  /**
+   * Next free number for the year, continuing after the highest one given out
+   */
+  static nextNumber(orders: Order[], prefix: string = DEFAULT_INVOICE_PREFIX, now: Date = new Date()): string {
+    const year = now.getFullYear();
+    const pattern = new RegExp(`-${year}-(\\d+)$`);
+    const last = Math.max(0, ...orders.map(order => {
+      const match = order.invoiceNumber?.match(pattern);
+      return match ? parseInt(match[1] || '0') : 0;
+    }));
+
+    return `${prefix.trim() || DEFAULT_INVOICE_PREFIX}-${year}-${String(last + 1).padStart(4, '0')}`;
+  }
+
+  static getTotals(order: Order): InvoiceTotals {
+    const itemsTotal = order.lines.reduce((sum, line) => sum + line.lineTotal, 0);
+    const shipping = order.shipping || 0;
+    return {
+      itemsTotal,
+      discount: Math.max(0, Math.round((itemsTotal + shipping - order.total) * 100) / 100),
+      shipping,
+      total: order.total
+    };
+  }
+
+  /**
+   * Standalone HTML document for printing; it opens the print dialog once loaded
+   */
+  static renderHtml(order: Order, settings: SiteSettings, currency: CurrencySetting): string {
+    const format = (amount: number) => CurrencyUtils.format(amount, currency);
+    const escape = FormatUtils.escapeHtml;
+    const totals = this.getTotals(order);
+    const title = `Invoice ${escape(order.invoiceNumber || `#${order.id}`)}`;
+    const siteName = escape(settings.siteName);
+
+    return `<!DOCTYPE html>
+<html lang="id">
+<head>
+  <meta charset="UTF-8">
+  <title>${title} - ${siteName}</title>
+  <style>
+    body { font-family: 'Inter', Arial, sans-serif; color: #2c3e50; margin: 0; padding: 2rem; }
+    .invoice { max-width: 760px; margin: 0 auto; }
+    .invoice-header { display: flex; justify-content: space-between; align-items: flex-start; gap: 2rem; margin-bottom: 2rem; }
+    .brand { display: flex; align-items: center; gap: 1rem; }
+    .brand img { width: 64px; height: 64px; border-radius: 50%; object-fit: cover; }
+    .brand h1 { margin: 0; font-size: 1.5rem; }
+    .meta { text-align: right; font-size: 0.9rem; color: #666; }
+    .meta h2 { margin: 0 0 0.5rem; color: #2c3e50; letter-spacing: 0.1em; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 1.5rem; }
+    th, td { padding: 0.6rem; border-bottom: 1px solid #eee; text-align: right; }
+    th:first-child, td:first-child { text-align: left; }
+    th { background: #f8f9fa; font-weight: 600; }
+    .totals { margin-left: auto; width: 280px; }
+    .totals div { display: flex; justify-content: space-between; padding: 0.3rem 0; }
+    .totals .grand-total { border-top: 2px solid #2c3e50; margin-top: 0.3rem; padding-top: 0.6rem; font-weight: 600; font-size: 1.1rem; }
+    .payment { margin-top: 2rem; padding: 1rem; background: #f8f9fa; border-radius: 8px; white-space: pre-line; }
+    .payment h3 { margin: 0 0 0.5rem; font-size: 1rem; }
+    .thanks { margin-top: 2rem; text-align: center; color: #666; }
+    .print-button { display: block; margin: 2rem auto 0; padding: 0.6rem 1.5rem; border: none; border-radius: 6px; background: #3498db; color: white; cursor: pointer; }
+    @media print {
+      body { padding: 0; }
+      .print-button { display: none; }
+    }
+  </style>
+</head>
+<body>
+  <div class="invoice">
+    <div class="invoice-header">
+      <div class="brand">
+        ${settings.profileImage ? `<img src="${escape(settings.profileImage)}" alt="">` : ''}
+        <h1>${siteName}</h1>
+      </div>
+      <div class="meta">
+        <h2>INVOICE</h2>
+        <div>No. ${escape(order.invoiceNumber || '-')}</div>
+        <div>Tanggal: ${new Date(order.invoicedAt || order.createdAt).toLocaleDateString('id-ID', { dateStyle: 'long' })}</div>
+        <div>Pesanan #${order.id} &middot; ${ORDER_STATUS_LABELS[order.status]}</div>
+      </div>
+    </div>
+
+    <table>
+      <thead>
+        <tr><th>Produk</th><th>Jumlah</th><th>Harga</th><th>Total</th></tr>
+      </thead>
+      <tbody>
+        ${order.lines.map(line => `
+          <tr>
+            <td>${escape(line.name)}</td>
+            <td>${line.quantity}</td>
+            <td>${format(line.unitPrice)}</td>
+            <td>${format(line.lineTotal)}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+
+    <div class="totals">
+      <div><span>Subtotal</span><span>${format(totals.itemsTotal)}</span></div>
+      ${totals.discount > 0 ? `
+        <div><span>Potongan${order.couponCode ? ` (${escape(order.couponCode)})` : ''}</span><span>- ${format(totals.discount)}</span></div>
+      ` : ''}
+      ${order.shippingZone ? `
+        <div><span>Ongkir (${escape(order.shippingZone)})</span><span>${totals.shipping > 0 ? format(totals.shipping) : 'Gratis'}</span></div>
+      ` : ''}
+      <div class="grand-total"><span>Total</span><span>${format(totals.total)}</span></div>
+    </div>
+
+    ${settings.paymentInstructions ? `
+      <div class="payment">
+        <h3>Cara Pembayaran</h3>
+        ${escape(settings.paymentInstructions)}
+      </div>
+    ` : ''}
+
+    <p class="thanks">Terima kasih atas pesanan Anda!</p>
+    <button type="button" class="print-button" onclick="window.print()">Cetak</button>
+  </div>
+  <script>window.addEventListener('load', () => window.print());</script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Write the invoice into a window opened by the caller; it prints once loaded.
+   * The window has to be opened straight from the click, or pop-up blockers stop it.
+   */
+  static print(printWindow: Window | null, order: Order, settings: SiteSettings, currency: CurrencySetting): void {
+    if (!printWindow) {
+      throw new Error('Jendela invoice diblokir browser. Izinkan pop-up untuk halaman ini.');
+    }
+
+    printWindow.document.open();
+    printWindow.document.write(this.renderHtml(order, settings, currency));
+    printWindow.document.close();
+  }
+
+  /**
+   * Build the invoice as an A4 PDF and download it
+   */
+  static async downloadPdf(order: Order, settings: SiteSettings, currency: CurrencySetting): Promise<void> {
+    if (typeof jspdf === 'undefined') {
+      throw new Error('Library PDF gagal dimuat. Periksa koneksi internet lalu muat ulang halaman.');
+    }
+
+    const doc = new jspdf.jsPDF({ unit: 'mm', format: 'a4' });
+    const format = (amount: number) => CurrencyUtils.format(amount, currency);
+    const totals = this.getTotals(order);
+    const left = 20;
+    const right = 190;
+    let y = 20;
+
+    // Header: profile image and site name, invoice details on the right
+    const logo = settings.profileImage ? await this.loadImage(settings.profileImage) : null;
+    if (logo) doc.addImage(logo, 'JPEG', left, y, 18, 18);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(16);
+    doc.text(settings.siteName, logo ? left + 22 : left, y + 11);
+
+    doc.setFontSize(14);
+    doc.text('INVOICE', right, y + 4, { align: 'right' });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.text([
+      `No. ${order.invoiceNumber || '-'}`,
+      `Tanggal: ${new Date(order.invoicedAt || order.createdAt).toLocaleDateString('id-ID', { dateStyle: 'long' })}`,
+      `Pesanan #${order.id} - ${ORDER_STATUS_LABELS[order.status]}`
+    ], right, y + 10, { align: 'right' });
+    y += 32;
+
+    // Line items
+    const columns = { quantity: 120, price: 155, total: right };
+    doc.setFont('helvetica', 'bold');
+    doc.text('Produk', left, y);
+    doc.text('Jumlah', columns.quantity, y, { align: 'right' });
+    doc.text('Harga', columns.price, y, { align: 'right' });
+    doc.text('Total', columns.total, y, { align: 'right' });
+    doc.line(left, y + 2, right, y + 2);
+    doc.setFont('helvetica', 'normal');
+    y += 8;
+
+    order.lines.forEach(line => {
+      const name = doc.splitTextToSize(line.name, columns.quantity - left - 15);
+      if (y + name.length * 5 > 270) {
+        doc.addPage();
+        y = 20;
+      }
+      doc.text(name, left, y);
+      doc.text(String(line.quantity), columns.quantity, y, { align: 'right' });
+      doc.text(format(line.unitPrice), columns.price, y, { align: 'right' });
+      doc.text(format(line.lineTotal), columns.total, y, { align: 'right' });
+      y += name.length * 5 + 3;
+    });
+
+    // Totals
+    doc.line(left, y - 2, right, y - 2);
+    y += 4;
+    const totalRow = (label: string, value: string) => {
+      doc.text(label, columns.quantity - 10, y);
+      doc.text(value, right, y, { align: 'right' });
+      y += 6;
+    };
+    totalRow('Subtotal', format(totals.itemsTotal));
+    if (totals.discount > 0) {
+      totalRow(`Potongan${order.couponCode ? ` (${order.couponCode})` : ''}`, `- ${format(totals.discount)}`);
+    }
+    if (order.shippingZone) {
+      totalRow(`Ongkir (${order.shippingZone})`, totals.shipping > 0 ? format(totals.shipping) : 'Gratis');
+    }
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    totalRow('Total', format(totals.total));
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+
+    // Payment instructions
+    if (settings.paymentInstructions) {
+      const instructions = doc.splitTextToSize(settings.paymentInstructions, right - left);
+      y += 8;
+      if (y + instructions.length * 5 > 280) {
+        doc.addPage();
+        y = 20;
+      }
+      doc.setFont('helvetica', 'bold');
+      doc.text('Cara Pembayaran', left, y);
+      doc.setFont('helvetica', 'normal');
+      doc.text(instructions, left, y + 6);
+      y += instructions.length * 5 + 6;
+    }
+
+    doc.text('Terima kasih atas pesanan Anda!', 105, Math.max(y + 12, 280), { align: 'center' });
+    doc.save(`${order.invoiceNumber || `invoice-${order.id}`}.pdf`);
+  }
+
+  /**
+   * An image as a JPEG data URL for jsPDF, or null when it cannot be read
+   * (e.g. a cross-origin URL without CORS headers)
+   */
+  private static loadImage(src: string): Promise<string | null> {
+    return new Promise(resolve => {
+      const image = new Image();
+      image.crossOrigin = 'anonymous';
+      image.onload = () => {
+        try {
+          const size = Math.min(image.naturalWidth, image.naturalHeight);
+          const canvas = document.createElement('canvas');
+          canvas.width = canvas.height = 256;
+          const context = canvas.getContext('2d');
+          if (!context || size === 0) return resolve(null);
+
+          // Square center crop, like the round profile photo on the site
+          context.fillStyle = '#ffffff';
+          context.fillRect(0, 0, 256, 256);
+          context.drawImage(
+            image,
+            (image.naturalWidth - size) / 2,
+            (image.naturalHeight - size) / 2,
+            size,
+            size,
+            0,
+            0,
+            256,
+            256
+          );
+          resolve(canvas.toDataURL('image/jpeg', 0.9));
+        } catch {
+          resolve(null);
+        }
+      };
+      image.onerror = () => resolve(null);
+      image.src = src;
+    });
+  }
+}
+
+export default InvoiceUtils;
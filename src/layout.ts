@@ -0,0 +1,125 @@
+// Portfolio grid layout engines for Portfolio Application
+import { GridLayout, SizeName, ThumbnailSizes } from './types.js';
+
+/**
+ * Display sizes a portfolio item can take in the public grid. Normal matches
+ * the 3:4 grid card; wide2x spans two columns and tall2x two rows, and each
+ * size's thumbnail is generated at these dimensions.
+ */
+export const THUMBNAIL_SIZES: ThumbnailSizes = {
+  normal: { name: 'Normal', width: 450, height: 600, ratio: 3 / 4 },
+  wide2x: { name: 'Lebar (2 kolom)', width: 900, height: 600, ratio: 3 / 2 },
+  tall2x: { name: 'Tinggi (2 baris)', width: 450, height: 1200, ratio: 3 / 8 }
+};
+
+const MASONRY_MIN_COLUMN_WIDTH = 260;
+const MASONRY_MAX_COLUMNS = 4;
+const DEFAULT_RATIO = 3 / 4;
+const LAYOUTS: GridLayout[] = ['masonry', 'grid', 'list'];
+const SIZES: SizeName[] = ['normal', 'wide2x', 'tall2x'];
+const POSITION_PROPERTIES = ['position', 'left', 'top', 'width', 'height'];
+
+/**
+ * Layout engines for the public portfolio grid.
+ *
+ * Grid and list are plain CSS (`layout-grid`, `layout-list` on the
+ * container). Masonry positions each card absolutely in the shortest
+ * column, sized from the card's `data-ratio` (width / height), so it can
+ * run before any image has loaded. Cards with `data-size="wide2x"` span two
+ * columns in both masonry and grid; tall2x cards span two grid rows.
+ */
+export class LayoutUtils {
+  /**
+   * Lay out the container's cards with the given layout
+   */
+  static apply(container: HTMLElement, layout: GridLayout): void {
+    LAYOUTS.forEach(name => container.classList.toggle(`layout-${name}`, name === layout));
+
+    const cards = Array.from(container.children) as HTMLElement[];
+    if (layout === 'masonry') {
+      this.layoutMasonry(container, cards);
+    } else {
+      this.resetPositions(container, cards);
+    }
+  }
+
+  /**
+   * Aspect ratio (width / height) a card should be laid out with
+   */
+  static getRatio(card: HTMLElement): number {
+    const ratio = parseFloat(card.dataset.ratio || '');
+    return ratio > 0 ? ratio : DEFAULT_RATIO;
+  }
+
+  /**
+   * Display size of an item, defaulting to normal for unknown values
+   */
+  static getSize(size: string | undefined): SizeName {
+    return SIZES.find(name => name === size) || 'normal';
+  }
+
+  /**
+   * Aspect ratio from stored pixel dimensions, if both are known
+   */
+  static ratioFromSize(width: number | undefined, height: number | undefined): number | undefined {
+    return width && height ? width / height : undefined;
+  }
+
+  private static layoutMasonry(container: HTMLElement, cards: HTMLElement[]): void {
+    const style = getComputedStyle(container);
+    const gap = parseFloat(style.columnGap) || 0;
+    const paddingLeft = parseFloat(style.paddingLeft) || 0;
+    const paddingRight = parseFloat(style.paddingRight) || 0;
+    const width = container.clientWidth - paddingLeft - paddingRight;
+
+    const columns = Math.max(1, Math.min(
+      MASONRY_MAX_COLUMNS,
+      Math.floor((width + gap) / (MASONRY_MIN_COLUMN_WIDTH + gap))
+    ));
+    const columnWidth = (width - gap * (columns - 1)) / columns;
+    const heights: number[] = new Array(columns).fill(0);
+
+    cards.forEach(card => {
+      const span = card.dataset.size === 'wide2x' && columns > 1 ? 2 : 1;
+      const column = this.findColumn(heights, span);
+      const top = Math.max(...heights.slice(column, column + span));
+      const cardWidth = columnWidth * span + gap * (span - 1);
+      const height = cardWidth / this.getRatio(card);
+
+      card.style.position = 'absolute';
+      card.style.left = `${paddingLeft + column * (columnWidth + gap)}px`;
+      card.style.top = `${top}px`;
+      card.style.width = `${cardWidth}px`;
+      card.style.height = `${height}px`;
+
+      heights.fill(top + height + gap, column, column + span);
+    });
+
+    container.style.height = `${Math.max(0, Math.max(...heights) - gap)}px`;
+  }
+
+  /**
+   * First column where `span` adjacent columns reach the lowest common top
+   */
+  private static findColumn(heights: number[], span: number): number {
+    let best = 0;
+    let bestTop = Infinity;
+    for (let column = 0; column + span <= heights.length; column++) {
+      const top = Math.max(...heights.slice(column, column + span));
+      if (top < bestTop) {
+        best = column;
+        bestTop = top;
+      }
+    }
+    return best;
+  }
+
+  private static resetPositions(container: HTMLElement, cards: HTMLElement[]): void {
+    container.style.removeProperty('height');
+    cards.forEach(card => {
+      POSITION_PROPERTIES.forEach(property => card.style.removeProperty(property));
+    });
+  }
+}
+
+export default LayoutUtils;
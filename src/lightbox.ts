@@ -0,0 +1,344 @@
+// Gallery lightbox for Portfolio Application
+import { LightboxItem } from './types.js';
+import { DOMUtils } from './utils.js';
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const WHEEL_ZOOM_STEP = 0.0015;
+const SWIPE_THRESHOLD = 50;
+const TAP_THRESHOLD = 10;
+
+/**
+ * Full-screen gallery for the public site.
+ *
+ * Steps through every image of an item and then on to the next item of the
+ * list it was opened with. Supports arrow keys (left/right for images,
+ * up/down for items), touch swipe, wheel and pinch zoom with panning, and
+ * preloads the neighbouring images.
+ */
+export class Lightbox {
+  private element: HTMLElement | null = null;
+  private items: LightboxItem[] = [];
+  private itemIndex = 0;
+  private imageIndex = 0;
+  private zoom = MIN_ZOOM;
+  private panX = 0;
+  private panY = 0;
+  private pointers = new Map<number, { x: number; y: number }>();
+  private gesture: { startX: number; startY: number; panX: number; panY: number; distance: number; zoom: number } | null = null;
+  private pressedBackdrop = false;
+  private returnFocus: HTMLElement | null = null;
+
+  constructor() {
+    this.handleKeydown = this.handleKeydown.bind(this);
+  }
+
+  get isOpen(): boolean {
+    return this.element?.classList.contains('active') ?? false;
+  }
+
+  /**
+   * Open the gallery at one image of one item
+   */
+  open(items: LightboxItem[], itemIndex: number, imageIndex = 0): void {
+    const withImages = items.filter(item => item.images.length > 0);
+    const current = items[itemIndex];
+    if (!current || current.images.length === 0) return;
+
+    this.items = withImages;
+    this.itemIndex = withImages.indexOf(current);
+    this.imageIndex = Math.min(Math.max(0, imageIndex), current.images.length - 1);
+
+    const element = this.element || this.createElement();
+    this.returnFocus = document.activeElement as HTMLElement | null;
+
+    document.body.appendChild(element);
+    document.body.style.overflow = 'hidden';
+    document.addEventListener('keydown', this.handleKeydown);
+
+    this.render();
+    requestAnimationFrame(() => DOMUtils.addClass(element, 'active'));
+    element.querySelector<HTMLElement>('.lightbox-close')?.focus();
+  }
+
+  close(): void {
+    const element = this.element;
+    if (!element || !this.isOpen) return;
+
+    DOMUtils.removeClass(element, 'active');
+    document.body.style.removeProperty('overflow');
+    document.removeEventListener('keydown', this.handleKeydown);
+    this.pointers.clear();
+    this.gesture = null;
+
+    setTimeout(() => {
+      if (!this.isOpen) element.remove();
+    }, 300);
+    this.returnFocus?.focus();
+  }
+
+  /**
+   * Next image, moving on to the next item after its last image
+   */
+  next(): void {
+    const item = this.items[this.itemIndex];
+    if (!item) return;
+
+    if (this.imageIndex < item.images.length - 1) {
+      this.show(this.itemIndex, this.imageIndex + 1);
+    } else if (this.itemIndex < this.items.length - 1) {
+      this.show(this.itemIndex + 1, 0);
+    }
+  }
+
+  /**
+   * Previous image, moving back to the last image of the previous item
+   */
+  previous(): void {
+    if (this.imageIndex > 0) {
+      this.show(this.itemIndex, this.imageIndex - 1);
+    } else if (this.itemIndex > 0) {
+      const previousItem = this.items[this.itemIndex - 1];
+      this.show(this.itemIndex - 1, (previousItem?.images.length ?? 1) - 1);
+    }
+  }
+
+  private show(itemIndex: number, imageIndex: number): void {
+    this.itemIndex = itemIndex;
+    this.imageIndex = imageIndex;
+    this.render();
+  }
+
+  private createElement(): HTMLElement {
+    const element = DOMUtils.createElement<HTMLDivElement>('div', 'lightbox');
+    element.setAttribute('role', 'dialog');
+    element.setAttribute('aria-modal', 'true');
+    element.setAttribute('aria-label', 'Galeri gambar');
+
+    element.innerHTML = `
+      <div class="lightbox-stage">
+        <img class="lightbox-image" alt="" draggable="false">
+      </div>
+      <button type="button" class="lightbox-close" title="Tutup (Esc)">&times;</button>
+      <button type="button" class="lightbox-nav lightbox-prev" title="Sebelumnya">
+        <i class="fas fa-chevron-left"></i>
+      </button>
+      <button type="button" class="lightbox-nav lightbox-next" title="Berikutnya">
+        <i class="fas fa-chevron-right"></i>
+      </button>
+      <div class="lightbox-caption">
+        <h3 class="lightbox-title"></h3>
+        <p class="lightbox-text"></p>
+        <span class="lightbox-counter"></span>
+      </div>
+    `;
+
+    element.querySelector('.lightbox-close')?.addEventListener('click', () => this.close());
+    element.querySelector('.lightbox-prev')?.addEventListener('click', () => this.previous());
+    element.querySelector('.lightbox-next')?.addEventListener('click', () => this.next());
+
+    const stage = element.querySelector<HTMLElement>('.lightbox-stage');
+    if (stage) this.setupGestures(stage);
+
+    this.element = element;
+    return element;
+  }
+
+  private render(): void {
+    const element = this.element;
+    const item = this.items[this.itemIndex];
+    const image = item?.images[this.imageIndex];
+    if (!element || !item || !image) return;
+
+    this.resetZoom();
+
+    const img = element.querySelector<HTMLImageElement>('.lightbox-image');
+    if (img) {
+      img.src = image.src;
+      img.alt = image.alt || item.title;
+    }
+
+    const title = element.querySelector<HTMLElement>('.lightbox-title');
+    if (title) title.textContent = item.title;
+
+    const text = element.querySelector<HTMLElement>('.lightbox-text');
+    const caption = image.caption || item.caption || '';
+    if (text) {
+      text.textContent = caption;
+      text.hidden = !caption;
+    }
+
+    const counter = element.querySelector<HTMLElement>('.lightbox-counter');
+    if (counter) {
+      const imageCount = item.images.length > 1 ? `Gambar ${this.imageIndex + 1}/${item.images.length}` : '';
+      const itemCount = this.items.length > 1 ? `Karya ${this.itemIndex + 1}/${this.items.length}` : '';
+      counter.textContent = [imageCount, itemCount].filter(Boolean).join(' · ');
+    }
+
+    const isFirst = this.itemIndex === 0 && this.imageIndex === 0;
+    const isLast = this.itemIndex === this.items.length - 1 && this.imageIndex === item.images.length - 1;
+    const prevButton = element.querySelector<HTMLButtonElement>('.lightbox-prev');
+    const nextButton = element.querySelector<HTMLButtonElement>('.lightbox-next');
+    if (prevButton) prevButton.disabled = isFirst;
+    if (nextButton) nextButton.disabled = isLast;
+
+    this.preloadNeighbours();
+  }
+
+  /**
+   * Start loading the images before and after the current one
+   */
+  private preloadNeighbours(): void {
+    const item = this.items[this.itemIndex];
+    const previousItem = this.items[this.itemIndex - 1];
+    const nextItem = this.items[this.itemIndex + 1];
+
+    const neighbours = [
+      item?.images[this.imageIndex - 1] ?? previousItem?.images[previousItem.images.length - 1],
+      item?.images[this.imageIndex + 1] ?? nextItem?.images[0]
+    ];
+
+    neighbours.forEach(image => {
+      if (image) new Image().src = image.src;
+    });
+  }
+
+  private handleKeydown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case 'Escape':
+        this.close();
+        break;
+      case 'ArrowLeft':
+        this.previous();
+        break;
+      case 'ArrowRight':
+        this.next();
+        break;
+      case 'ArrowUp':
+        if (this.itemIndex > 0) this.show(this.itemIndex - 1, 0);
+        break;
+      case 'ArrowDown':
+        if (this.itemIndex < this.items.length - 1) this.show(this.itemIndex + 1, 0);
+        break;
+      case '+':
+      case '=':
+        this.setZoom(this.zoom * 1.5);
+        break;
+      case '-':
+        this.setZoom(this.zoom / 1.5);
+        break;
+      case '0':
+        this.resetZoom();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  /**
+   * Swipe to change image, drag to pan, pinch or wheel to zoom, double-click to toggle zoom
+   */
+  private setupGestures(stage: HTMLElement): void {
+    stage.addEventListener('pointerdown', (event: PointerEvent) => {
+      this.pressedBackdrop = this.pointers.size === 0 && event.target === stage;
+      stage.setPointerCapture(event.pointerId);
+      this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      this.startGesture();
+    });
+
+    stage.addEventListener('pointermove', (event: PointerEvent) => {
+      if (!this.pointers.has(event.pointerId) || !this.gesture) return;
+      this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+      const [first, second] = Array.from(this.pointers.values());
+      if (!first) return;
+
+      if (second && this.gesture.distance > 0) {
+        this.setZoom(this.gesture.zoom * (this.getDistance(first, second) / this.gesture.distance));
+      } else if (this.zoom > MIN_ZOOM) {
+        this.setPan(this.gesture.panX + first.x - this.gesture.startX, this.gesture.panY + first.y - this.gesture.startY);
+      }
+    });
+
+    const endPointer = (event: PointerEvent) => {
+      const wasPressed = this.pointers.delete(event.pointerId);
+      const gesture = this.gesture;
+
+      // On an unzoomed image a single-finger horizontal drag is a swipe,
+      // and a tap on the backdrop around the image closes the gallery
+      if (wasPressed && gesture && gesture.distance === 0 && this.pointers.size === 0 && this.zoom === MIN_ZOOM) {
+        const deltaX = event.clientX - gesture.startX;
+        const deltaY = event.clientY - gesture.startY;
+        if (Math.abs(deltaX) > SWIPE_THRESHOLD && Math.abs(deltaX) > Math.abs(deltaY)) {
+          if (deltaX < 0) this.next(); else this.previous();
+        } else if (this.pressedBackdrop && Math.hypot(deltaX, deltaY) < TAP_THRESHOLD) {
+          this.close();
+          return;
+        }
+      }
+
+      this.startGesture();
+    };
+
+    stage.addEventListener('pointerup', endPointer);
+    stage.addEventListener('pointercancel', endPointer);
+
+    stage.addEventListener('wheel', (event: WheelEvent) => {
+      event.preventDefault();
+      this.setZoom(this.zoom * (1 - event.deltaY * WHEEL_ZOOM_STEP));
+    }, { passive: false });
+
+    stage.addEventListener('dblclick', () => {
+      this.setZoom(this.zoom > MIN_ZOOM ? MIN_ZOOM : 2);
+    });
+  }
+
+  /**
+   * Remember where the current pointers started so moves are relative to it
+   */
+  private startGesture(): void {
+    const [first, second] = Array.from(this.pointers.values());
+    this.gesture = first ? {
+      startX: first.x,
+      startY: first.y,
+      panX: this.panX,
+      panY: this.panY,
+      distance: second ? this.getDistance(first, second) : 0,
+      zoom: this.zoom
+    } : null;
+  }
+
+  private getDistance(a: { x: number; y: number }, b: { x: number; y: number }): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+
+  private setZoom(zoom: number): void {
+    this.zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+    this.setPan(this.panX, this.panY);
+  }
+
+  private resetZoom(): void {
+    this.zoom = MIN_ZOOM;
+    this.setPan(0, 0);
+  }
+
+  /**
+   * Pan the zoomed image, keeping it covering the stage
+   */
+  private setPan(x: number, y: number): void {
+    const img = this.element?.querySelector<HTMLImageElement>('.lightbox-image');
+    if (!img) return;
+
+    const maxX = (img.offsetWidth * (this.zoom - 1)) / 2;
+    const maxY = (img.offsetHeight * (this.zoom - 1)) / 2;
+    this.panX = Math.min(maxX, Math.max(-maxX, x));
+    this.panY = Math.min(maxY, Math.max(-maxY, y));
+
+    img.style.transform = `translate(${this.panX}px, ${this.panY}px) scale(${this.zoom})`;
+    DOMUtils.toggleClass(img, 'zoomed', this.zoom > MIN_ZOOM);
+    DOMUtils.toggleClass(img, 'dragging', this.pointers.size > 0);
+  }
+}
+
+export default Lightbox;
@@ -0,0 +1,231 @@
+// Schema versioning and data migrations for Portfolio Application
+import {
+  StorageKeys,
+  VersionedPayload,
+  DataMigration,
+  MigrationFailure
+} from './types.js';
+
+/**
+ * Registered migrations, in the order they must run.
+ * Add a new entry (and bump its version past the last one) whenever a
+ * stored shape in types.ts changes; never edit a migration that shipped.
+ */
+const MIGRATIONS: DataMigration[] = [
+  {
+    version: 1,
+    key: StorageKeys.PORTFOLIO_DATA,
+    description: 'Normalize portfolio status, category and additional images',
+    migrate: items => toArray(items).map(toRecord).map(item => ({
+      ...item,
+      id: Number(item.id),
+      category: item.category === 'illustration' ? 'ilustrasi' : item.category,
+      status: normalizeStatus(item.status),
+      additionalImages: toArray(item.additionalImages).filter(src => typeof src === 'string' && src !== '')
+    }))
+  },
+  {
+    version: 2,
+    key: StorageKeys.PORTFOLIO_DATA,
+    description: 'Turn additional image URLs into image entries with caption and alt text',
+    migrate: items => toArray(items).map(toRecord).map(item => ({
+      ...item,
+      additionalImages: toArray(item.additionalImages)
+        .map(image => typeof image === 'string' ? { src: image } : toRecord(image))
+        .filter(image => typeof image.src === 'string' && image.src !== '')
+    }))
+  },
+  {
+    version: 1,
+    key: StorageKeys.PRODUCTS_DATA,
+    description: 'Normalize product status and numeric prices',
+    migrate: items => toArray(items).map(toRecord).map(item => {
+      const product: Record<string, unknown> = {
+        ...item,
+        id: Number(item.id),
+        price: toNumber(item.price) ?? 0,
+        status: normalizeStatus(item.status)
+      };
+      const originalPrice = toNumber(item.originalPrice);
+      const discount = toNumber(item.discount);
+      if (originalPrice === undefined) delete product.originalPrice; else product.originalPrice = originalPrice;
+      if (discount === undefined) delete product.discount; else product.discount = discount;
+      return product;
+    })
+  },
+  {
+    version: 1,
+    key: StorageKeys.SITE_SETTINGS,
+    description: 'Coerce display settings to their declared types',
+    migrate: stored => {
+      const settings = toRecord(stored);
+      const result = { ...settings };
+      const itemsPerPage = toNumber(settings.itemsPerPage);
+      if (itemsPerPage === undefined) delete result.itemsPerPage; else result.itemsPerPage = itemsPerPage;
+      if (!['masonry', 'grid', 'list'].includes(String(settings.gridLayout))) delete result.gridLayout;
+      return result;
+    }
+  },
+  {
+    version: 3,
+    key: StorageKeys.PRODUCT_CATEGORIES,
+    description: 'Rewrite short placeholders in category WhatsApp templates, e.g. {name} to {product.name}',
+    migrate: categories => toArray(categories).map(toRecord).map(category => {
+      const template = category.whatsappTemplate;
+      if (typeof template !== 'string') return category;
+      return { ...category, whatsappTemplate: expandProductPlaceholders(template) };
+    })
+  },
+  {
+    version: 4,
+    key: StorageKeys.SITE_SETTINGS,
+    description: 'Rewrite short placeholders in the site-wide product message template',
+    migrate: stored => {
+      const settings = toRecord(stored);
+      const templates = toRecord(settings.messageTemplates);
+      if (typeof templates.product !== 'string') return settings;
+      return { ...settings, messageTemplates: { ...templates, product: expandProductPlaceholders(templates.product) } };
+    }
+  }
+];
+
+/**
+ * Current schema version, derived from the newest registered migration
+ */
+export const SCHEMA_VERSION = Math.max(0, ...MIGRATIONS.map(migration => migration.version));
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Stored entries are plain objects; anything else is read as an empty one
+ */
+function toRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = Number(value);
+  return isNaN(num) ? undefined : num;
+}
+
+/**
+ * Short product placeholders from before site-wide templates, e.g. {name} to {product.name}
+ */
+function expandProductPlaceholders(template: string): string {
+  return template.replace(/\{(name|price|category|type|license)\}/g, (_, field: string) => `{product.${field}}`);
+}
+
+function normalizeStatus(status: unknown): 'active' | 'inactive' {
+  return String(status).toLowerCase() === 'inactive' ? 'inactive' : 'active';
+}
+
+/**
+ * Error raised when a stored payload cannot be upgraded
+ */
+export class MigrationError extends Error {
+  constructor(
+    public readonly key: StorageKeys,
+    public readonly fromVersion: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Upgrades stored payloads to the current schema version
+ */
+export class SchemaMigrator {
+  private static failures: MigrationFailure[] = [];
+
+  /**
+   * Stamp data with the current schema version
+   */
+  static wrap<T>(data: T): VersionedPayload<T> {
+    return { schemaVersion: SCHEMA_VERSION, data };
+  }
+
+  /**
+   * Check whether a stored value carries a version stamp.
+   * Anything written before versioning existed is treated as version 0.
+   */
+  static isVersioned(stored: unknown): stored is VersionedPayload {
+    return !!stored
+      && typeof stored === 'object'
+      && !Array.isArray(stored)
+      && typeof (stored as VersionedPayload).schemaVersion === 'number'
+      && 'data' in (stored as object);
+  }
+
+  /**
+   * Run every pending migration for a key.
+   * Throws MigrationError when a migration fails or the payload is newer than this build.
+   */
+  static upgrade<T>(key: StorageKeys, stored: unknown): { data: T; fromVersion: number; migrated: boolean } {
+    const fromVersion = this.isVersioned(stored) ? stored.schemaVersion : 0;
+    let data: unknown = this.isVersioned(stored) ? stored.data : stored;
+
+    if (fromVersion > SCHEMA_VERSION) {
+      throw new MigrationError(
+        key,
+        fromVersion,
+        `Data was saved with schema v${fromVersion}, but this version only understands v${SCHEMA_VERSION}`
+      );
+    }
+
+    const pending = MIGRATIONS
+      .filter(migration => migration.key === key && migration.version > fromVersion)
+      .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+      try {
+        data = migration.migrate(data);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new MigrationError(key, fromVersion, `Migration v${migration.version} (${migration.description}) failed: ${reason}`);
+      }
+    }
+
+    return { data: data as T, fromVersion, migrated: fromVersion !== SCHEMA_VERSION };
+  }
+
+  static recordFailure(failure: MigrationFailure): void {
+    this.failures = [...this.failures.filter(existing => existing.key !== failure.key), failure];
+    console.error(`❌ Migration failed for ${failure.key}:`, failure.message);
+  }
+
+  /**
+   * Failures recorded since page load, so the admin can surface them
+   */
+  static getFailures(): MigrationFailure[] {
+    return [...this.failures];
+  }
+
+  /**
+   * Whether a key was loaded with defaults because its stored data could not be
+   * upgraded. Writes to it are refused so the defaults never replace that data.
+   */
+  static isBlocked(key: StorageKeys): boolean {
+    return this.failures.some(failure => failure.key === key);
+  }
+
+  /**
+   * Forget a failure once its data was restored or the admin chose to start over
+   */
+  static resolveFailure(key: StorageKeys): void {
+    this.failures = this.failures.filter(failure => failure.key !== key);
+  }
+
+  /**
+   * Storage key holding the untouched payload of a failed migration
+   */
+  static getBackupKey(key: StorageKeys, fromVersion: number): string {
+    return `${key}:backup-v${fromVersion}`;
+  }
+}
+
+export default SchemaMigrator;
@@ -0,0 +1,312 @@
+// Order log for Portfolio Application
+import {
+  Order,
+  OrderLine,
+  OrderStatus,
+  OrderSource,
+  OrderInput,
+  OrderFilter,
+  ParsedOrderMessage,
+  MonthlyOrderTotals,
+  CartLine,
+  CartSummary,
+  CurrencySetting,
+  ProductItem
+} from './types.js';
+import { VariantUtils } from './variants.js';
+import { PromoUtils } from './promotions.js';
+import { BASE_CURRENCY } from './currency.js';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  new: 'Baru',
+  paid: 'Dibayar',
+  delivered: 'Terkirim',
+  cancelled: 'Dibatalkan'
+};
+
+const CSV_COLUMNS = [
+  'ID', 'Tanggal', 'Status', 'Sumber', 'Mata Uang', 'Produk', 'Jumlah Item',
+  'Subtotal', 'Potongan', 'Ongkir', 'Total', 'Total (IDR)', 'Kupon', 'Catatan'
+];
+
+/**
+ * Numbered line of a cart message as written by CartUtils.formatLines,
+ * e.g. "2. Brush Set (Komersial) x2 @ Rp 50.000 - Rp 100.000"
+ */
+const CART_LINE_PATTERN = /^\s*\d+\.\s+(.+?)(?:\s+x(\d+)\s+@\s+[^-]+)?\s+-\s+[^-]+$/;
+
+// "Kupon CODE - hemat ..." in cart messages, "Kode kupon: CODE (...)" in product messages
+const COUPON_PATTERN = /^(?:Kupon|Kode kupon:)\s+([\w-]+)/im;
+
+// "Ongkir Zone (1,2 kg) - Rp ..." in cart messages, "Ongkir Zone (1,2 kg): ..." in product messages
+const SHIPPING_PATTERN = /^Ongkir\s+(.+?)\s+\([^()]*\)(?:\s+-|:)/m;
+
+type ProductName = { name: string; productId: number; variantId: number | undefined };
+
+/**
+ * Orders are recorded by the public site when a visitor sends an order to
+ * WhatsApp, and managed in the admin panel. Like everything else they live
+ * in the browser's storage, so only orders sent from this browser (or
+ * restored from a backup) show up; the admin enters the others by hand or
+ * from the pasted WhatsApp message.
+ */
+export class OrderUtils {
+  /**
+   * Build an order from a priced cart. `summary` is in the visitor's
+   * currency, `baseSummary` the same cart in Rupiah.
+   */
+  static create(
+    orders: Order[],
+    summary: CartSummary,
+    baseSummary: CartSummary,
+    currency: CurrencySetting,
+    source: OrderSource,
+    now: Date = new Date()
+  ): Order {
+    const lines = summary.lines.map(line => {
+      const orderLine: OrderLine = {
+        productId: line.product.id,
+        name: line.name,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        lineTotal: line.lineTotal
+      };
+      if (line.variant) orderLine.variantId = line.variant.id;
+      return orderLine;
+    });
+
+    const order: Order = {
+      id: Math.max(0, ...orders.map(item => item.id)) + 1,
+      createdAt: now.toISOString(),
+      status: 'new',
+      source,
+      currency: currency.code,
+      lines,
+      subtotal: summary.subtotal,
+      discount: summary.discount + PromoUtils.getPromoSavings(summary),
+      total: summary.total,
+      totalIdr: baseSummary.total
+    };
+    if (summary.coupon) order.couponCode = summary.coupon.coupon.code;
+    if (summary.shipping) {
+      order.shipping = summary.shipping.cost;
+      order.shippingZone = summary.shipping.zone.name;
+    }
+
+    return order;
+  }
+
+  /**
+   * Read products, quantities, coupon and shipping zone back from a cart
+   * checkout or product order message. Product names are matched exactly,
+   * with the variant in brackets as the site writes them.
+   */
+  static parseMessage(text: string, products: ProductItem[]): ParsedOrderMessage {
+    const names = products.flatMap<ProductName>(product => {
+      const variants = product.variants || [];
+      return variants.length > 0
+        ? variants.map(variant => ({ name: VariantUtils.getName(product, variant).toLowerCase(), productId: product.id, variantId: variant.id }))
+        : [{ name: product.name.toLowerCase(), productId: product.id, variantId: undefined }];
+    });
+    const toLine = (entry: ProductName, quantity: number): CartLine => {
+      const line: CartLine = { productId: entry.productId, quantity };
+      if (entry.variantId !== undefined) line.variantId = entry.variantId;
+      return line;
+    };
+
+    const result: ParsedOrderMessage = { source: 'cart', lines: [], unmatched: [] };
+    text.split(/\r?\n/).forEach(row => {
+      const match = row.trim().match(CART_LINE_PATTERN);
+      const name = match?.[1]?.trim();
+      if (!name) return;
+
+      const entry = names.find(item => item.name === name.toLowerCase());
+      if (entry) {
+        result.lines.push(toLine(entry, Math.max(1, parseInt(match?.[2] || '1'))));
+      } else {
+        result.unmatched.push(name);
+      }
+    });
+
+    // A product message has no numbered lines; it names one product somewhere in the text
+    if (result.lines.length === 0 && result.unmatched.length === 0) {
+      const lower = text.toLowerCase();
+      const entry = [...names]
+        .sort((a, b) => b.name.length - a.name.length)
+        .find(item => item.name && lower.includes(item.name));
+      if (entry) {
+        result.source = 'direct';
+        result.lines.push(toLine(entry, 1));
+      }
+    }
+
+    const coupon = text.match(COUPON_PATTERN)?.[1];
+    const zone = text.match(SHIPPING_PATTERN)?.[1];
+    if (coupon) result.couponCode = coupon.toUpperCase();
+    if (zone) result.shippingZone = zone.trim();
+
+    return result;
+  }
+
+  /**
+   * Build an order from the admin's order form. Editing keeps the order's
+   * id and invoice; `currency` is the order currency, for the Rupiah total.
+   */
+  static fromInput(
+    orders: Order[],
+    input: OrderInput,
+    currency: CurrencySetting,
+    existing?: Order,
+    now: Date = new Date()
+  ): Order {
+    const round = (amount: number) => Math.round(amount * 100) / 100;
+    const lines = input.lines.map(line => {
+      const orderLine: OrderLine = {
+        productId: line.productId,
+        name: line.name,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        lineTotal: round(line.unitPrice * line.quantity)
+      };
+      if (line.variantId !== undefined) orderLine.variantId = line.variantId;
+      return orderLine;
+    });
+    const itemsTotal = round(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+    const shipping = input.shipping || 0;
+    const total = Math.max(0, round(itemsTotal - input.discount + shipping));
+
+    const order: Order = {
+      id: existing ? existing.id : Math.max(0, ...orders.map(item => item.id)) + 1,
+      createdAt: input.createdAt,
+      status: input.status,
+      source: input.source,
+      currency: input.currency,
+      lines,
+      subtotal: itemsTotal,
+      discount: input.discount,
+      total,
+      totalIdr: currency.code === BASE_CURRENCY.code ? total : Math.round(total * currency.rate)
+    };
+
+    // A currency removed from the settings has no rate left; keep the Rupiah total it was entered with
+    if (currency.rate <= 0 && existing) order.totalIdr = existing.totalIdr;
+
+    if (existing) order.updatedAt = now.toISOString();
+    if (existing?.invoiceNumber) order.invoiceNumber = existing.invoiceNumber;
+    if (existing?.invoicedAt) order.invoicedAt = existing.invoicedAt;
+    if (input.couponCode) order.couponCode = input.couponCode;
+    if (input.note) order.note = input.note;
+    if (input.shippingZone || shipping > 0) {
+      order.shipping = shipping;
+      if (input.shippingZone) order.shippingZone = input.shippingZone;
+    }
+
+    return order;
+  }
+
+  /**
+   * Newest first, narrowed by status, month and a search over products, coupon, note and id
+   */
+  static filter(orders: Order[], filter: OrderFilter): Order[] {
+    const query = filter.query.trim().toLowerCase();
+
+    return orders
+      .filter(order => !filter.status || order.status === filter.status)
+      .filter(order => !filter.month || this.getMonth(order.createdAt) === filter.month)
+      .filter(order => !query || [
+        `#${order.id}`,
+        order.couponCode || '',
+        order.note || '',
+        ...order.lines.map(line => line.name)
+      ].some(text => text.toLowerCase().includes(query)))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Local 'YYYY-MM' of an order date
+   */
+  static getMonth(value: string | Date): string {
+    const date = new Date(value);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  }
+
+  /**
+   * Orders and paid revenue per month, newest month first
+   */
+  static getMonthlyTotals(orders: Order[]): MonthlyOrderTotals[] {
+    const months = new Map<string, MonthlyOrderTotals>();
+
+    orders.forEach(order => {
+      if (order.status === 'cancelled') return;
+
+      const month = this.getMonth(order.createdAt);
+      const totals = months.get(month) || { month, count: 0, paidCount: 0, paidTotal: 0 };
+      totals.count++;
+      if (order.status === 'paid' || order.status === 'delivered') {
+        totals.paidCount++;
+        totals.paidTotal += order.totalIdr;
+      }
+      months.set(month, totals);
+    });
+
+    return [...months.values()].sort((a, b) => b.month.localeCompare(a.month));
+  }
+
+  /**
+   * Month name for a 'YYYY-MM' key, e.g. "Oktober 2026"
+   */
+  static formatMonth(month: string): string {
+    const [year = 0, monthIndex = 1] = month.split('-').map(Number);
+    return new Date(year, monthIndex - 1, 1).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
+  }
+
+  /**
+   * Spreadsheet-friendly export, one row per order
+   */
+  static toCsv(orders: Order[]): string {
+    const rows = orders.map(order => [
+      order.id,
+      order.createdAt,
+      ORDER_STATUS_LABELS[order.status],
+      order.source === 'cart' ? 'Keranjang' : 'Pesan langsung',
+      order.currency,
+      order.lines.map(line => `${line.name} x${line.quantity}`).join('; '),
+      order.lines.reduce((sum, line) => sum + line.quantity, 0),
+      order.subtotal,
+      order.discount,
+      order.shipping ?? '',
+      order.total,
+      order.totalIdr,
+      order.couponCode || '',
+      order.note || ''
+    ]);
+
+    return [CSV_COLUMNS, ...rows]
+      .map(row => row.map(value => this.escapeCsv(String(value))).join(','))
+      .join('\r\n');
+  }
+
+  /**
+   * Trigger a browser download of orders as CSV
+   */
+  static download(orders: Order[], now: Date = new Date()): void {
+    // The byte order mark makes Excel read the file as UTF-8
+    const blob = new Blob(['\uFEFF' + this.toCsv(orders)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `pesanan-${now.toISOString().substring(0, 10)}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  private static escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
+
+export default OrderUtils;
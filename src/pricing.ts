@@ -0,0 +1,89 @@
+// Product pricing and sale windows for Portfolio Application
+import { ProductItem, ProductPrice } from './types.js';
+
+/**
+ * Sale prices shared by the public site, the cart and the admin panel.
+ *
+ * A product is on sale when its originalPrice is above its price. The sale
+ * can be limited to a window with saleStartsAt/saleEndsAt; outside of it the
+ * product sells at its original price and no badge is shown.
+ */
+export class PricingUtils {
+  /**
+   * Price a product at a given moment
+   */
+  static getPrice(product: ProductItem, now: Date = new Date()): ProductPrice {
+    const status = this.getSaleStatus(product, now);
+    const regularPrice = Math.max(product.originalPrice || 0, product.price);
+
+    if (status !== 'active') {
+      return { price: regularPrice, regularPrice, discountPercent: 0, onSale: false };
+    }
+
+    const result: ProductPrice = {
+      price: product.price,
+      regularPrice,
+      discountPercent: Math.round(((regularPrice - product.price) / regularPrice) * 100),
+      onSale: true
+    };
+
+    const endsAt = this.parseDate(product.saleEndsAt);
+    if (endsAt) result.saleEndsAt = endsAt;
+
+    return result;
+  }
+
+  /**
+   * Where a discounted product is relative to its sale window
+   */
+  static getSaleStatus(product: ProductItem, now: Date = new Date()): 'none' | 'scheduled' | 'active' | 'ended' {
+    if (!product.originalPrice || product.originalPrice <= product.price) return 'none';
+
+    const startsAt = this.parseDate(product.saleStartsAt);
+    const endsAt = this.parseDate(product.saleEndsAt);
+
+    if (startsAt && now < startsAt) return 'scheduled';
+    if (endsAt && now >= endsAt) return 'ended';
+    return 'active';
+  }
+
+  /**
+   * Earliest upcoming sale start or end among the products, if any
+   */
+  static getNextChange(products: ProductItem[], now: Date = new Date()): Date | undefined {
+    let next: Date | undefined;
+
+    products.forEach(product => {
+      if (this.getSaleStatus(product, now) === 'none') return;
+
+      [this.parseDate(product.saleStartsAt), this.parseDate(product.saleEndsAt)].forEach(date => {
+        if (date && date > now && (!next || date < next)) next = date;
+      });
+    });
+
+    return next;
+  }
+
+  /**
+   * Time left as "2 hari 03:12:45", or "03:12:45" under a day
+   */
+  static formatCountdown(until: Date, now: Date = new Date()): string {
+    const totalSeconds = Math.max(0, Math.floor((until.getTime() - now.getTime()) / 1000));
+    const days = Math.floor(totalSeconds / 86400);
+    const time = [
+      Math.floor((totalSeconds % 86400) / 3600),
+      Math.floor((totalSeconds % 3600) / 60),
+      totalSeconds % 60
+    ].map(part => String(part).padStart(2, '0')).join(':');
+
+    return days > 0 ? `${days} hari ${time}` : time;
+  }
+
+  private static parseDate(value: string | undefined): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+}
+
+export default PricingUtils;
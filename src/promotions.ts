@@ -0,0 +1,198 @@
+// Coupon codes and product bundles for Portfolio Application
+import {
+  Coupon,
+  ProductBundle,
+  AppliedBundle,
+  CartSummary,
+  CartSummaryLine,
+  Order
+} from './types.js';
+
+/**
+ * Promotions applied on top of sale prices.
+ *
+ * Bundles are detected in the cart automatically: every complete set of a
+ * bundle's products is charged the bundle price instead of the sum of its
+ * items. A coupon code then takes a percentage or fixed amount off what is
+ * left of the eligible (not bundled) products.
+ */
+export class PromoUtils {
+  /**
+   * Codes are matched without case or surrounding spaces
+   */
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  static findCoupon(coupons: Coupon[], code: string): Coupon | undefined {
+    const normalized = this.normalizeCode(code);
+    return normalized ? coupons.find(coupon => coupon.code === normalized) : undefined;
+  }
+
+  /**
+   * Why a coupon cannot be used right now, or undefined when it can
+   */
+  static getCouponError(coupon: Coupon | undefined, now: Date = new Date()): string | undefined {
+    if (!coupon || !coupon.active) return 'Kode kupon tidak ditemukan';
+
+    const startsAt = this.parseDate(coupon.startsAt);
+    const endsAt = this.parseDate(coupon.endsAt);
+    if (startsAt && now < startsAt) return 'Kupon belum berlaku';
+    if (endsAt && now >= endsAt) return 'Kupon sudah berakhir';
+    if (coupon.usageLimit && (coupon.usedCount || 0) >= coupon.usageLimit) return 'Kuota kupon sudah habis';
+
+    return undefined;
+  }
+
+  /**
+   * Apply bundles and a coupon code to a priced cart
+   */
+  static apply(
+    summary: CartSummary,
+    bundles: ProductBundle[],
+    coupons: Coupon[],
+    code: string,
+    now: Date = new Date()
+  ): CartSummary {
+    const result: CartSummary = { ...summary, bundles: this.findBundles(summary.lines, bundles) };
+    delete result.coupon;
+    delete result.couponError;
+
+    const bundleSavings = result.bundles.reduce((sum, applied) => sum + applied.savings, 0);
+    let couponSavings = 0;
+
+    // An empty cart keeps the code for later without judging it
+    if (this.normalizeCode(code) && summary.lines.length > 0) {
+      const coupon = this.findCoupon(coupons, code);
+      const error = this.getCouponError(coupon, now);
+
+      if (coupon && !error) {
+        const eligible = this.getEligibleAmount(summary.lines, result.bundles, coupon);
+        couponSavings = coupon.type === 'percent'
+          ? Math.round(eligible * Math.min(100, coupon.value) / 100)
+          : Math.min(coupon.value, eligible);
+
+        if (couponSavings > 0) {
+          result.coupon = { coupon, savings: couponSavings };
+        } else {
+          result.couponError = 'Kupon tidak berlaku untuk produk yang dipilih';
+        }
+      } else if (error) {
+        result.couponError = error;
+      }
+    }
+
+    result.total = summary.total - bundleSavings - couponSavings;
+    return result;
+  }
+
+  /**
+   * Savings from bundles and the coupon, on top of sale prices
+   */
+  static getPromoSavings(summary: CartSummary): number {
+    return summary.bundles.reduce((sum, applied) => sum + applied.savings, 0) + (summary.coupon?.savings || 0);
+  }
+
+  /**
+   * Complete sets of each bundle in the cart. Bundles saving the most are
+   * filled first, and each unit counts towards one bundle only.
+   */
+  static findBundles(lines: CartSummaryLine[], bundles: ProductBundle[]): AppliedBundle[] {
+    const units = new Map<number, { count: number; unitPrice: number }>();
+    lines.forEach(line => {
+      const entry = units.get(line.product.id);
+      units.set(line.product.id, {
+        count: (entry?.count || 0) + line.quantity,
+        unitPrice: Math.min(entry?.unitPrice ?? line.unitPrice, line.unitPrice)
+      });
+    });
+
+    const setSavings = (bundle: ProductBundle): number => {
+      const setPrice = bundle.productIds.reduce((sum, id) => sum + (units.get(id)?.unitPrice || 0), 0);
+      return setPrice - bundle.price;
+    };
+
+    const candidates = bundles
+      .filter(bundle => bundle.active && bundle.productIds.length > 1 && bundle.productIds.every(id => units.has(id)))
+      .filter(bundle => setSavings(bundle) > 0)
+      .sort((a, b) => setSavings(b) - setSavings(a));
+
+    const applied: AppliedBundle[] = [];
+    candidates.forEach(bundle => {
+      const count = Math.min(...bundle.productIds.map(id => units.get(id)?.count || 0));
+      if (count <= 0) return;
+
+      const savings = setSavings(bundle) * count;
+      bundle.productIds.forEach(id => {
+        const entry = units.get(id);
+        if (entry) entry.count -= count;
+      });
+      applied.push({ bundle, count, savings });
+    });
+
+    return applied;
+  }
+
+  /**
+   * Amount a coupon can take off: eligible lines, minus the units sold in bundles
+   */
+  private static getEligibleAmount(lines: CartSummaryLine[], bundles: AppliedBundle[], coupon: Coupon): number {
+    const categories = coupon.categories || [];
+    const isEligible = (line: CartSummaryLine) => categories.length === 0 || categories.includes(line.product.category || '');
+
+    const eligibleLines = lines.filter(isEligible);
+    let amount = eligibleLines.reduce((sum, line) => sum + line.lineTotal, 0);
+
+    bundles.forEach(({ bundle, count }) => {
+      bundle.productIds.forEach(id => {
+        const productLines = eligibleLines.filter(line => line.product.id === id);
+        if (productLines.length === 0) return;
+        amount -= Math.min(...productLines.map(line => line.unitPrice)) * count;
+      });
+    });
+
+    return Math.max(0, amount);
+  }
+
+  /**
+   * Point coupons limited to one product category at another; returns the number of coupons changed
+   */
+  static reassignCategory(coupons: Coupon[], fromSlug: string, toSlug: string): number {
+    let count = 0;
+    coupons.forEach(coupon => {
+      if (!coupon.categories?.includes(fromSlug)) return;
+      coupon.categories = [...new Set(coupon.categories.map(slug => slug === fromSlug ? toSlug : slug))];
+      count++;
+    });
+    return count;
+  }
+
+  /**
+   * Set each coupon's use count from the order log: orders with its code that
+   * were not cancelled. Returns whether any count changed.
+   */
+  static countUses(coupons: Coupon[], orders: Order[]): boolean {
+    let changed = false;
+    coupons.forEach(coupon => {
+      const used = orders.filter(order => order.status !== 'cancelled'
+        && order.couponCode && this.normalizeCode(order.couponCode) === coupon.code).length;
+      if (used === (coupon.usedCount || 0)) return;
+
+      if (used > 0) coupon.usedCount = used; else delete coupon.usedCount;
+      changed = true;
+    });
+    return changed;
+  }
+
+  static nextId(items: { id: number }[]): number {
+    return Math.max(0, ...items.map(item => item.id)) + 1;
+  }
+
+  private static parseDate(value: string | undefined): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+}
+
+export default PromoUtils;
@@ -2,6 +2,24 @@
 import { 
   PortfolioItem, 
   ProductItem, 
+  PortfolioCategory,
+  ProductCategory,
+  ProductVariant,
+  PortfolioFilter,
+  LightboxItem,
+  CartLine,
+  CartSummary,
+  Coupon,
+  ProductBundle,
+  CurrencySetting,
+  ShippingZone,
+  Order,
+  OrderSource,
+  RestockRequest,
+  PortfolioImage,
+  SiteRoute,
+  RouteKind,
+  PagingMode,
   SiteSettings, 
   DOMElements,
   StorageKeys,
@@ -22,6 +40,20 @@ import {
   FormatUtils
 } from './utils.js';
 
+import { AsyncStorage } from './storage.js';
+import { CategoryUtils, DEFAULT_CATEGORIES, DEFAULT_PRODUCT_CATEGORIES } from './categories.js';
+import { LayoutUtils, THUMBNAIL_SIZES } from './layout.js';
+import { Lightbox } from './lightbox.js';
+import { CartUtils } from './cart.js';
+import { TemplateUtils } from './templates.js';
+import { PricingUtils } from './pricing.js';
+import { VariantUtils } from './variants.js';
+import { PromoUtils } from './promotions.js';
+import { CurrencyUtils, BASE_CURRENCY } from './currency.js';
+import { OrderUtils } from './orders.js';
+import { StockUtils } from './stock.js';
+import { ShippingUtils } from './shipping.js';
+
 /**
  * Main Portfolio Application Class
  */
@@ -29,6 +61,23 @@ class PortfolioApp {
   private domElements: DOMElements;
   private portfolioData: PortfolioItem[] = [];
   private productsData: ProductItem[] = [];
+  private categories: PortfolioCategory[] = [];
+  private productCategories: ProductCategory[] = [];
+  private portfolioCards = new Map<number, HTMLElement>();
+  private portfolioFilter: PortfolioFilter = { category: '', query: '', page: 1 };
+  private filteredPortfolio: PortfolioItem[] = [];
+  private pageObserver: IntersectionObserver | null = null;
+  private imageObserver: IntersectionObserver | null = null;
+  private preloadedImages = new Set<string>();
+  private layoutFrame: number | null = null;
+  private cart: CartLine[] = [];
+  private couponCode = '';
+  private destinationId = 0; // Shipping zone picked in the cart
+  private coupons: Coupon[] = [];
+  private bundles: ProductBundle[] = [];
+  private currency: CurrencySetting = BASE_CURRENCY;
+  private saleTimer: number | null = null;
+  private lightbox = new Lightbox();
   private siteSettings: SiteSettings;
   private observer: IntersectionObserver | null = null;
   private isInitialized = false;
@@ -48,7 +97,6 @@ class PortfolioApp {
       navMenu: DOMUtils.querySelector<HTMLElement>('.nav-menu'),
       navLinks: DOMUtils.querySelectorAll<HTMLElement>('.nav-link'),
       sections: DOMUtils.querySelectorAll<HTMLElement>('.section'),
-      productButtons: DOMUtils.querySelectorAll<HTMLElement>('.btn-primary'),
       portfolioItems: DOMUtils.querySelectorAll<HTMLElement>('.portfolio-item')
     };
   }
@@ -78,6 +126,7 @@ class PortfolioApp {
       this.setupEventListeners();
       this.setupIntersectionObserver();
       await this.renderContent();
+      this.setupRouter();
       this.setupPerformanceOptimizations();
       
       this.isInitialized = true;
@@ -91,30 +140,53 @@ class PortfolioApp {
   }
 
   /**
-   * Load data from localStorage with fallbacks
+   * Load data from IndexedDB with fallbacks
    */
   private async loadData(): Promise<void> {
     PerformanceUtils.mark('data-load-start');
 
-    // Load portfolio data
-    this.portfolioData = SafeStorage.get(StorageKeys.PORTFOLIO_DATA, this.getDefaultPortfolio());
-    
-    // Load products data
-    this.productsData = SafeStorage.get(StorageKeys.PRODUCTS_DATA, this.getDefaultProducts());
-    
+    await this.loadPortfolioData();
+    await this.loadShopData();
+
     // Load site settings
-    this.siteSettings = SafeStorage.get(StorageKeys.SITE_SETTINGS, this.getDefaultSettings());
+    this.siteSettings = await AsyncStorage.get(StorageKeys.SITE_SETTINGS, this.getDefaultSettings());
+
+    PerformanceUtils.measure('Data Loading', 'data-load-start');
+  }
+
+  /**
+   * Load portfolio items and the categories managed in the admin panel
+   */
+  private async loadPortfolioData(): Promise<void> {
+    const storedPortfolio = await AsyncStorage.get<PortfolioItem[] | null>(StorageKeys.PORTFOLIO_DATA, null);
+    this.portfolioData = storedPortfolio || this.getDefaultPortfolio();
+
+    const storedCategories = await AsyncStorage.get<PortfolioCategory[]>(StorageKeys.CATEGORIES, DEFAULT_CATEGORIES);
+    this.categories = CategoryUtils.withMissing(storedCategories, this.portfolioData, base => base);
 
     // Initialize default data if not exists
-    if (!SafeStorage.get(StorageKeys.PORTFOLIO_DATA, null)) {
-      SafeStorage.set(StorageKeys.PORTFOLIO_DATA, this.portfolioData);
-    }
-    
-    if (!SafeStorage.get(StorageKeys.PRODUCTS_DATA, null)) {
-      SafeStorage.set(StorageKeys.PRODUCTS_DATA, this.productsData);
+    if (!storedPortfolio) {
+      await AsyncStorage.set(StorageKeys.PORTFOLIO_DATA, this.portfolioData);
     }
+  }
 
-    PerformanceUtils.measure('Data Loading', 'data-load-start');
+  /**
+   * Load products, their categories, and the coupon codes and bundles for the cart
+   */
+  private async loadShopData(): Promise<void> {
+    const storedProducts = await AsyncStorage.get<ProductItem[] | null>(StorageKeys.PRODUCTS_DATA, null);
+    this.productsData = storedProducts || this.getDefaultProducts();
+
+    const storedProductCategories = await AsyncStorage.get<ProductCategory[]>(StorageKeys.PRODUCT_CATEGORIES, DEFAULT_PRODUCT_CATEGORIES);
+    this.productCategories = CategoryUtils.withMissing(storedProductCategories, this.productsData, CategoryUtils.createProductCategory);
+
+    this.coupons = await AsyncStorage.get<Coupon[]>(StorageKeys.COUPONS, []);
+    this.bundles = await AsyncStorage.get<ProductBundle[]>(StorageKeys.BUNDLES, []);
+
+    // Initialize default data if not exists
+    if (!storedProducts) {
+      await AsyncStorage.set(StorageKeys.PRODUCTS_DATA, this.productsData);
+    }
   }
 
   /**
@@ -144,14 +216,37 @@ class PortfolioApp {
       );
     }
 
-    // Product buttons
-    if (this.domElements.productButtons) {
-      DOMUtils.addEventListeners(
-        this.domElements.productButtons,
-        'click',
-        this.handleProductButtonClick
-      );
-    }
+    // Product buttons are rendered later, so listen on the grid
+    const productsGrid = DOMUtils.getElementById<HTMLElement>('productsGrid');
+    productsGrid?.addEventListener('click', (event: Event) => {
+      const target = event.target as HTMLElement;
+      const cartButton = target.closest<HTMLElement>('[data-cart-add]');
+      const orderButton = target.closest<HTMLElement>('[data-product-id]');
+      const detailLink = target.closest<HTMLElement>('[data-product-detail]');
+
+      if (cartButton) {
+        this.addToCart(parseInt(cartButton.dataset.cartAdd || '0'), cartButton);
+      } else if (orderButton) {
+        this.handleProductButtonClick(event, orderButton);
+      } else if (detailLink) {
+        this.navigate(this.getRouteHash('shop', parseInt(detailLink.dataset.productDetail || '0')));
+      }
+    });
+    productsGrid?.addEventListener('change', (event: Event) => this.handleVariantChange(event));
+    productsGrid?.addEventListener('submit', (event: Event) => this.handleRestockSubmit(event));
+
+    // Shopping cart drawer
+    this.setupCart();
+
+    // Currency switcher
+    DOMUtils.getElementById<HTMLSelectElement>('currencySelect')
+      ?.addEventListener('change', (event: Event) => this.setCurrency((event.target as HTMLSelectElement).value));
+
+    // Portfolio category filter and search
+    this.setupPortfolioFilters();
+
+    // Pick up changes saved in the admin panel while this page is open
+    AsyncStorage.subscribe(key => this.handleStorageChange(key));
 
     // Window events with throttling/debouncing
     window.addEventListener('scroll', throttle(this.handleScroll, 16)); // ~60fps
@@ -193,11 +288,13 @@ class PortfolioApp {
   private async renderContent(): Promise<void> {
     PerformanceUtils.mark('render-start');
 
+    this.applyCurrencySettings();
     await Promise.all([
       this.renderPortfolioItems(),
       this.renderProductItems(),
       this.applySiteSettings()
     ]);
+    this.renderCart();
 
     PerformanceUtils.measure('Content Rendering', 'render-start');
   }
@@ -210,16 +307,263 @@ class PortfolioApp {
     if (!container || this.portfolioData.length === 0) return;
 
     container.innerHTML = '';
+    this.portfolioCards.clear();
 
-    const fragment = document.createDocumentFragment();
+    this.applyPortfolioFilter(false);
+  }
+
+  /**
+   * Setup the category filter bar and search box, starting from the URL state
+   */
+  private setupPortfolioFilters(): void {
+    const params = new URLSearchParams(window.location.search);
+    this.portfolioFilter = {
+      category: params.get('category') || '',
+      query: params.get('q') || '',
+      page: Math.max(1, parseInt(params.get('page') || '1') || 1)
+    };
+
+    const filterBar = DOMUtils.getElementById<HTMLElement>('categoryFilterBar');
+    filterBar?.addEventListener('click', (event: Event) => {
+      const button = (event.target as HTMLElement).closest<HTMLElement>('.filter-btn');
+      if (!button) return;
+
+      this.portfolioFilter.category = button.dataset.category || '';
+      this.portfolioFilter.page = 1;
+      this.applyPortfolioFilter();
+    });
 
-    for (const item of this.portfolioData) {
-      const portfolioCard = this.createPortfolioCard(item);
-      fragment.appendChild(portfolioCard);
+    const searchInput = DOMUtils.getElementById<HTMLInputElement>('portfolioSearch');
+    if (searchInput) {
+      searchInput.value = this.portfolioFilter.query;
+      searchInput.addEventListener('input', debounce(() => {
+        this.portfolioFilter.query = searchInput.value.trim();
+        this.portfolioFilter.page = 1;
+        this.applyPortfolioFilter();
+      }, 200));
+    }
+
+    const pagination = DOMUtils.getElementById<HTMLElement>('portfolioPagination');
+    pagination?.addEventListener('click', (event: Event) => {
+      const button = (event.target as HTMLElement).closest<HTMLButtonElement>('button[data-page]');
+      if (!button || button.disabled) return;
+
+      this.goToPortfolioPage(parseInt(button.dataset.page || '1'));
+    });
+  }
+
+  /**
+   * Show only the portfolio items matching the current filter
+   */
+  private applyPortfolioFilter(animate = true): void {
+    const showCategories = this.siteSettings.showCategories !== false;
+    const knownCategory = this.categories.some(category => category.slug === this.portfolioFilter.category);
+    if (!showCategories || !knownCategory) {
+      this.portfolioFilter.category = '';
+    }
+
+    const { category, query } = this.portfolioFilter;
+    const searchMatches = this.portfolioData.filter(item => this.matchesSearch(item, query));
+    this.filteredPortfolio = searchMatches.filter(item => !category || item.category === category);
+
+    this.renderCategoryFilterBar(searchMatches, showCategories);
+    this.renderPortfolioPage(animate);
+
+    const emptyMessage = DOMUtils.getElementById<HTMLElement>('portfolioEmpty');
+    if (emptyMessage) emptyMessage.hidden = this.filteredPortfolio.length > 0;
+  }
+
+  /**
+   * Get the paging mode and page size from settings
+   */
+  private getPaging(): { mode: PagingMode; perPage: number } {
+    return {
+      mode: this.siteSettings.pagingMode || 'load-more',
+      perPage: this.siteSettings.itemsPerPage || 9
+    };
+  }
+
+  /**
+   * Render the cards of the current page. Numbered pages show one page;
+   * "load more" and infinite scroll show every page up to the current one.
+   */
+  private renderPortfolioPage(animate = true): void {
+    const container = DOMUtils.getElementById<HTMLElement>('portfolioGrid');
+    if (!container) return;
+
+    const { mode, perPage } = this.getPaging();
+    const pageCount = Math.max(1, Math.ceil(this.filteredPortfolio.length / perPage));
+    const page = Math.min(this.portfolioFilter.page, pageCount);
+    this.portfolioFilter.page = page;
+
+    const start = mode === 'pages' ? (page - 1) * perPage : 0;
+    const pageItems = this.filteredPortfolio.slice(start, page * perPage);
+
+    // Cards are created on first display and reused afterwards
+    const cards = pageItems.map(item => {
+      let card = this.portfolioCards.get(item.id);
+      if (!card) {
+        card = this.createPortfolioCard(item);
+        this.portfolioCards.set(item.id, card);
+      }
+      return card;
+    });
+
+    const previousCards = Array.from(container.children) as HTMLElement[];
+    const updateCards = () => {
+      container.replaceChildren(...cards);
+      this.layoutPortfolio();
+    };
+
+    const reduceMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+    if (animate && this.siteSettings.enableAnimations !== false && !reduceMotion) {
+      AnimationUtils.flip([...new Set([...previousCards, ...cards])], updateCards);
+    } else {
+      updateCards();
     }
 
-    container.appendChild(fragment);
     this.setupLazyLoading();
+    this.renderPagination(page, pageCount, mode);
+    this.preloadImages(this.filteredPortfolio.slice(page * perPage, (page + 1) * perPage));
+    this.updateFilterUrl();
+  }
+
+  /**
+   * Render page numbers, the "load more" button or the infinite scroll sentinel
+   */
+  private renderPagination(page: number, pageCount: number, mode: PagingMode): void {
+    const pagination = DOMUtils.getElementById<HTMLElement>('portfolioPagination');
+    if (!pagination) return;
+
+    this.pageObserver?.disconnect();
+    this.pageObserver = null;
+
+    const hasMore = page < pageCount;
+
+    if (mode === 'pages') {
+      const numbers = Array.from({ length: pageCount }, (_, index) => index + 1);
+      pagination.innerHTML = pageCount <= 1 ? '' : `
+        <button type="button" class="page-btn" data-page="${page - 1}" ${page === 1 ? 'disabled' : ''} aria-label="Halaman sebelumnya">
+          <i class="fas fa-chevron-left"></i>
+        </button>
+        ${numbers.map(number => `
+          <button type="button" class="page-btn${number === page ? ' active' : ''}" data-page="${number}" ${number === page ? 'aria-current="page"' : ''}>${number}</button>
+        `).join('')}
+        <button type="button" class="page-btn" data-page="${page + 1}" ${hasMore ? '' : 'disabled'} aria-label="Halaman berikutnya">
+          <i class="fas fa-chevron-right"></i>
+        </button>
+      `;
+    } else if (mode === 'load-more') {
+      pagination.innerHTML = hasMore ? `
+        <button type="button" class="btn-primary load-more-btn" data-page="${page + 1}">
+          Muat Lebih Banyak
+        </button>
+      ` : '';
+    } else {
+      pagination.innerHTML = hasMore ? '<div class="page-sentinel" aria-hidden="true"></div>' : '';
+
+      const sentinel = pagination.querySelector<HTMLElement>('.page-sentinel');
+      if (sentinel) {
+        this.pageObserver = new IntersectionObserver(entries => {
+          if (entries.some(entry => entry.isIntersecting)) {
+            this.goToPortfolioPage(page + 1);
+          }
+        }, { rootMargin: '300px 0px' });
+        this.pageObserver.observe(sentinel);
+      }
+    }
+  }
+
+  /**
+   * Show another page of portfolio items
+   */
+  private goToPortfolioPage(page: number): void {
+    if (page < 1 || page === this.portfolioFilter.page) return;
+
+    this.portfolioFilter.page = page;
+    this.renderPortfolioPage();
+
+    // Numbered pages replace the grid, so bring its top back into view
+    if (this.getPaging().mode === 'pages') {
+      DOMUtils.getElementById<HTMLElement>('portfolioFilters')?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }
+
+  /**
+   * Preload the images of items that are about to be shown
+   */
+  private preloadImages(items: PortfolioItem[]): void {
+    items.forEach(item => {
+      const src = item.thumbnail || item.image;
+      if (!src || src.startsWith('data:') || this.preloadedImages.has(src)) return;
+
+      this.preloadedImages.add(src);
+      const link = document.createElement('link');
+      link.rel = 'preload';
+      link.as = 'image';
+      link.href = src;
+      document.head.appendChild(link);
+    });
+  }
+
+  /**
+   * Render category buttons with the number of items matching the search
+   */
+  private renderCategoryFilterBar(searchMatches: PortfolioItem[], showCategories: boolean): void {
+    const filterBar = DOMUtils.getElementById<HTMLElement>('categoryFilterBar');
+    if (!filterBar) return;
+
+    filterBar.hidden = !showCategories;
+    if (!showCategories) return;
+
+    // Only offer categories that have items at all
+    const usedCategories = CategoryUtils.sort(this.categories)
+      .filter(category => CategoryUtils.countItems(this.portfolioData, category.slug) > 0);
+
+    const buttons = [
+      { slug: '', label: 'Semua', count: searchMatches.length },
+      ...usedCategories.map(category => ({
+        slug: category.slug,
+        label: category.label,
+        count: CategoryUtils.countItems(searchMatches, category.slug)
+      }))
+    ];
+
+    filterBar.innerHTML = buttons.map(button => {
+      const isActive = button.slug === this.portfolioFilter.category;
+      return `
+        <button type="button" class="filter-btn${isActive ? ' active' : ''}" data-category="${button.slug}" aria-pressed="${isActive}">
+          ${button.label}<span class="filter-count">${button.count}</span>
+        </button>
+      `;
+    }).join('');
+  }
+
+  /**
+   * Check whether every search word appears in the item title or description
+   */
+  private matchesSearch(item: PortfolioItem, query: string): boolean {
+    if (!query) return true;
+
+    const haystack = `${item.title} ${item.description || ''}`.toLowerCase();
+    return query.toLowerCase().split(/\s+/).every(word => haystack.includes(word));
+  }
+
+  /**
+   * Reflect the filter in the URL so a filtered view can be shared
+   */
+  private updateFilterUrl(): void {
+    const url = new URL(window.location.href);
+    const { category, query, page } = this.portfolioFilter;
+    const showPage = this.getPaging().mode === 'pages' && page > 1;
+
+    if (category) url.searchParams.set('category', category); else url.searchParams.delete('category');
+    if (query) url.searchParams.set('q', query); else url.searchParams.delete('q');
+    if (showPage) url.searchParams.set('page', String(page)); else url.searchParams.delete('page');
+
+    if (url.href !== window.location.href) {
+      history.replaceState(history.state, '', url.href);
+    }
   }
 
   /**
@@ -227,9 +571,13 @@ class PortfolioApp {
    */
   private createPortfolioCard(item: PortfolioItem): HTMLElement {
     const card = DOMUtils.createElement<HTMLDivElement>('div', 'portfolio-item');
+    const size = LayoutUtils.getSize(item.size);
+    card.dataset.size = size;
     
-    // Set aspect ratio based on image
-    card.style.setProperty('--portfolio-aspect-ratio', '3/4');
+    // Stored image size lets the masonry layout place the card before the image loads
+    const ratio = LayoutUtils.ratioFromSize(item.imageWidth, item.imageHeight)
+      ?? (item.size ? THUMBNAIL_SIZES[size].ratio : undefined);
+    if (ratio) this.setCardRatio(card, ratio);
     
     // Use placeholder if image is empty or invalid
     const imageUrl = item.thumbnail || item.image || ImageUtils.createPlaceholder(400, 300, item.title);
@@ -250,17 +598,29 @@ class PortfolioApp {
       <div class="portfolio-content">
         <h3>${item.title}</h3>
         <p class="portfolio-category">${this.getCategoryName(item.category)}</p>
+        ${item.description ? `<p class="portfolio-excerpt">${FormatUtils.truncateText(item.description, 160)}</p>` : ''}
       </div>
     `;
 
+    // Items saved without a size get it from the image once it loads
+    if (!ratio) {
+      card.querySelector('img')?.addEventListener('load', (event) => {
+        const img = event.target as HTMLImageElement;
+        if (!card.dataset.ratio && img.naturalWidth && img.naturalHeight) {
+          this.setCardRatio(card, img.naturalWidth / img.naturalHeight);
+          this.scheduleLayout();
+        }
+      });
+    }
+
     // Add click handler for card
     card.addEventListener('click', (e) => {
       // Check if clicked element is the preview button
       if ((e.target as HTMLElement).closest('.preview-btn')) {
         e.stopPropagation();
-        this.showImagePreview(item.image, item.title);
+        this.openLightbox(item);
       } else {
-        this.showPortfolioModal(item);
+        this.navigate(this.getRouteHash('work', item.id));
       }
     });
 
@@ -285,6 +645,164 @@ class PortfolioApp {
     }
 
     container.appendChild(fragment);
+    this.startSaleTimer();
+  }
+
+  /**
+   * Variant picker for products sold in several license tiers
+   */
+  private renderVariantSelect(product: ProductItem): string {
+    const variants = VariantUtils.getActive(product);
+    if (variants.length === 0) return '';
+
+    const options = variants.map(variant => {
+      return `<option value="${variant.id}">${this.getVariantLabel(product, variant)}</option>`;
+    }).join('');
+
+    return `
+      <label class="variant-select">
+        <span>Pilih varian</span>
+        <select data-variant-select="${product.id}">${options}</select>
+      </label>
+    `;
+  }
+
+  private getVariantLabel(product: ProductItem, variant: ProductVariant): string {
+    const sold = VariantUtils.apply(product, variant);
+    return `${variant.name} - ${this.formatProductPrice(PricingUtils.getPrice(sold).price, sold)}`;
+  }
+
+  /**
+   * License and price of the selected variant, swapped when the selection changes
+   */
+  private renderProductOffer(product: ProductItem, variant: ProductVariant | undefined): string {
+    const sold = VariantUtils.apply(product, variant);
+    const license = sold.license || CategoryUtils.find(this.productCategories, product.category)?.defaultLicense;
+
+    return `
+      ${license ? `<p class="product-license"><i class="fas fa-certificate"></i> ${license}</p>` : ''}
+      ${this.renderProductPrice(sold)}
+    `;
+  }
+
+  private renderSaleBadge(product: ProductItem, variant: ProductVariant | undefined): string {
+    const { onSale, discountPercent } = PricingUtils.getPrice(VariantUtils.apply(product, variant));
+    return `<span class="sale-badge" ${onSale ? '' : 'hidden'}>-${discountPercent}%</span>`;
+  }
+
+  /**
+   * "Stok habis" or "Tinggal N lagi" over the image of a tracked physical product
+   */
+  private renderStockBadge(product: ProductItem): string {
+    const label = StockUtils.getLabel(product);
+    if (!label) return '';
+    return `<span class="stock-badge ${StockUtils.isSoldOut(product) ? 'sold-out' : 'low'}">${label}</span>`;
+  }
+
+  /**
+   * Replaces the order buttons of a sold-out product
+   */
+  private renderRestockForm(product: ProductItem): string {
+    return `
+      <form class="restock-form" data-restock="${product.id}">
+        <p>Stok sedang habis. Tinggalkan nomor WhatsApp atau email untuk dikabari saat tersedia lagi.</p>
+        <div class="restock-fields">
+          <input type="text" name="contact" placeholder="No. WhatsApp atau email" autocomplete="email" aria-label="No. WhatsApp atau email" required>
+          <button type="submit" class="btn btn-primary"><i class="fas fa-bell"></i> Kabari Saya</button>
+        </div>
+        <p class="restock-message" hidden></p>
+      </form>
+    `;
+  }
+
+  /**
+   * Variant chosen on the card or modal a button belongs to
+   */
+  private getSelectedVariant(element: HTMLElement, product: ProductItem): ProductVariant | undefined {
+    const select = element.closest('.product-card, .product-modal')?.querySelector<HTMLSelectElement>('[data-variant-select]');
+    return VariantUtils.find(product, select ? parseInt(select.value) : undefined);
+  }
+
+  /**
+   * Show the price, license and sale badge of a newly selected variant
+   */
+  private handleVariantChange(event: Event): void {
+    const select = (event.target as HTMLElement).closest<HTMLSelectElement>('[data-variant-select]');
+    const container = select?.closest<HTMLElement>('.product-card, .product-modal');
+    const product = this.productsData.find(p => p.id === parseInt(select?.dataset.variantSelect || '0'));
+    if (!select || !container || !product) return;
+
+    const variant = this.getSelectedVariant(select, product);
+    const offer = container.querySelector<HTMLElement>('.product-offer');
+    if (offer) offer.innerHTML = this.renderProductOffer(product, variant);
+
+    const badge = container.querySelector<HTMLElement>('.sale-badge');
+    if (badge) badge.outerHTML = this.renderSaleBadge(product, variant);
+
+    if (container.classList.contains('product-modal')) this.renderProductCoupon(container, product);
+  }
+
+  /**
+   * Price block with the struck-through regular price and sale countdown
+   */
+  private renderProductPrice(product: ProductItem): string {
+    const { price, regularPrice, onSale, saleEndsAt } = PricingUtils.getPrice(product);
+
+    return `
+      <div class="product-price">
+        ${onSale ? `<span class="original-price">${this.formatProductPrice(regularPrice, product)}</span>` : ''}
+        <span class="current-price">${this.formatProductPrice(price, product)}</span>
+      </div>
+      ${saleEndsAt ? `
+        <p class="sale-countdown">
+          <i class="fas fa-clock"></i> Promo berakhir dalam
+          <span data-sale-ends="${saleEndsAt.toISOString()}">${PricingUtils.formatCountdown(saleEndsAt)}</span>
+        </p>
+      ` : ''}
+    `;
+  }
+
+  /**
+   * A price of a product (as sold) in the visitor's currency
+   */
+  private formatProductPrice(amount: number, product: ProductItem): string {
+    return CurrencyUtils.format(CurrencyUtils.convertPrice(amount, this.currency, product), this.currency);
+  }
+
+  /**
+   * An amount already converted to the visitor's currency, e.g. from a cart summary
+   */
+  private formatPrice(amount: number): string {
+    return CurrencyUtils.format(amount, this.currency);
+  }
+
+  /**
+   * Tick sale countdowns, and re-price products and the cart when a sale starts or ends
+   */
+  private startSaleTimer(): void {
+    if (this.saleTimer !== null) {
+      clearInterval(this.saleTimer);
+      this.saleTimer = null;
+    }
+
+    // A countdown is only shown for a sale that has an end ahead of it
+    const nextChange = PricingUtils.getNextChange(
+      this.productsData.filter(product => product.status === 'active').flatMap(product => VariantUtils.expand(product))
+    );
+    if (!nextChange) return;
+
+    this.saleTimer = window.setInterval(() => {
+      const now = new Date();
+      if (now >= nextChange) {
+        this.renderProductItems();
+        this.renderCart();
+        return;
+      }
+
+      DOMUtils.querySelectorAll<HTMLElement>('[data-sale-ends]').forEach(countdown => {
+        countdown.textContent = PricingUtils.formatCountdown(new Date(countdown.dataset.saleEnds || ''), now);
+      });
+    }, 1000);
   }
 
   /**
@@ -292,20 +810,33 @@ class PortfolioApp {
    */
   private createProductCard(product: ProductItem): HTMLElement {
     const card = DOMUtils.createElement<HTMLDivElement>('div', 'product-card');
+    const category = CategoryUtils.find(this.productCategories, product.category);
+    const variant = VariantUtils.find(product);
     
     card.innerHTML = `
-      <div class="product-image">
+      <div class="product-image" data-product-detail="${product.id}" title="Lihat detail produk">
         <img src="${product.image}" 
              alt="${product.name}" 
              loading="lazy">
+        ${this.renderSaleBadge(product, variant)}
+        ${this.renderStockBadge(product)}
       </div>
       <div class="product-info">
-        <h3>${product.name}</h3>
+        ${category ? `<span class="product-category"><i class="${category.icon}"></i> ${category.label}</span>` : ''}
+        <h3><button type="button" class="product-title-link" data-product-detail="${product.id}">${product.name}</button></h3>
         <p class="product-description">${product.description}</p>
-        <div class="product-price">${FormatUtils.formatPrice(product.price)}</div>
-        <button class="btn btn-primary" data-product-id="${product.id}">
-          <i class="fab fa-whatsapp"></i> Pesan Sekarang
-        </button>
+        ${this.renderVariantSelect(product)}
+        <div class="product-offer">${this.renderProductOffer(product, variant)}</div>
+        ${StockUtils.isSoldOut(product) ? this.renderRestockForm(product) : `
+          <div class="product-actions">
+            <button class="btn btn-primary" data-cart-add="${product.id}">
+              <i class="fas fa-cart-plus"></i> Tambah ke Keranjang
+            </button>
+            <button class="btn-order-direct" data-product-id="${product.id}" title="Pesan langsung via WhatsApp">
+              <i class="fab fa-whatsapp"></i>
+            </button>
+          </div>
+        `}
       </div>
     `;
 
@@ -357,49 +888,51 @@ class PortfolioApp {
   }
 
   /**
-   * Update WhatsApp links with phone number
+   * Point the general contact links at WhatsApp with the contact message
    */
   private updateWhatsAppLinks(): void {
-    const phoneNumber = this.siteSettings.whatsappNumber;
-    const whatsappLinks = DOMUtils.querySelectorAll<HTMLAnchorElement>('a[href*="whatsapp"]');
-    
-    whatsappLinks.forEach(link => {
-      const productId = link.dataset.productId;
-      let message = 'Halo, saya tertarik dengan portfolio Anda.';
-      
-      if (productId) {
-        const product = this.productsData.find(p => p.id.toString() === productId);
-        if (product) {
-          message = `Halo, saya tertarik dengan produk "${product.name}" seharga ${FormatUtils.formatPrice(product.price)}.`;
-        }
-      }
-      
-      link.href = `https://wa.me/${phoneNumber}?text=${encodeURIComponent(message)}`;
+    const message = TemplateUtils.render(
+      TemplateUtils.get(this.siteSettings, 'contact'),
+      TemplateUtils.siteValues(this.siteSettings)
+    );
+
+    DOMUtils.querySelectorAll<HTMLAnchorElement>('a[data-whatsapp="contact"]').forEach(link => {
+      link.href = this.getWhatsAppUrl(message);
     });
   }
 
+  private getWhatsAppUrl(message: string): string {
+    return `https://wa.me/${this.siteSettings.whatsappNumber}?text=${encodeURIComponent(message)}`;
+  }
+
   /**
    * Setup lazy loading for images
    */
   private setupLazyLoading(): void {
     const images = DOMUtils.querySelectorAll<HTMLImageElement>('img[loading="lazy"]');
-    
-    const imageObserver = new IntersectionObserver((entries) => {
-      entries.forEach(entry => {
-        if (entry.isIntersecting) {
-          const img = entry.target as HTMLImageElement;
-          const fullSrc = img.dataset.fullSrc;
-          
-          if (fullSrc && fullSrc !== img.src) {
-            img.src = fullSrc;
-            img.removeAttribute('data-full-src');
+
+    // One observer for the whole page; cards from the previous render are dropped
+    if (this.imageObserver) {
+      this.imageObserver.disconnect();
+    } else {
+      this.imageObserver = new IntersectionObserver((entries, observer) => {
+        entries.forEach(entry => {
+          if (entry.isIntersecting) {
+            const img = entry.target as HTMLImageElement;
+            const fullSrc = img.dataset.fullSrc;
+
+            if (fullSrc && fullSrc !== img.src) {
+              img.src = fullSrc;
+              img.removeAttribute('data-full-src');
+            }
+
+            observer.unobserve(img);
           }
-          
-          imageObserver.unobserve(img);
-        }
+        });
       });
-    });
+    }
 
+    const imageObserver = this.imageObserver;
     images.forEach(img => imageObserver.observe(img));
   }
 
@@ -418,18 +951,12 @@ class PortfolioApp {
   }
 
   /**
-   * Preload critical resources
+   * Preload critical resources: the images of the first page on screen
    */
   private preloadCriticalResources(): void {
-    const criticalImages = this.portfolioData.slice(0, 6).map(item => item.image);
-    
-    criticalImages.forEach(src => {
-      const link = document.createElement('link');
-      link.rel = 'preload';
-      link.as = 'image';
-      link.href = src;
-      document.head.appendChild(link);
-    });
+    const { mode, perPage } = this.getPaging();
+    const start = mode === 'pages' ? (this.portfolioFilter.page - 1) * perPage : 0;
+    this.preloadImages(this.filteredPortfolio.slice(start, start + perPage));
   }
 
   /**
@@ -486,67 +1013,715 @@ class PortfolioApp {
   private handleNavigation(event: Event, element: HTMLElement): void {
     event.preventDefault();
     
-    const targetId = element.getAttribute('href')?.substring(1);
-    if (!targetId) return;
+    const hash = element.getAttribute('href');
+    if (!hash) return;
 
-    // Update active nav link
-    this.domElements.navLinks?.forEach(link => DOMUtils.removeClass(link, 'active'));
-    DOMUtils.addClass(element, 'active');
+    this.navigate(hash);
+    AnimationUtils.smoothScrollTo({ top: 0, behavior: 'smooth' });
+  }
 
-    // Show target section
-    this.domElements.sections?.forEach(section => DOMUtils.removeClass(section, 'active'));
-    
-    const targetSection = DOMUtils.getElementById<HTMLElement>(targetId);
-    if (targetSection) {
-      DOMUtils.addClass(targetSection, 'active');
-    }
+  /**
+   * Show one section and mark its nav link active
+   */
+  private showSection(sectionId: string): void {
+    this.domElements.navLinks?.forEach(link => {
+      DOMUtils.toggleClass(link, 'active', link.getAttribute('href') === `#${sectionId}`);
+    });
+    this.domElements.sections?.forEach(section => {
+      DOMUtils.toggleClass(section, 'active', section.id === sectionId);
+    });
 
     // Close mobile menu
     if (this.domElements.hamburger && this.domElements.navMenu) {
       DOMUtils.removeClass(this.domElements.hamburger, 'active');
       DOMUtils.removeClass(this.domElements.navMenu, 'active');
     }
-
-    // Smooth scroll to top
-    AnimationUtils.smoothScrollTo({ top: 0, behavior: 'smooth' });
   }
 
+  // Cart
+
   /**
-   * Handle portfolio item click
+   * Load the cart and wire up the drawer
    */
-  private handlePortfolioItemClick(event: Event, element: HTMLElement): void {
-    const img = element.querySelector('img');
-    if (!img) return;
+  private setupCart(): void {
+    this.cart = CartUtils.load();
+    this.couponCode = SafeStorage.get<string>(StorageKeys.CART_COUPON, '');
+    this.destinationId = SafeStorage.get<number>(StorageKeys.CART_DESTINATION, 0);
 
-    const itemTitle = element.querySelector('h3')?.textContent || '';
-    const item = this.portfolioData.find(p => p.title === itemTitle);
-    
-    if (item) {
-      this.showPortfolioModal(item);
-    }
-  }
+    DOMUtils.getElementById<HTMLButtonElement>('cartToggle')?.addEventListener('click', () => this.openCart());
+    DOMUtils.getElementById<HTMLButtonElement>('cartClose')?.addEventListener('click', () => this.closeCart());
+    DOMUtils.getElementById<HTMLElement>('cartBackdrop')?.addEventListener('click', () => this.closeCart());
+    DOMUtils.getElementById<HTMLButtonElement>('cartCheckout')?.addEventListener('click', () => this.checkoutCart());
 
-  /**
-   * Handle product button click
-   */
-  private handleProductButtonClick(event: Event, element: HTMLElement): void {
-    const productId = element.dataset.productId;
-    if (!productId) return;
+    const drawer = DOMUtils.getElementById<HTMLElement>('cartDrawer');
+    if (drawer) this.setupCouponForm(drawer);
 
-    const product = this.productsData.find(p => p.id.toString() === productId);
-    if (!product) return;
+    DOMUtils.getElementById<HTMLSelectElement>('cartDestination')?.addEventListener('change', (event: Event) => {
+      this.setDestination(parseInt((event.target as HTMLSelectElement).value) || 0);
+    });
 
-    const message = `Halo, saya tertarik dengan produk "${product.name}" seharga ${FormatUtils.formatPrice(product.price)}.`;
-    const whatsappUrl = `https://wa.me/${this.siteSettings.whatsappNumber}?text=${encodeURIComponent(message)}`;
-    
-    window.open(whatsappUrl, '_blank');
+    const cartItems = DOMUtils.getElementById<HTMLElement>('cartItems');
+    cartItems?.addEventListener('click', (event: Event) => {
+      const button = (event.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+      const key = button?.dataset.lineKey || '';
+      const line = this.cart.find(entry => CartUtils.getKey(entry) === key);
+      if (!button || !line) return;
+
+      switch (button.dataset.action) {
+        case 'increase':
+          this.updateCart(CartUtils.setQuantity(this.cart, key, line.quantity + 1));
+          break;
+        case 'decrease':
+          this.updateCart(CartUtils.setQuantity(this.cart, key, line.quantity - 1));
+          break;
+        case 'remove':
+          this.updateCart(CartUtils.remove(this.cart, key));
+          break;
+      }
+    });
+
+    cartItems?.addEventListener('change', (event: Event) => {
+      const input = (event.target as HTMLElement).closest<HTMLInputElement>('input[data-line-key]');
+      if (!input) return;
+      this.updateCart(CartUtils.setQuantity(this.cart, input.dataset.lineKey || '', parseInt(input.value) || 0));
+    });
+
+    // Keep carts open in other tabs in step
+    window.addEventListener('storage', (event: StorageEvent) => {
+      if (event.key === StorageKeys.CART) {
+        this.cart = CartUtils.load();
+        this.renderCart();
+      } else if (event.key === StorageKeys.CART_COUPON) {
+        this.couponCode = SafeStorage.get<string>(StorageKeys.CART_COUPON, '');
+        this.refreshPrices();
+      } else if (event.key === StorageKeys.CART_DESTINATION) {
+        this.destinationId = SafeStorage.get<number>(StorageKeys.CART_DESTINATION, 0);
+        this.refreshPrices();
+      } else if (event.key === StorageKeys.CURRENCY) {
+        this.applyCurrencySettings();
+        this.renderProductItems();
+        this.refreshPrices();
+      }
+    });
   }
 
   /**
-   * Handle scroll events
+   * Add a product, in the variant selected next to the button that was pressed
    */
-  private handleScroll(): void {
-    const scrollY = window.scrollY;
+  private addToCart(productId: number, trigger: HTMLElement): void {
+    const product = this.productsData.find(p => p.id === productId);
+    if (!product) return;
+
+    const variant = this.getSelectedVariant(trigger, product);
+    const name = VariantUtils.getName(product, variant);
+    const physical = CartUtils.isPhysical(product, CategoryUtils.find(this.productCategories, product.category));
+    const key = CartUtils.getKey({ productId, variantId: variant?.id });
+    const existing = this.cart.find(line => CartUtils.getKey(line) === key);
+
+    const available = StockUtils.getAvailable(product);
+    if ((existing?.quantity || 0) >= available) {
+      this.showCartNotice(available === 0 ? `${name} sedang habis` : `Stok ${name} tinggal ${available}`);
+      return;
+    }
+
+    this.updateCart(CartUtils.add(this.cart, productId, variant?.id, physical));
+
+    this.showCartNotice(existing && !physical
+      ? `${name} sudah ada di keranjang`
+      : `${name} ditambahkan ke keranjang`);
+  }
+
+  private updateCart(lines: CartLine[]): void {
+    this.cart = lines;
+    CartUtils.save(lines);
+    this.renderCart();
+  }
+
+  /**
+   * Render the cart badge, drawer lines and totals
+   */
+  private renderCart(): void {
+    const summary = this.getCartSummary();
+
+    const count = DOMUtils.getElementById<HTMLElement>('cartCount');
+    if (count) {
+      count.textContent = String(summary.itemCount);
+      count.hidden = summary.itemCount === 0;
+    }
+
+    const items = DOMUtils.getElementById<HTMLElement>('cartItems');
+    if (items) {
+      items.innerHTML = summary.lines.length === 0
+        ? '<li class="cart-empty">Keranjang masih kosong.</li>'
+        : summary.lines.map(line => `
+          <li class="cart-item">
+            <img src="${line.product.image}" alt="${line.name}">
+            <div class="cart-item-info">
+              <span class="cart-item-name">${line.name}</span>
+              <span class="cart-item-price">
+                ${this.formatPrice(line.unitPrice)}
+                ${line.savings > 0 ? `<s>${this.formatPrice(line.unitPrice + line.savings / line.quantity)}</s>` : ''}
+              </span>
+              ${line.physical ? `
+                <div class="cart-quantity">
+                  <button type="button" data-action="decrease" data-line-key="${line.key}" aria-label="Kurangi">&minus;</button>
+                  <input type="number" min="0" max="${Math.min(99, StockUtils.getAvailable(line.product))}" value="${line.quantity}" data-line-key="${line.key}" aria-label="Jumlah">
+                  <button type="button" data-action="increase" data-line-key="${line.key}" aria-label="Tambah"
+                    ${line.quantity >= StockUtils.getAvailable(line.product) ? 'disabled' : ''}>+</button>
+                </div>
+              ` : '<span class="cart-item-type">Produk digital</span>'}
+            </div>
+            <div class="cart-item-total">
+              <span>${this.formatPrice(line.lineTotal)}</span>
+              <button type="button" class="cart-remove" data-action="remove" data-line-key="${line.key}" title="Hapus">
+                <i class="fas fa-trash"></i>
+              </button>
+            </div>
+          </li>
+        `).join('');
+    }
+
+    const totals = DOMUtils.getElementById<HTMLElement>('cartSummary');
+    if (totals) {
+      totals.innerHTML = `
+        ${summary.total < summary.subtotal ? `<dt>Subtotal</dt><dd>${this.formatPrice(summary.subtotal)}</dd>` : ''}
+        ${summary.discount > 0 ? `
+          <dt>Diskon</dt><dd class="cart-discount">-${this.formatPrice(summary.discount)}</dd>
+        ` : ''}
+        ${summary.bundles.map(({ bundle, count, savings }) => `
+          <dt>Paket ${bundle.name}${count > 1 ? ` x${count}` : ''}</dt>
+          <dd class="cart-discount">-${this.formatPrice(savings)}</dd>
+        `).join('')}
+        ${summary.coupon ? `
+          <dt>Kupon ${summary.coupon.coupon.code}</dt>
+          <dd class="cart-discount">-${this.formatPrice(summary.coupon.savings)}</dd>
+        ` : ''}
+        ${summary.shipping ? `
+          <dt>Ongkir ${summary.shipping.zone.name} (${ShippingUtils.formatWeight(summary.shipping.weight)})</dt>
+          <dd>${summary.shipping.free ? 'Gratis' : this.formatPrice(summary.shipping.cost)}</dd>
+        ` : this.needsDestination(summary) ? `
+          <dt>Ongkir</dt><dd class="cart-shipping-pending">Pilih tujuan</dd>
+        ` : ''}
+        <dt class="cart-total">Total</dt><dd class="cart-total">${this.formatPrice(summary.total)}</dd>
+      `;
+    }
+
+    const drawer = DOMUtils.getElementById<HTMLElement>('cartDrawer');
+    if (drawer) this.renderCouponState(drawer, summary);
+    this.renderDestinationSelect(summary);
+
+    const checkout = DOMUtils.getElementById<HTMLButtonElement>('cartCheckout');
+    if (checkout) checkout.disabled = summary.lines.length === 0 || this.needsDestination(summary);
+  }
+
+  /**
+   * The cart priced with sale prices, bundles, the entered coupon code and
+   * shipping to the picked destination, in the visitor's currency
+   */
+  private getCartSummary(currency: CurrencySetting = this.currency): CartSummary {
+    const summary = CartUtils.summarize(this.cart, this.productsData, this.productCategories);
+    const promoted = PromoUtils.apply(summary, this.bundles, this.coupons, this.couponCode);
+    return CurrencyUtils.convertSummary(ShippingUtils.apply(promoted, this.getDestination()), currency);
+  }
+
+  /**
+   * A single product (variant) priced with the entered coupon code and shipping, for direct orders
+   */
+  private getProductSummary(
+    product: ProductItem,
+    variant: ProductVariant | undefined,
+    currency: CurrencySetting = this.currency
+  ): CartSummary {
+    const line: CartLine = { productId: product.id, quantity: 1 };
+    if (variant) line.variantId = variant.id;
+    const summary = CartUtils.summarize([line], this.productsData, this.productCategories);
+    const promoted = PromoUtils.apply(summary, [], this.coupons, this.couponCode);
+    return CurrencyUtils.convertSummary(ShippingUtils.apply(promoted, this.getDestination()), currency);
+  }
+
+  // Coupons
+
+  /**
+   * Coupon form in the cart drawer or a product modal; both edit the cart's code
+   */
+  private setupCouponForm(container: HTMLElement): void {
+    const form = container.querySelector<HTMLFormElement>('.coupon-form');
+    form?.addEventListener('submit', (event: Event) => {
+      event.preventDefault();
+      this.setCouponCode(form.querySelector<HTMLInputElement>('input[name="coupon"]')?.value || '');
+    });
+
+    container.querySelector('.coupon-message')?.addEventListener('click', (event: Event) => {
+      if ((event.target as HTMLElement).closest('[data-action="remove-coupon"]')) this.setCouponCode('');
+    });
+  }
+
+  private setCouponCode(code: string): void {
+    this.couponCode = PromoUtils.normalizeCode(code);
+    if (this.couponCode) {
+      SafeStorage.set(StorageKeys.CART_COUPON, this.couponCode);
+    } else {
+      SafeStorage.remove(StorageKeys.CART_COUPON);
+    }
+    this.refreshPrices();
+  }
+
+  /**
+   * Re-price the cart and any open product modal after the coupon code, coupons or currency change
+   */
+  private refreshPrices(): void {
+    this.renderCart();
+    document.querySelectorAll<HTMLElement>('.product-modal').forEach(modal => {
+      const product = this.productsData.find(p => p.id === parseInt(modal.dataset.productId || '0'));
+      if (!product) return;
+
+      modal.querySelectorAll<HTMLOptionElement>('[data-variant-select] option').forEach(option => {
+        const variant = VariantUtils.find(product, parseInt(option.value));
+        if (variant) option.textContent = this.getVariantLabel(product, variant);
+      });
+
+      const offer = modal.querySelector<HTMLElement>('.product-offer');
+      if (offer) offer.innerHTML = this.renderProductOffer(product, this.getSelectedVariant(modal, product));
+
+      const bundles = modal.querySelector<HTMLElement>('.product-bundles');
+      if (bundles) bundles.outerHTML = this.renderProductBundles(product);
+
+      this.renderProductCoupon(modal, product);
+    });
+  }
+
+  private renderProductCoupon(modal: HTMLElement, product: ProductItem): void {
+    const coupon = modal.querySelector<HTMLElement>('.product-coupon');
+    if (coupon) this.renderCouponState(coupon, this.getProductSummary(product, this.getSelectedVariant(coupon, product)));
+  }
+
+  /**
+   * Show the entered code with what it saves, or why it does not apply
+   */
+  private renderCouponState(container: HTMLElement, summary: CartSummary): void {
+    const input = container.querySelector<HTMLInputElement>('input[name="coupon"]');
+    if (input && document.activeElement !== input) input.value = this.couponCode;
+
+    const message = container.querySelector<HTMLElement>('.coupon-message');
+    if (!message) return;
+
+    const text = summary.coupon
+      ? `Kupon ${summary.coupon.coupon.code} hemat ${this.formatPrice(summary.coupon.savings)}`
+      : summary.couponError || `Kupon ${this.couponCode} dipakai saat checkout`;
+
+    message.hidden = !this.couponCode;
+    message.classList.toggle('error', Boolean(summary.couponError));
+
+    // The code is typed by the visitor, so it only ever goes in as text
+    const span = document.createElement('span');
+    if (!summary.couponError) {
+      span.appendChild(DOMUtils.createElement<HTMLElement>('i', 'fas fa-tag'));
+      span.append(' ');
+    }
+    span.append(text);
+
+    const remove = document.createElement('button');
+    remove.type = 'button';
+    remove.dataset.action = 'remove-coupon';
+    remove.title = 'Hapus kupon';
+    remove.textContent = '\u00d7';
+
+    message.replaceChildren(span, remove);
+  }
+
+  // Shipping
+
+  private getDestination(): ShippingZone | undefined {
+    return this.destinationId ? ShippingUtils.findZone(this.siteSettings, this.destinationId) : undefined;
+  }
+
+  private setDestination(id: number): void {
+    this.destinationId = id;
+    if (id) {
+      SafeStorage.set(StorageKeys.CART_DESTINATION, id);
+    } else {
+      SafeStorage.remove(StorageKeys.CART_DESTINATION);
+    }
+    this.refreshPrices();
+  }
+
+  /**
+   * Physical products in the cart, shipping zones set up, but none picked yet
+   */
+  private needsDestination(summary: CartSummary): boolean {
+    return !summary.shipping && ShippingUtils.needsShipping(summary.lines) && ShippingUtils.getZones(this.siteSettings).length > 0;
+  }
+
+  /**
+   * The destination picker, shown while the cart holds physical products
+   */
+  private renderDestinationSelect(summary: CartSummary): void {
+    const field = DOMUtils.getElementById<HTMLElement>('cartDestinationField');
+    const select = DOMUtils.getElementById<HTMLSelectElement>('cartDestination');
+    if (!field || !select) return;
+
+    const zones = ShippingUtils.getZones(this.siteSettings);
+    field.hidden = zones.length === 0 || !ShippingUtils.needsShipping(summary.lines);
+    select.innerHTML = '';
+    select.add(new Option('Pilih tujuan pengiriman', ''));
+    zones.forEach(zone => select.add(new Option(zone.name, String(zone.id))));
+    select.value = this.getDestination() ? String(this.destinationId) : '';
+  }
+
+  // Orders
+
+  /**
+   * Log a sent order for the admin's order list. `baseSummary` is the same
+   * order in Rupiah, for the monthly totals.
+   */
+  private async recordOrder(source: OrderSource, summary: CartSummary, baseSummary: CartSummary): Promise<void> {
+    const orders = await AsyncStorage.get<Order[]>(StorageKeys.ORDERS, []);
+    orders.push(OrderUtils.create(orders, summary, baseSummary, this.currency, source));
+    await AsyncStorage.set(StorageKeys.ORDERS, orders);
+  }
+
+  // Restock Requests
+
+  /**
+   * Save a visitor's contact for a sold-out product. Like orders it is kept in
+   * this browser's storage, so a WhatsApp message to the owner is opened too.
+   */
+  private async handleRestockSubmit(event: Event): Promise<void> {
+    const form = (event.target as HTMLElement).closest<HTMLFormElement>('form[data-restock]');
+    if (!form) return;
+    event.preventDefault();
+
+    const product = this.productsData.find(item => item.id === parseInt(form.dataset.restock || '0'));
+    const input = form.querySelector<HTMLInputElement>('input[name="contact"]');
+    const message = form.querySelector<HTMLElement>('.restock-message');
+    const showResult = (text: string, error: boolean) => {
+      if (!message) return;
+      message.textContent = text;
+      message.classList.toggle('error', error);
+      message.hidden = false;
+    };
+
+    const parsed = StockUtils.parseContact(input?.value || '');
+    if (!product || !parsed) {
+      showResult('Masukkan nomor WhatsApp atau email yang valid', true);
+      return;
+    }
+
+    // Opened before any await so the browser still treats it as a click
+    const channel = parsed.channel === 'email' ? 'email' : 'WhatsApp';
+    window.open(this.getWhatsAppUrl(
+      `Halo, produk "${product.name}" sedang habis. Tolong kabari saya lewat ${channel} saat tersedia lagi: ${parsed.contact}`
+    ), '_blank');
+
+    try {
+      const requests = await AsyncStorage.get<RestockRequest[]>(StorageKeys.RESTOCK_REQUESTS, []);
+      const saved = await AsyncStorage.set(
+        StorageKeys.RESTOCK_REQUESTS,
+        StockUtils.addRequest(requests, product.id, parsed.channel, parsed.contact)
+      );
+      if (!saved) throw new Error('Storage unavailable');
+
+      if (input) input.value = '';
+      showResult('Terima kasih! Permintaan Anda tercatat. Kirim juga pesan WhatsApp yang terbuka agar kami menerimanya.', false);
+    } catch (error) {
+      console.error('Failed to save restock request:', error);
+      showResult('Gagal menyimpan. Kirim pesan WhatsApp yang terbuka agar permintaan Anda sampai ke kami.', true);
+    }
+  }
+
+  private isCartOpen(): boolean {
+    return DOMUtils.getElementById<HTMLElement>('cartDrawer')?.classList.contains('open') ?? false;
+  }
+
+  private openCart(): void {
+    const drawer = DOMUtils.getElementById<HTMLElement>('cartDrawer');
+    const backdrop = DOMUtils.getElementById<HTMLElement>('cartBackdrop');
+    if (!drawer) return;
+
+    DOMUtils.addClass(drawer, 'open');
+    drawer.setAttribute('aria-hidden', 'false');
+    if (backdrop) backdrop.hidden = false;
+    DOMUtils.getElementById<HTMLButtonElement>('cartClose')?.focus();
+  }
+
+  private closeCart(): void {
+    const drawer = DOMUtils.getElementById<HTMLElement>('cartDrawer');
+    const backdrop = DOMUtils.getElementById<HTMLElement>('cartBackdrop');
+    if (!drawer) return;
+
+    DOMUtils.removeClass(drawer, 'open');
+    drawer.setAttribute('aria-hidden', 'true');
+    if (backdrop) backdrop.hidden = true;
+  }
+
+  /**
+   * Send the whole cart as one WhatsApp order
+   */
+  private checkoutCart(): void {
+    const summary = this.getCartSummary();
+    if (summary.lines.length === 0) return;
+
+    const message = TemplateUtils.render(TemplateUtils.get(this.siteSettings, 'cart'), {
+      ...TemplateUtils.siteValues(this.siteSettings),
+      ...TemplateUtils.cartValues(summary, this.currency)
+    });
+    window.open(this.getWhatsAppUrl(message), '_blank');
+
+    this.recordOrder('cart', summary, this.getCartSummary(BASE_CURRENCY))
+      .catch(error => console.error('Failed to record order:', error));
+  }
+
+  /**
+   * Brief confirmation next to the cart button
+   */
+  private showCartNotice(text: string): void {
+    const toggle = DOMUtils.getElementById<HTMLElement>('cartToggle');
+    if (!toggle) return;
+
+    toggle.dataset.notice = text;
+    DOMUtils.removeClass(toggle, 'bump');
+    requestAnimationFrame(() => DOMUtils.addClass(toggle, 'bump'));
+  }
+
+  // Currency
+
+  /**
+   * Use the remembered currency, or one matching the browser language, among
+   * those the admin offers; and fill the switcher with them
+   */
+  private applyCurrencySettings(): void {
+    const stored = SafeStorage.get<string>(StorageKeys.CURRENCY, '');
+    const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+    this.currency = CurrencyUtils.find(this.siteSettings, stored) || CurrencyUtils.detect(this.siteSettings, languages);
+
+    const select = DOMUtils.getElementById<HTMLSelectElement>('currencySelect');
+    if (!select) return;
+
+    const currencies = CurrencyUtils.getCurrencies(this.siteSettings);
+    select.innerHTML = currencies.map(currency => `<option value="${currency.code}">${currency.code}</option>`).join('');
+    select.value = this.currency.code;
+    select.hidden = currencies.length < 2;
+  }
+
+  private setCurrency(code: string): void {
+    const currency = CurrencyUtils.find(this.siteSettings, code);
+    if (!currency) return;
+
+    this.currency = currency;
+    SafeStorage.set(StorageKeys.CURRENCY, currency.code);
+    this.renderProductItems();
+    this.refreshPrices();
+  }
+
+  // Routing
+
+  /**
+   * Follow hash changes (links, back/forward) and open the route the page was loaded with
+   */
+  private setupRouter(): void {
+    window.addEventListener('hashchange', () => this.applyRoute(this.parseRoute(window.location.hash)));
+    this.applyRoute(this.parseRoute(window.location.hash));
+  }
+
+  /**
+   * Push a new hash onto the history and show it. Entries pushed here are
+   * marked so closing a modal knows it can go back to a page of this site.
+   */
+  private navigate(hash: string): void {
+    if (hash !== window.location.hash) {
+      history.pushState({ routed: true }, '', hash);
+    }
+    this.applyRoute(this.parseRoute(hash));
+  }
+
+  /**
+   * Parse a URL hash; unknown sections fall back to the first one
+   */
+  private parseRoute(hash: string): SiteRoute {
+    const sectionIds = Array.from(this.domElements.sections || []).map(section => section.id);
+    const defaultSection = sectionIds[0] || 'home';
+
+    const itemMatch = hash.match(/^#\/(work|shop)\/([^/?#]+)/);
+    if (itemMatch) {
+      const kind = itemMatch[1] as RouteKind;
+      const section = kind === 'shop' ? 'digital-produk' : defaultSection;
+      try {
+        return { section, kind, slug: decodeURIComponent(itemMatch[2] || '') };
+      } catch {
+        // Malformed escape in a hand-edited link: show the section without an item
+        return { section };
+      }
+    }
+
+    const section = hash.replace(/^#\/?/, '');
+    return { section: sectionIds.includes(section) ? section : defaultSection };
+  }
+
+  /**
+   * Show the section of a route and open its item, if any
+   */
+  private applyRoute(route: SiteRoute): void {
+    this.showSection(route.section);
+
+    if (route.kind === 'work' && route.slug) {
+      const item = this.findBySlug(this.portfolioData, route.slug, entry => entry.title);
+      const openModal = DOMUtils.querySelector<HTMLElement>('.portfolio-modal.active');
+      if (item && openModal?.dataset.itemId === String(item.id)) return;
+
+      this.closeAllModals();
+      if (item) {
+        this.showPortfolioModal(item);
+      } else {
+        this.replaceRoute(`#${route.section}`);
+      }
+      return;
+    }
+
+    if (route.kind === 'shop' && route.slug) {
+      const product = this.findBySlug(this.productsData, route.slug, entry => entry.name);
+      const openModal = DOMUtils.querySelector<HTMLElement>('.product-modal.active');
+      if (product && openModal?.dataset.productId === String(product.id)) return;
+
+      this.closeAllModals();
+      if (product && product.status === 'active') {
+        this.showProductModal(product);
+      } else {
+        this.replaceRoute(`#${route.section}`);
+      }
+      return;
+    }
+
+    this.closeAllModals();
+  }
+
+  /**
+   * Leave the current item route after its modal was closed
+   */
+  private leaveItemRoute(): void {
+    const route = this.parseRoute(window.location.hash);
+    if (!route.kind) return;
+
+    if (history.state?.routed) {
+      history.back();
+    } else {
+      // Opened from a shared link: there is no page of ours to go back to
+      this.replaceRoute(`#${route.section}`);
+    }
+  }
+
+  private replaceRoute(hash: string): void {
+    history.replaceState(history.state, '', hash);
+  }
+
+  /**
+   * Hash that opens a portfolio item or product
+   */
+  private getRouteHash(kind: RouteKind, id: number): string {
+    const slug = kind === 'work'
+      ? this.getRouteSlug(this.portfolioData, this.portfolioData.find(item => item.id === id), entry => entry.title)
+      : this.getRouteSlug(this.productsData, this.productsData.find(product => product.id === id), entry => entry.name);
+    return `#/${kind}/${encodeURIComponent(slug)}`;
+  }
+
+  /**
+   * Full shareable link to a portfolio item or product
+   */
+  private getRouteUrl(kind: RouteKind, id: number): string {
+    const url = new URL(window.location.href);
+    url.hash = this.getRouteHash(kind, id);
+    return url.href;
+  }
+
+  /**
+   * URL slug of an item from its name; items sharing a name get their id appended
+   */
+  private getRouteSlug<T extends { id: number }>(items: T[], item: T | undefined, getName: (entry: T) => string): string {
+    if (!item) return '';
+
+    const base = FormatUtils.slugify(getName(item)) || String(item.id);
+    const taken = items.some(other => other.id < item.id && FormatUtils.slugify(getName(other)) === base);
+    return taken ? `${base}-${item.id}` : base;
+  }
+
+  private findBySlug<T extends { id: number }>(items: T[], slug: string, getName: (entry: T) => string): T | undefined {
+    return items.find(item => this.getRouteSlug(items, item, getName) === slug);
+  }
+
+  /**
+   * Handle portfolio item click
+   */
+  private handlePortfolioItemClick(event: Event, element: HTMLElement): void {
+    const img = element.querySelector('img');
+    if (!img) return;
+
+    const itemTitle = element.querySelector('h3')?.textContent || '';
+    const item = this.portfolioData.find(p => p.title === itemTitle);
+    
+    if (item) {
+      this.navigate(this.getRouteHash('work', item.id));
+    }
+  }
+
+  /**
+   * Handle product button click
+   */
+  private handleProductButtonClick(event: Event, element: HTMLElement): void {
+    const productId = element.dataset.productId;
+    if (!productId) return;
+
+    const product = this.productsData.find(p => p.id.toString() === productId);
+    if (!product) return;
+
+    const variant = this.getSelectedVariant(element, product);
+    window.open(this.getWhatsAppUrl(this.getProductMessage(product, variant)), '_blank');
+
+    const summary = this.getProductSummary(product, variant);
+    this.recordOrder('direct', summary, this.getProductSummary(product, variant, BASE_CURRENCY))
+      .catch(error => console.error('Failed to record order:', error));
+  }
+
+  /**
+   * WhatsApp message for a product; a category template overrides the site-wide one.
+   * An applicable coupon code and shipping are appended with the total after them.
+   */
+  private getProductMessage(product: ProductItem, variant: ProductVariant | undefined): string {
+    const category = CategoryUtils.find(this.productCategories, product.category);
+    const template = category?.whatsappTemplate?.trim() || TemplateUtils.get(this.siteSettings, 'product');
+
+    const message = TemplateUtils.render(template, {
+      ...TemplateUtils.siteValues(this.siteSettings),
+      ...TemplateUtils.productValues(product, variant, category, this.getRouteUrl('shop', product.id), this.currency)
+    });
+
+    const { coupon, shipping, total } = this.getProductSummary(product, variant);
+    const notes: string[] = [];
+    if (coupon) {
+      notes.push(`Kode kupon: ${coupon.coupon.code} (hemat ${this.formatPrice(coupon.savings)})`);
+    }
+    if (shipping) {
+      const cost = shipping.free ? 'gratis' : this.formatPrice(shipping.cost);
+      notes.push(`Ongkir ${shipping.zone.name} (${ShippingUtils.formatWeight(shipping.weight)}): ${cost}`);
+    }
+    if (notes.length === 0) return message;
+
+    return `${message}\n\n${notes.join('\n')}\nTotal: ${this.formatPrice(total)}`;
+  }
+
+  /**
+   * WhatsApp enquiry about a portfolio item
+   */
+  private getPortfolioMessage(item: PortfolioItem): string {
+    return TemplateUtils.render(TemplateUtils.get(this.siteSettings, 'portfolio'), {
+      ...TemplateUtils.siteValues(this.siteSettings),
+      ...TemplateUtils.portfolioValues(item, this.getCategoryName(item.category), this.getRouteUrl('work', item.id))
+    });
+  }
+
+  /**
+   * Handle scroll events
+   */
+  private handleScroll(): void {
+    const scrollY = window.scrollY;
     const header = DOMUtils.querySelector<HTMLElement>('header');
     
     if (header) {
@@ -558,14 +1733,14 @@ class PortfolioApp {
    * Handle resize events
    */
   private handleResize(): void {
-    this.adjustPortfolioGrid();
+    this.layoutPortfolio();
   }
 
   /**
    * Handle window load event
    */
   private handleWindowLoad(): void {
-    this.adjustPortfolioGrid();
+    this.layoutPortfolio();
     this.setupImageLoadHandlers();
   }
 
@@ -573,8 +1748,17 @@ class PortfolioApp {
    * Handle keyboard navigation
    */
   private handleKeydown(event: KeyboardEvent): void {
+    // The lightbox handles its own keys while open
+    if (this.lightbox.isOpen) return;
+
+    if (event.key === 'Escape' && this.isCartOpen()) {
+      this.closeCart();
+      return;
+    }
+
     if (event.key === 'Escape') {
       this.closeAllModals();
+      this.leaveItemRoute();
     }
   }
 
@@ -585,6 +1769,23 @@ class PortfolioApp {
    */
   private showPortfolioModal(item: PortfolioItem): void {
     const modal = this.createPortfolioModal(item);
+    modal.dataset.itemId = String(item.id);
+    this.openModal(modal);
+  }
+
+  /**
+   * Show product detail modal
+   */
+  private showProductModal(product: ProductItem): void {
+    const modal = this.createProductModal(product);
+    modal.dataset.productId = String(product.id);
+    this.openModal(modal);
+  }
+
+  /**
+   * Add a modal to the page; closing it also leaves its route
+   */
+  private openModal(modal: HTMLElement): void {
     document.body.appendChild(modal);
     
     // Animate in
@@ -599,6 +1800,7 @@ class PortfolioApp {
     const closeModal = () => {
       DOMUtils.removeClass(modal, 'active');
       setTimeout(() => modal.remove(), 300);
+      this.leaveItemRoute();
     };
 
     closeBtn?.addEventListener('click', closeModal);
@@ -616,7 +1818,8 @@ class PortfolioApp {
       <div class="modal-content">
         <button class="modal-close">&times;</button>
         <div class="modal-image">
-          <img src="${item.image}" alt="${item.title}" id="modalMainImage">
+          <img src="${item.image}" alt="${item.title}" id="modalMainImage" data-index="0" title="Lihat layar penuh">
+          <p class="modal-image-caption" hidden></p>
         </div>
         <div class="modal-info">
           <h2>${item.title}</h2>
@@ -624,10 +1827,14 @@ class PortfolioApp {
           ${item.description ? `<p class="modal-description">${item.description}</p>` : ''}
           ${item.additionalImages && item.additionalImages.length > 0 ? this.renderAdditionalImages(item.additionalImages) : ''}
           <div class="contact-cta">
-            <a href="#about" class="contact-btn">
-              <i class="fas fa-envelope"></i>
+            <a href="${this.getWhatsAppUrl(this.getPortfolioMessage(item))}" target="_blank" rel="noopener" class="contact-btn">
+              <i class="fab fa-whatsapp"></i>
               Jika tertarik hubungi saya
             </a>
+            <button type="button" class="share-link-btn" title="Salin tautan karya ini">
+              <i class="fas fa-link"></i>
+              Salin Tautan
+            </button>
           </div>
         </div>
       </div>
@@ -636,103 +1843,207 @@ class PortfolioApp {
     // Setup additional image click handlers
     const additionalImages = modal.querySelectorAll('.additional-images img');
     const mainImage = modal.querySelector('#modalMainImage') as HTMLImageElement;
+    const mainCaption = modal.querySelector<HTMLElement>('.modal-image-caption');
     
-    additionalImages.forEach((img) => {
+    additionalImages.forEach((img, index) => {
       img.addEventListener('click', () => {
         if (mainImage && img instanceof HTMLImageElement) {
+          const caption = item.additionalImages?.[index]?.caption || '';
           mainImage.src = img.src;
+          mainImage.alt = img.alt;
+          mainImage.dataset.index = String(index + 1);
+          if (mainCaption) {
+            mainCaption.textContent = caption;
+            mainCaption.hidden = !caption;
+          }
         }
       });
     });
 
-    // Setup contact button click handler
-    const contactBtn = modal.querySelector('.contact-btn');
-    contactBtn?.addEventListener('click', (e) => {
-      e.preventDefault();
-      // Close modal first
-      DOMUtils.removeClass(modal, 'active');
-      setTimeout(() => modal.remove(), 300);
-      
-      // Navigate to about section
-      const aboutSection = DOMUtils.getElementById('about');
-      if (aboutSection) {
-        // Update navigation
-        this.domElements.navLinks?.forEach(link => DOMUtils.removeClass(link, 'active'));
-        const aboutLink = DOMUtils.querySelector('a[href="#about"]');
-        if (aboutLink) DOMUtils.addClass(aboutLink, 'active');
-        
-        // Update sections
-        this.domElements.sections?.forEach(section => DOMUtils.removeClass(section, 'active'));
-        DOMUtils.addClass(aboutSection, 'active');
-        
-        // Close mobile menu if open
-        if (this.domElements.hamburger && this.domElements.navMenu) {
-          DOMUtils.removeClass(this.domElements.hamburger, 'active');
-          DOMUtils.removeClass(this.domElements.navMenu, 'active');
+    // The main image opens the gallery at the image currently shown
+    mainImage?.addEventListener('click', () => {
+      this.openLightbox(item, parseInt(mainImage.dataset.index || '0'));
+    });
+
+    this.setupShareButton(modal, 'work', item.id);
+
+    return modal;
+  }
+
+  /**
+   * Create product detail modal
+   */
+  private createProductModal(product: ProductItem): HTMLElement {
+    const modal = DOMUtils.createElement<HTMLDivElement>('div', 'portfolio-modal product-modal');
+    const category = CategoryUtils.find(this.productCategories, product.category);
+    const variant = VariantUtils.find(product);
+    const additionalImages = (product.additionalImages || []).map(src => ({ src, alt: product.name }));
+    const details = (product.details || '').split(/\n\s*\n/).map(text => text.trim()).filter(Boolean);
+
+    modal.innerHTML = `
+      <div class="modal-overlay"></div>
+      <div class="modal-content">
+        <button class="modal-close">&times;</button>
+        <div class="modal-image">
+          <img src="${product.image}" alt="${product.name}" id="modalMainImage" data-index="0" title="Lihat layar penuh">
+          ${this.renderSaleBadge(product, variant)}
+          ${this.renderStockBadge(product)}
+        </div>
+        <div class="modal-info">
+          ${category ? `<p class="modal-category"><i class="${category.icon}"></i> ${category.label}</p>` : ''}
+          <h2>${product.name}</h2>
+          ${this.renderVariantSelect(product)}
+          <div class="product-offer">${this.renderProductOffer(product, variant)}</div>
+          <p class="modal-description">${product.description}</p>
+          ${details.map(text => `<p class="product-details">${text}</p>`).join('')}
+          <dl class="product-specs">
+            <dt>Tipe</dt>
+            <dd>${CartUtils.isPhysical(product, category) ? 'Produk fisik' : 'Produk digital'}</dd>
+            ${product.fileFormat ? `<dt>Format</dt><dd>${product.fileFormat}</dd>` : ''}
+            ${category ? `<dt>Kategori</dt><dd>${category.label}</dd>` : ''}
+          </dl>
+          ${this.renderAdditionalImages(additionalImages)}
+          ${this.renderProductBundles(product)}
+          <div class="product-coupon">
+            <form class="coupon-form">
+              <input type="text" name="coupon" placeholder="Kode kupon" autocomplete="off" aria-label="Kode kupon">
+              <button type="submit">Pakai</button>
+            </form>
+            <p class="coupon-message" hidden></p>
+          </div>
+          ${StockUtils.isSoldOut(product) ? this.renderRestockForm(product) : ''}
+          <div class="contact-cta product-actions">
+            ${StockUtils.isSoldOut(product) ? '' : `
+              <button type="button" class="btn btn-primary" data-cart-add="${product.id}">
+                <i class="fas fa-cart-plus"></i> Tambah ke Keranjang
+              </button>
+              <button type="button" class="btn-order-direct" data-product-id="${product.id}" title="Pesan langsung via WhatsApp">
+                <i class="fab fa-whatsapp"></i>
+              </button>
+            `}
+            <button type="button" class="share-link-btn" title="Salin tautan produk ini">
+              <i class="fas fa-link"></i>
+              Salin Tautan
+            </button>
+          </div>
+        </div>
+      </div>
+    `;
+
+    // Thumbnails swap the main image, which opens the gallery
+    const mainImage = modal.querySelector<HTMLImageElement>('#modalMainImage');
+    modal.querySelectorAll('.additional-images img').forEach((img, index) => {
+      img.addEventListener('click', () => {
+        if (mainImage && img instanceof HTMLImageElement) {
+          mainImage.src = img.src;
+          mainImage.dataset.index = String(index + 1);
         }
-        
-        // Smooth scroll to top
-        AnimationUtils.smoothScrollTo({ top: 0, behavior: 'smooth' });
+      });
+    });
+
+    mainImage?.addEventListener('click', () => {
+      const images = [{ src: product.image, alt: product.name }, ...additionalImages].filter(image => image.src);
+      this.lightbox.open([{ id: product.id, title: product.name, images }], 0, parseInt(mainImage.dataset.index || '0'));
+    });
+
+    modal.querySelector('.product-actions')?.addEventListener('click', (event: Event) => {
+      const target = event.target as HTMLElement;
+      const cartButton = target.closest<HTMLElement>('[data-cart-add]');
+      const orderButton = target.closest<HTMLElement>('[data-product-id]');
+
+      if (cartButton) {
+        this.addToCart(product.id, cartButton);
+      } else if (orderButton) {
+        this.handleProductButtonClick(event, orderButton);
       }
     });
+    modal.addEventListener('change', (event: Event) => this.handleVariantChange(event));
+    modal.addEventListener('submit', (event: Event) => this.handleRestockSubmit(event));
+
+    const coupon = modal.querySelector<HTMLElement>('.product-coupon');
+    if (coupon) {
+      this.setupCouponForm(coupon);
+      this.renderCouponState(coupon, this.getProductSummary(product, variant));
+    }
+
+    this.setupShareButton(modal, 'shop', product.id);
 
     return modal;
   }
 
+  /**
+   * Active bundles that include a product, with the other products in them
+   */
+  private renderProductBundles(product: ProductItem): string {
+    const bundles = this.bundles.filter(bundle => bundle.active && bundle.productIds.includes(product.id));
+    const notes = bundles.map(bundle => {
+      const names = bundle.productIds
+        .map(id => this.productsData.find(p => p.id === id && p.status === 'active')?.name)
+        .filter((name): name is string => Boolean(name));
+      if (names.length !== bundle.productIds.length) return '';
+      return `
+        <li>
+          <strong>${bundle.name}</strong>: ${names.join(' + ')}
+          seharga ${this.formatPrice(CurrencyUtils.convertAmount(bundle.price, this.currency))}
+        </li>
+      `;
+    }).join('');
+
+    return notes ? `
+      <div class="product-bundles">
+        <h4><i class="fas fa-box-open"></i> Hemat dengan paket</h4>
+        <ul>${notes}</ul>
+      </div>
+    ` : '';
+  }
+
+  /**
+   * Copy the deep link of the item shown in a modal
+   */
+  private setupShareButton(modal: HTMLElement, kind: RouteKind, id: number): void {
+    const shareBtn = modal.querySelector<HTMLButtonElement>('.share-link-btn');
+    shareBtn?.addEventListener('click', async () => {
+      const url = this.getRouteUrl(kind, id);
+      try {
+        await navigator.clipboard.writeText(url);
+        shareBtn.innerHTML = '<i class="fas fa-check"></i> Tautan Disalin';
+      } catch {
+        window.prompt(shareBtn.title + ':', url);
+      }
+    });
+  }
+
   /**
    * Render additional images
    */
-  private renderAdditionalImages(images: string[]): string {
+  private renderAdditionalImages(images: PortfolioImage[]): string {
     if (images.length === 0) return '';
     
-    const imageElements = images.map(src => 
-      `<img src="${src}" alt="Additional image" loading="lazy">`
+    const imageElements = images.map(image => 
+      `<img src="${image.src}" alt="${image.alt || image.caption || 'Gambar tambahan'}" title="${image.caption || ''}" loading="lazy">`
     ).join('');
     
     return `<div class="additional-images">${imageElements}</div>`;
   }
 
   /**
-   * Show image preview modal
+   * Open the gallery lightbox at an item, stepping through the current filtered list
    */
-  private showImagePreview(imageSrc: string, title: string): void {
-    const modal = DOMUtils.createElement<HTMLDivElement>('div', 'image-preview-modal');
-    
-    modal.innerHTML = `
-      <div class="modal-overlay"></div>
-      <div class="image-preview-content">
-        <button class="modal-close">&times;</button>
-        <img src="${imageSrc}" alt="${title}" loading="lazy">
-        <div class="image-preview-title">${title}</div>
-      </div>
-    `;
+  private openLightbox(item: PortfolioItem, imageIndex = 0): void {
+    const index = this.filteredPortfolio.findIndex(entry => entry.id === item.id);
+    const items = index === -1 ? [item] : this.filteredPortfolio;
+    this.lightbox.open(items.map(entry => this.toLightboxItem(entry)), Math.max(0, index), imageIndex);
+  }
 
-    // Add close handlers
-    const closeBtn = modal.querySelector('.modal-close');
-    const overlay = modal.querySelector('.modal-overlay');
-    
-    const closeModal = () => {
-      modal.remove();
+  private toLightboxItem(item: PortfolioItem): LightboxItem {
+    const images: PortfolioImage[] = item.image ? [{ src: item.image, alt: item.title }] : [];
+    const lightboxItem: LightboxItem = {
+      id: item.id,
+      title: item.title,
+      images: [...images, ...(item.additionalImages || []).filter(image => image.src)]
     };
-
-    closeBtn?.addEventListener('click', closeModal);
-    overlay?.addEventListener('click', closeModal);
-    
-    // Close on Escape key
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
-        closeModal();
-        document.removeEventListener('keydown', handleKeyDown);
-      }
-    };
-    
-    document.addEventListener('keydown', handleKeyDown);
-    document.body.appendChild(modal);
-    
-    // Trigger animation
-    requestAnimationFrame(() => {
-      DOMUtils.addClass(modal, 'active');
-    });
+    if (item.description) lightboxItem.caption = item.description;
+    return lightboxItem;
   }
 
   /**
@@ -747,21 +2058,77 @@ class PortfolioApp {
   }
 
   /**
-   * Adjust portfolio grid layout
+   * Record a card's image aspect ratio for the layout engines
    */
-  private adjustPortfolioGrid(): void {
+  private setCardRatio(card: HTMLElement, ratio: number): void {
+    card.dataset.ratio = ratio.toString();
+    card.style.setProperty('--portfolio-aspect-ratio', ratio.toString());
+  }
+
+  /**
+   * Lay out the visible portfolio cards with the configured layout
+   */
+  private layoutPortfolio(): void {
     const container = DOMUtils.getElementById<HTMLElement>('portfolioGrid');
     if (!container) return;
 
-    const items = container.querySelectorAll('.portfolio-item');
-    const containerWidth = container.offsetWidth;
-    const itemMinWidth = 300;
-    const gap = 20;
-    
-    const columns = Math.floor((containerWidth + gap) / (itemMinWidth + gap));
-    const actualColumns = Math.max(1, Math.min(columns, 4));
-    
-    container.style.gridTemplateColumns = `repeat(${actualColumns}, 1fr)`;
+    LayoutUtils.apply(container, this.siteSettings.gridLayout || 'masonry');
+  }
+
+  /**
+   * Re-run the layout once per frame at most, e.g. while images report their sizes
+   */
+  private scheduleLayout(): void {
+    if (this.layoutFrame !== null) return;
+
+    this.layoutFrame = requestAnimationFrame(() => {
+      this.layoutFrame = null;
+      this.layoutPortfolio();
+    });
+  }
+
+  /**
+   * Reload data written by another tab and re-render what depends on it
+   */
+  private async handleStorageChange(key: StorageKeys): Promise<void> {
+    if (key === StorageKeys.SITE_SETTINGS) {
+      this.siteSettings = await AsyncStorage.get(StorageKeys.SITE_SETTINGS, this.getDefaultSettings());
+      await this.applySiteSettings();
+      this.applyPortfolioFilter();
+
+      // Exchange rates live in the settings too
+      this.applyCurrencySettings();
+      await this.renderProductItems();
+      this.refreshPrices();
+      return;
+    }
+
+    // Only redraw what the key feeds, so scroll position and open modals survive
+    switch (key) {
+      case StorageKeys.PORTFOLIO_DATA:
+      case StorageKeys.CATEGORIES:
+        await this.loadPortfolioData();
+        await this.renderPortfolioItems();
+        return;
+
+      case StorageKeys.COUPONS:
+      case StorageKeys.BUNDLES:
+        this.coupons = await AsyncStorage.get<Coupon[]>(StorageKeys.COUPONS, []);
+        this.bundles = await AsyncStorage.get<ProductBundle[]>(StorageKeys.BUNDLES, []);
+        this.refreshPrices();
+        return;
+
+      case StorageKeys.PRODUCTS_DATA:
+      case StorageKeys.PRODUCT_CATEGORIES:
+        await this.loadShopData();
+        await this.renderProductItems();
+        this.refreshPrices();
+        return;
+
+      default:
+        // Orders and restock requests are admin-only records; nothing on the page shows them
+        return;
+    }
   }
 
   /**
@@ -785,14 +2152,7 @@ class PortfolioApp {
    * Get category display name
    */
   private getCategoryName(category: string): string {
-    const categoryNames: Record<string, string> = {
-      'ilustrasi': 'Ilustrasi',
-      'character': 'Character Design',
-      'branding': 'Branding',
-      'editorial': 'Editorial'
-    };
-    
-    return categoryNames[category] || category;
+    return CategoryUtils.getLabel(this.categories, category);
   }
 
   // Default Data
@@ -809,9 +2169,9 @@ class PortfolioApp {
         description: "Karya ilustrasi digital dengan teknik painting dan detail yang kompleks. Menggabungkan elemen fantasi dengan realisme.",
         image: ImageUtils.createPlaceholder(400, 300, "Digital Art"),
         additionalImages: [
-          ImageUtils.createPlaceholder(400, 300, "Mockup"),
-          ImageUtils.createPlaceholder(400, 300, "Process"),
-          ImageUtils.createPlaceholder(400, 300, "Sketch")
+          { src: ImageUtils.createPlaceholder(400, 300, "Mockup"), caption: "Mockup" },
+          { src: ImageUtils.createPlaceholder(400, 300, "Process"), caption: "Process" },
+          { src: ImageUtils.createPlaceholder(400, 300, "Sketch"), caption: "Sketch" }
         ]
       },
       {
@@ -821,9 +2181,9 @@ class PortfolioApp {
         description: "Desain karakter untuk game dan animasi dengan eksplorasi berbagai pose dan ekspresi.",
         image: ImageUtils.createPlaceholder(400, 300, "Character"),
         additionalImages: [
-          ImageUtils.createPlaceholder(400, 300, "Concept"),
-          ImageUtils.createPlaceholder(400, 300, "Turnaround"),
-          ImageUtils.createPlaceholder(400, 300, "Expression")
+          { src: ImageUtils.createPlaceholder(400, 300, "Concept"), caption: "Concept" },
+          { src: ImageUtils.createPlaceholder(400, 300, "Turnaround"), caption: "Turnaround" },
+          { src: ImageUtils.createPlaceholder(400, 300, "Expression"), caption: "Expression" }
         ]
       },
       {
@@ -833,9 +2193,9 @@ class PortfolioApp {
         description: "Identitas visual lengkap untuk startup teknologi, termasuk logo, color palette, dan aplikasi brand.",
         image: ImageUtils.createPlaceholder(400, 300, "Branding"),
         additionalImages: [
-          ImageUtils.createPlaceholder(400, 300, "Logo Variations"),
-          ImageUtils.createPlaceholder(400, 300, "Brand Guidelines"),
-          ImageUtils.createPlaceholder(400, 300, "Applications")
+          { src: ImageUtils.createPlaceholder(400, 300, "Logo Variations"), caption: "Logo Variations" },
+          { src: ImageUtils.createPlaceholder(400, 300, "Brand Guidelines"), caption: "Brand Guidelines" },
+          { src: ImageUtils.createPlaceholder(400, 300, "Applications"), caption: "Applications" }
         ]
       },
       {
@@ -845,8 +2205,8 @@ class PortfolioApp {
         description: "Ilustrasi untuk artikel majalah tentang teknologi dan masa depan dengan gaya minimalis modern.",
         image: ImageUtils.createPlaceholder(400, 300, "Editorial"),
         additionalImages: [
-          ImageUtils.createPlaceholder(400, 300, "Layout"),
-          ImageUtils.createPlaceholder(400, 300, "Sketches")
+          { src: ImageUtils.createPlaceholder(400, 300, "Layout"), caption: "Layout" },
+          { src: ImageUtils.createPlaceholder(400, 300, "Sketches"), caption: "Sketches" }
         ]
       },
       {
@@ -856,8 +2216,8 @@ class PortfolioApp {
         description: "Koleksi desain logo untuk berbagai klien dengan pendekatan yang unik dan memorable.",
         image: ImageUtils.createPlaceholder(400, 300, "Logo"),
         additionalImages: [
-          ImageUtils.createPlaceholder(400, 300, "Process"),
-          ImageUtils.createPlaceholder(400, 300, "Variations")
+          { src: ImageUtils.createPlaceholder(400, 300, "Process"), caption: "Process" },
+          { src: ImageUtils.createPlaceholder(400, 300, "Variations"), caption: "Variations" }
         ]
       },
       {
@@ -867,8 +2227,8 @@ class PortfolioApp {
         description: "Desain cover buku novel dengan ilustrasi yang menangkap esensi cerita dan menarik perhatian pembaca.",
         image: ImageUtils.createPlaceholder(400, 300, "Book Cover"),
         additionalImages: [
-          ImageUtils.createPlaceholder(400, 300, "Mockup"),
-          ImageUtils.createPlaceholder(400, 300, "Concept")
+          { src: ImageUtils.createPlaceholder(400, 300, "Mockup"), caption: "Mockup" },
+          { src: ImageUtils.createPlaceholder(400, 300, "Concept"), caption: "Concept" }
         ]
       },
       {
@@ -0,0 +1,82 @@
+// Shipping costs for Portfolio Application
+import {
+  ProductItem,
+  ShippingZone,
+  SiteSettings,
+  CartSummary,
+  CartSummaryLine
+} from './types.js';
+
+/**
+ * Couriers charge the packed volume when it weighs less than it takes up:
+ * length x width x height (cm) / 6000 gives kilograms
+ */
+const VOLUMETRIC_DIVISOR = 6000;
+
+/**
+ * Estimated shipping for the physical products in a cart, from the rate of
+ * the destination zone the visitor picked. Per-kilogram rates are charged
+ * per started kilogram (at least one) of actual or volumetric weight,
+ * whichever is higher. Digital products never add weight or cost.
+ */
+export class ShippingUtils {
+  static getZones(settings: SiteSettings): ShippingZone[] {
+    return (settings.shippingZones || []).filter(zone => zone.active && zone.name.trim());
+  }
+
+  static findZone(settings: SiteSettings, id: number): ShippingZone | undefined {
+    return this.getZones(settings).find(zone => zone.id === id);
+  }
+
+  /**
+   * Grams charged for one unit
+   */
+  static getWeight(product: ProductItem): number {
+    const { dimensions } = product;
+    const volumetric = dimensions
+      ? dimensions.length * dimensions.width * dimensions.height / VOLUMETRIC_DIVISOR * 1000
+      : 0;
+    return Math.ceil(Math.max(product.weight || 0, volumetric));
+  }
+
+  static needsShipping(lines: CartSummaryLine[]): boolean {
+    return lines.some(line => line.physical);
+  }
+
+  /**
+   * Cost of sending a weight to a zone, before any free-shipping threshold
+   */
+  static getRate(zone: ShippingZone, weight: number): number {
+    if (zone.type === 'flat') return zone.rate;
+    return Math.max(1, Math.ceil(weight / 1000)) * zone.rate;
+  }
+
+  /**
+   * Add shipping to a priced cart (in Rupiah, after promotions)
+   */
+  static apply(summary: CartSummary, zone: ShippingZone | undefined): CartSummary {
+    const result: CartSummary = { ...summary };
+    delete result.shipping;
+    if (!zone || !this.needsShipping(summary.lines)) return result;
+
+    const weight = summary.lines
+      .filter(line => line.physical)
+      .reduce((sum, line) => sum + this.getWeight(line.product) * line.quantity, 0);
+    const free = zone.freeOver !== undefined && summary.total >= zone.freeOver;
+    const cost = free ? 0 : this.getRate(zone, weight);
+
+    result.shipping = { zone, weight, cost, free };
+    result.total = summary.total + cost;
+    return result;
+  }
+
+  /**
+   * Weight for display, e.g. "750 g" or "1,2 kg"
+   */
+  static formatWeight(grams: number): string {
+    if (grams < 1000) return `${grams} g`;
+    return `${(grams / 1000).toLocaleString('id-ID', { maximumFractionDigits: 1 })} kg`;
+  }
+}
+
+export default ShippingUtils;
@@ -0,0 +1,138 @@
+// Stock tracking for Portfolio Application
+import { ProductItem, Order, RestockRequest, RestockChannel } from './types.js';
+import { ValidationUtils } from './utils.js';
+
+/**
+ * Warn about a product at this many units or fewer when it has no threshold of its own
+ */
+export const DEFAULT_LOW_STOCK_THRESHOLD = 3;
+
+/**
+ * Inventory for physical products. A product without a stock number is not
+ * tracked and never sells out; digital products never get one.
+ *
+ * Stock is taken off when the admin marks an order paid (or delivered), and
+ * put back if that order is later cancelled or set back to new.
+ */
+export class StockUtils {
+  static isTracked(product: ProductItem): boolean {
+    return product.stock !== undefined;
+  }
+
+  /**
+   * Units that can still be ordered; unlimited for untracked products
+   */
+  static getAvailable(product: ProductItem): number {
+    return product.stock === undefined ? Infinity : Math.max(0, product.stock);
+  }
+
+  static isSoldOut(product: ProductItem): boolean {
+    return this.getAvailable(product) === 0;
+  }
+
+  static getThreshold(product: ProductItem): number {
+    return product.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+  }
+
+  /**
+   * Tracked, not sold out, but at or below its threshold
+   */
+  static isLowStock(product: ProductItem): boolean {
+    const available = this.getAvailable(product);
+    return available > 0 && available <= this.getThreshold(product);
+  }
+
+  /**
+   * "Stok habis" or "Tinggal N lagi" for the shop, nothing while stock is plentiful
+   */
+  static getLabel(product: ProductItem): string | undefined {
+    if (this.isSoldOut(product)) return 'Stok habis';
+    if (this.isLowStock(product)) return `Tinggal ${this.getAvailable(product)} lagi`;
+    return undefined;
+  }
+
+  /**
+   * Tracked products that are sold out or running low, fewest units first
+   */
+  static getLowStock(products: ProductItem[]): ProductItem[] {
+    return products
+      .filter(product => this.isTracked(product) && this.getAvailable(product) <= this.getThreshold(product))
+      .sort((a, b) => this.getAvailable(a) - this.getAvailable(b));
+  }
+
+  /**
+   * Whether an order's units should be off the stock in its current status
+   */
+  static shouldDeduct(order: Order): boolean {
+    return order.status === 'paid' || order.status === 'delivered';
+  }
+
+  /**
+   * Take an order's units off the stock (-1) or put them back (1).
+   * Taking never goes below zero, so each line remembers how many units it
+   * actually took and putting back returns exactly that many.
+   * Returns whether any product changed.
+   */
+  static applyOrder(products: ProductItem[], order: Order, direction: 1 | -1): boolean {
+    let changed = false;
+
+    order.lines.forEach(line => {
+      const product = products.find(item => item.id === line.productId);
+      const units = direction === -1
+        ? Math.min(line.quantity, Math.max(0, product?.stock ?? 0))
+        : line.stockDeducted ?? 0;
+
+      if (direction === -1 && product?.stock !== undefined) {
+        line.stockDeducted = units;
+      } else {
+        delete line.stockDeducted;
+      }
+      if (!product || product.stock === undefined) return;
+
+      product.stock = Math.max(0, product.stock + direction * units);
+      product.updatedAt = new Date().toISOString();
+      changed = true;
+    });
+
+    return changed;
+  }
+
+  /**
+   * Read a WhatsApp number or email typed by a visitor. Local numbers
+   * starting with 0 are turned into the +62 format WhatsApp links use.
+   */
+  static parseContact(value: string): { channel: RestockChannel; contact: string } | undefined {
+    const trimmed = value.trim();
+    if (trimmed.includes('@')) {
+      return ValidationUtils.isValidEmail(trimmed) ? { channel: 'email', contact: trimmed.toLowerCase() } : undefined;
+    }
+
+    const digits = trimmed.replace(/[\s\-().+]/g, '').replace(/^0/, '62');
+    return /^\d{8,15}$/.test(digits) ? { channel: 'whatsapp', contact: digits } : undefined;
+  }
+
+  /**
+   * Add a request unless the same contact already asked about the product
+   */
+  static addRequest(
+    requests: RestockRequest[],
+    productId: number,
+    channel: RestockChannel,
+    contact: string,
+    now: Date = new Date()
+  ): RestockRequest[] {
+    if (requests.some(request => request.productId === productId && request.contact === contact)) {
+      return requests;
+    }
+
+    return [...requests, {
+      id: Math.max(0, ...requests.map(request => request.id)) + 1,
+      productId,
+      channel,
+      contact,
+      createdAt: now.toISOString()
+    }];
+  }
+}
+
+export default StockUtils;
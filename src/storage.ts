@@ -0,0 +1,540 @@
+// IndexedDB storage layer for Portfolio Application
+import { StorageKeys, StoredImage, MigrationFailure } from './types.js';
+import { SafeStorage } from './utils.js';
+import { SchemaMigrator, MigrationError, SCHEMA_VERSION } from './migrations.js';
+
+const DB_NAME = 'portfolioStorage';
+const DB_VERSION = 1;
+const DATA_STORE = 'data';
+const IMAGE_STORE = 'images';
+const CHANGE_CHANNEL = 'portfolioStorage';
+
+/**
+ * Prefix used in stored payloads to reference a Blob in the image store
+ */
+export const IMAGE_REF_PREFIX = 'idb-image:';
+
+/**
+ * Keys persisted in IndexedDB. The admin session stays in localStorage
+ * because it is tiny and read synchronously on startup.
+ */
+export const PERSISTENT_KEYS: StorageKeys[] = [
+  StorageKeys.PORTFOLIO_DATA,
+  StorageKeys.PRODUCTS_DATA,
+  StorageKeys.SITE_SETTINGS,
+  StorageKeys.CATEGORIES,
+  StorageKeys.PRODUCT_CATEGORIES,
+  StorageKeys.COUPONS,
+  StorageKeys.BUNDLES,
+  StorageKeys.ORDERS,
+  StorageKeys.RESTOCK_REQUESTS
+];
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction has committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Async storage with the same get/set/remove contract as SafeStorage.
+ *
+ * Base64 images found anywhere in a payload are moved into a separate
+ * object store as Blobs and replaced by `idb-image:<id>` references. On
+ * read the references are turned back into object URLs, so callers keep
+ * working with plain image URL strings.
+ *
+ * Payloads are stamped with the schema version and upgraded through
+ * SchemaMigrator when read back.
+ */
+export class AsyncStorage {
+  private static dbPromise: Promise<IDBDatabase | null> | null = null;
+  private static writeQueue: Promise<unknown> = Promise.resolve();
+  private static objectUrls: Map<string, string> = new Map();
+  private static imageIds: Map<string, string> = new Map();
+  private static channel: BroadcastChannel | null = null;
+
+  static async get<T>(key: StorageKeys, defaultValue: T): Promise<T> {
+    const db = await this.open();
+    if (!db) {
+      const stored = SafeStorage.get<unknown>(key, null);
+      if (stored === null) return defaultValue;
+      const data = await this.upgrade<T>(key, stored, null);
+      return data === undefined ? defaultValue : data;
+    }
+
+    try {
+      const transaction = db.transaction(DATA_STORE, 'readonly');
+      const stored = await requestToPromise(transaction.objectStore(DATA_STORE).get(key));
+      if (stored === undefined) return defaultValue;
+
+      const data = await this.upgrade<T>(key, stored, db);
+      if (data === undefined) return defaultValue;
+      return await this.hydrate(data) as T;
+    } catch (error) {
+      console.error(`Error reading from IndexedDB (${key}):`, error);
+      return defaultValue;
+    }
+  }
+
+  static async set<T>(key: StorageKeys, value: T): Promise<boolean> {
+    if (this.isBlocked(key)) return false;
+
+    const db = await this.open();
+    if (!db) {
+      const payload = SchemaMigrator.wrap(value);
+      // Unchanged values are not written, so other tabs are not told to re-render
+      if (JSON.stringify(SafeStorage.get<unknown>(key, null)) === JSON.stringify(payload)) return true;
+
+      const saved = SafeStorage.set(key, payload);
+      if (saved) this.notify(key);
+      return saved;
+    }
+
+    return this.enqueue(async () => {
+      try {
+        const payload = SchemaMigrator.wrap(await this.dehydrate(value, db));
+        const transaction = db.transaction(DATA_STORE, 'readwrite');
+        const store = transaction.objectStore(DATA_STORE);
+
+        // Unchanged values are not written, so other tabs are not told to re-render
+        const existing = await requestToPromise(store.get(key));
+        if (JSON.stringify(existing) === JSON.stringify(payload)) {
+          await transactionDone(transaction);
+          return true;
+        }
+
+        store.put(payload, key);
+        await transactionDone(transaction);
+        await this.collectGarbage(db);
+        this.notify(key);
+        return true;
+      } catch (error) {
+        console.error(`Error writing to IndexedDB (${key}):`, error);
+        return false;
+      }
+    });
+  }
+
+  static async remove(key: StorageKeys): Promise<boolean> {
+    if (this.isBlocked(key)) return false;
+
+    const db = await this.open();
+    if (!db) return SafeStorage.remove(key);
+
+    return this.enqueue(async () => {
+      try {
+        const transaction = db.transaction(DATA_STORE, 'readwrite');
+        transaction.objectStore(DATA_STORE).delete(key);
+        await transactionDone(transaction);
+        await this.collectGarbage(db);
+        this.notify(key);
+        return true;
+      } catch (error) {
+        console.error(`Error removing from IndexedDB (${key}):`, error);
+        return false;
+      }
+    });
+  }
+
+  static async clear(): Promise<boolean> {
+    const db = await this.open();
+    if (!db) return SafeStorage.clear();
+
+    return this.enqueue(async () => {
+      try {
+        const transaction = db.transaction([DATA_STORE, IMAGE_STORE], 'readwrite');
+        transaction.objectStore(DATA_STORE).clear();
+        transaction.objectStore(IMAGE_STORE).clear();
+        await transactionDone(transaction);
+        this.revokeObjectUrls();
+        return true;
+      } catch (error) {
+        console.error('Error clearing IndexedDB:', error);
+        return false;
+      }
+    });
+  }
+
+  /**
+   * The untouched payload kept when a key failed to upgrade, as a backup file
+   * the admin can download before deciding what to do with it
+   */
+  static async getBackup(failure: MigrationFailure): Promise<unknown> {
+    const db = await this.open();
+    if (!db) {
+      const raw = localStorage.getItem(failure.backupKey);
+      return raw === null ? undefined : JSON.parse(raw);
+    }
+
+    const stored = await requestToPromise(
+      db.transaction(DATA_STORE, 'readonly').objectStore(DATA_STORE).get(failure.backupKey)
+    );
+    return stored === undefined ? undefined : this.hydrate(stored);
+  }
+
+  /**
+   * Put the backup of a failed key back in place and allow writes again.
+   * The next load retries the upgrade, e.g. after updating to a build that
+   * understands the data.
+   */
+  static async restoreBackup(failure: MigrationFailure): Promise<boolean> {
+    const db = await this.open();
+    try {
+      if (!db) {
+        const raw = localStorage.getItem(failure.backupKey);
+        if (raw === null) return false;
+        localStorage.setItem(failure.key, raw);
+      } else {
+        const restored = await this.enqueue(async () => {
+          const transaction = db.transaction(DATA_STORE, 'readwrite');
+          const store = transaction.objectStore(DATA_STORE);
+          const stored = await requestToPromise(store.get(failure.backupKey));
+          if (stored === undefined) return false;
+          store.put(stored, failure.key);
+          await transactionDone(transaction);
+          return true;
+        });
+        if (!restored) return false;
+      }
+    } catch (error) {
+      console.error(`Error restoring backup of ${failure.key}:`, error);
+      return false;
+    }
+
+    SchemaMigrator.resolveFailure(failure.key);
+    this.notify(failure.key);
+    return true;
+  }
+
+  /**
+   * Listen for writes made in other tabs, e.g. the admin panel saving settings
+   */
+  static subscribe(listener: (key: StorageKeys) => void): void {
+    this.getChannel()?.addEventListener('message', (event: MessageEvent) => {
+      if (event.data && typeof event.data.key === 'string') {
+        listener(event.data.key as StorageKeys);
+      }
+    });
+  }
+
+  /**
+   * Check whether IndexedDB is backing the storage (false means localStorage fallback)
+   */
+  static async isPersistent(): Promise<boolean> {
+    return (await this.open()) !== null;
+  }
+
+  /**
+   * Refuse writes to a key whose stored data failed to upgrade, so the
+   * defaults loaded in its place never overwrite it
+   */
+  private static isBlocked(key: StorageKeys): boolean {
+    if (!SchemaMigrator.isBlocked(key)) return false;
+    console.warn(`Not saving ${key}: its stored data could not be upgraded and has not been restored yet`);
+    return true;
+  }
+
+  private static notify(key: StorageKeys): void {
+    this.getChannel()?.postMessage({ key });
+  }
+
+  private static getChannel(): BroadcastChannel | null {
+    if (!this.channel && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANGE_CHANNEL);
+    }
+    return this.channel;
+  }
+
+  /**
+   * Open the database once, migrating legacy localStorage data on the way
+   */
+  private static open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDatabase().then(async db => {
+        if (db) await this.migrateFromLocalStorage(db);
+        return db;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private static openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      console.warn('IndexedDB not available, falling back to localStorage');
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DATA_STORE)) {
+          db.createObjectStore(DATA_STORE);
+        }
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+          db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Failed to open IndexedDB, falling back to localStorage:', request.error);
+        resolve(null);
+      };
+      request.onblocked = () => {
+        console.warn('IndexedDB upgrade blocked by another tab');
+      };
+    });
+  }
+
+  /**
+   * Move payloads still sitting in localStorage into IndexedDB.
+   * A key is only removed from localStorage after it was written successfully.
+   */
+  private static async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    for (const key of PERSISTENT_KEYS) {
+      let raw: string | null;
+      try {
+        raw = localStorage.getItem(key);
+      } catch {
+        return;
+      }
+      if (raw === null) continue;
+
+      try {
+        const existing = await requestToPromise(
+          db.transaction(DATA_STORE, 'readonly').objectStore(DATA_STORE).get(key)
+        );
+
+        if (existing === undefined) {
+          const payload = await this.dehydrate(JSON.parse(raw), db);
+          const transaction = db.transaction(DATA_STORE, 'readwrite');
+          transaction.objectStore(DATA_STORE).put(payload, key);
+          await transactionDone(transaction);
+        }
+
+        localStorage.removeItem(key);
+        console.log(`📦 Migrated ${key} from localStorage to IndexedDB`);
+      } catch (error) {
+        console.error(`Failed to migrate ${key} to IndexedDB:`, error);
+      }
+    }
+  }
+
+  /**
+   * Bring a stored payload up to the current schema version.
+   * Upgraded payloads are written back so each migration runs once; on
+   * failure the original payload is kept under a backup key and undefined
+   * is returned so the caller falls back to its default.
+   */
+  private static async upgrade<T>(key: StorageKeys, stored: unknown, db: IDBDatabase | null): Promise<T | undefined> {
+    try {
+      const { data, migrated, fromVersion } = SchemaMigrator.upgrade<T>(key, stored);
+
+      if (migrated) {
+        const payload = SchemaMigrator.wrap(data);
+        if (db) {
+          await this.enqueue(async () => {
+            const transaction = db.transaction(DATA_STORE, 'readwrite');
+            transaction.objectStore(DATA_STORE).put(payload, key);
+            await transactionDone(transaction);
+          });
+        } else {
+          SafeStorage.set(key, payload);
+        }
+        console.log(`🔄 Upgraded ${key} from schema v${fromVersion} to v${payload.schemaVersion}`);
+      }
+
+      return data;
+    } catch (error) {
+      if (!(error instanceof MigrationError)) throw error;
+
+      const backupKey = SchemaMigrator.getBackupKey(key, error.fromVersion);
+      if (db) {
+        await this.enqueue(async () => {
+          const transaction = db.transaction(DATA_STORE, 'readwrite');
+          transaction.objectStore(DATA_STORE).put(stored, backupKey);
+          await transactionDone(transaction);
+        });
+      } else {
+        try {
+          localStorage.setItem(backupKey, JSON.stringify(stored));
+        } catch (backupError) {
+          console.error(`Failed to back up ${key} before fallback:`, backupError);
+        }
+      }
+
+      SchemaMigrator.recordFailure({
+        key,
+        fromVersion: error.fromVersion,
+        toVersion: SCHEMA_VERSION,
+        message: error.message,
+        backupKey
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Serialize writes so garbage collection never races a pending payload
+   */
+  private static enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task, task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Replace base64 data URLs and known object URLs with image references
+   */
+  private static async dehydrate(value: unknown, db: IDBDatabase): Promise<unknown> {
+    if (typeof value === 'string') {
+      const knownId = this.imageIds.get(value);
+      if (knownId) return IMAGE_REF_PREFIX + knownId;
+
+      if (value.startsWith('data:') && value.includes(';base64,')) {
+        const id = await this.saveImage(value, db);
+        return IMAGE_REF_PREFIX + id;
+      }
+      return value;
+    }
+
+    if (Array.isArray(value)) {
+      const result: unknown[] = [];
+      for (const entry of value) {
+        result.push(await this.dehydrate(entry, db));
+      }
+      return result;
+    }
+
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [prop, entry] of Object.entries(value)) {
+        result[prop] = await this.dehydrate(entry, db);
+      }
+      return result;
+    }
+
+    return value;
+  }
+
+  /**
+   * Replace image references with object URLs
+   */
+  private static async hydrate(value: unknown): Promise<unknown> {
+    if (typeof value === 'string') {
+      return value.startsWith(IMAGE_REF_PREFIX)
+        ? this.resolveImage(value.substring(IMAGE_REF_PREFIX.length))
+        : value;
+    }
+
+    if (Array.isArray(value)) {
+      return Promise.all(value.map(entry => this.hydrate(entry)));
+    }
+
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [prop, entry] of Object.entries(value)) {
+        result[prop] = await this.hydrate(entry);
+      }
+      return result;
+    }
+
+    return value;
+  }
+
+  /**
+   * Store a data URL as a Blob and return its id
+   */
+  private static async saveImage(dataUrl: string, db: IDBDatabase): Promise<string> {
+    const blob = await (await fetch(dataUrl)).blob();
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+    const record: StoredImage = { id, blob, createdAt: new Date().toISOString() };
+
+    const transaction = db.transaction(IMAGE_STORE, 'readwrite');
+    transaction.objectStore(IMAGE_STORE).put(record);
+    await transactionDone(transaction);
+
+    return id;
+  }
+
+  /**
+   * Get an object URL for a stored image, reusing URLs already handed out
+   */
+  private static async resolveImage(id: string): Promise<string> {
+    const cached = this.objectUrls.get(id);
+    if (cached) return cached;
+
+    const db = await this.open();
+    if (!db) return '';
+
+    const record = await requestToPromise<StoredImage | undefined>(
+      db.transaction(IMAGE_STORE, 'readonly').objectStore(IMAGE_STORE).get(id)
+    );
+    if (!record) {
+      console.warn(`Image ${id} missing from IndexedDB`);
+      return '';
+    }
+
+    const url = URL.createObjectURL(record.blob);
+    this.objectUrls.set(id, url);
+    this.imageIds.set(url, id);
+    return url;
+  }
+
+  /**
+   * Delete images no longer referenced by any stored payload
+   */
+  private static async collectGarbage(db: IDBDatabase): Promise<void> {
+    const transaction = db.transaction([DATA_STORE, IMAGE_STORE], 'readwrite');
+    const payloads = await requestToPromise(transaction.objectStore(DATA_STORE).getAll());
+    const imageIds = await requestToPromise(transaction.objectStore(IMAGE_STORE).getAllKeys());
+
+    const referenced = new Set<string>();
+    const refPattern = new RegExp(`${IMAGE_REF_PREFIX}([\\w-]+)`, 'g');
+    for (const payload of payloads) {
+      for (const match of JSON.stringify(payload).matchAll(refPattern)) {
+        if (match[1]) referenced.add(match[1]);
+      }
+    }
+
+    for (const id of imageIds) {
+      if (typeof id === 'string' && !referenced.has(id)) {
+        transaction.objectStore(IMAGE_STORE).delete(id);
+        const url = this.objectUrls.get(id);
+        if (url) {
+          URL.revokeObjectURL(url);
+          this.objectUrls.delete(id);
+          this.imageIds.delete(url);
+        }
+      }
+    }
+
+    await transactionDone(transaction);
+  }
+
+  private static revokeObjectUrls(): void {
+    this.objectUrls.forEach(url => URL.revokeObjectURL(url));
+    this.objectUrls.clear();
+    this.imageIds.clear();
+  }
+}
+
+export default AsyncStorage;
@@ -0,0 +1,131 @@
+// WhatsApp message templates for Portfolio Application
+import {
+  MessageTemplateKey,
+  MessageTemplates,
+  SiteSettings,
+  PortfolioItem,
+  ProductItem,
+  ProductCategory,
+  ProductVariant,
+  CartSummary,
+  CurrencySetting
+} from './types.js';
+import { CartUtils } from './cart.js';
+import { PricingUtils } from './pricing.js';
+import { VariantUtils } from './variants.js';
+import { PromoUtils } from './promotions.js';
+import { CurrencyUtils, BASE_CURRENCY } from './currency.js';
+
+/**
+ * Messages used until the admin edits them in the Settings tab
+ */
+export const DEFAULT_MESSAGE_TEMPLATES: MessageTemplates = {
+  contact: 'Halo, saya tertarik dengan portfolio Anda.',
+  portfolio: 'Halo, saya tertarik dengan karya "{item.title}" ({item.url}).',
+  product: 'Halo, saya tertarik dengan produk "{product.name}" seharga {product.price}.',
+  cart: 'Halo, saya ingin memesan:\n{cart.lines}\n\nTotal: {cart.total}'
+};
+
+/**
+ * Placeholders each template may use
+ */
+export const TEMPLATE_PLACEHOLDERS: Record<MessageTemplateKey, string[]> = {
+  contact: ['{site.name}'],
+  portfolio: ['{site.name}', '{item.title}', '{item.category}', '{item.url}'],
+  product: [
+    '{site.name}', '{product.name}', '{product.variant}', '{product.price}', '{product.category}',
+    '{product.type}', '{product.license}', '{product.url}', '{product.currency}'
+  ],
+  cart: [
+    '{site.name}', '{cart.lines}', '{cart.count}', '{cart.subtotal}', '{cart.discount}', '{cart.coupon}',
+    '{cart.total}', '{cart.shipping}', '{cart.currency}'
+  ]
+};
+
+const PLACEHOLDER_PATTERN = /\{[\w.]+\}/g;
+
+/**
+ * Template lookup, validation and rendering for WhatsApp messages
+ */
+export class TemplateUtils {
+  /**
+   * The admin's template for a message, or the default
+   */
+  static get(settings: SiteSettings, key: MessageTemplateKey): string {
+    return settings.messageTemplates?.[key]?.trim() || DEFAULT_MESSAGE_TEMPLATES[key];
+  }
+
+  /**
+   * Fill placeholders; unknown ones are left as typed
+   */
+  static render(template: string, values: Record<string, string>): string {
+    return template.replace(PLACEHOLDER_PATTERN, placeholder => values[placeholder] ?? placeholder);
+  }
+
+  /**
+   * Placeholders in a template that the given message does not support,
+   * e.g. a typo like {product.nmae} or {cart.lines} in the contact message
+   */
+  static findUnknown(template: string, key: MessageTemplateKey): string[] {
+    const allowed = new Set(TEMPLATE_PLACEHOLDERS[key]);
+    const found = template.match(PLACEHOLDER_PATTERN) || [];
+    return [...new Set(found.filter(placeholder => !allowed.has(placeholder)))];
+  }
+
+  /**
+   * Placeholder values for each kind of message
+   */
+  static siteValues(settings: SiteSettings): Record<string, string> {
+    return { '{site.name}': settings.siteName };
+  }
+
+  static portfolioValues(item: PortfolioItem, categoryLabel: string, url: string): Record<string, string> {
+    return {
+      '{item.title}': item.title,
+      '{item.category}': categoryLabel,
+      '{item.url}': url
+    };
+  }
+
+  static productValues(
+    product: ProductItem,
+    variant: ProductVariant | undefined,
+    category: ProductCategory | undefined,
+    url: string,
+    currency: CurrencySetting = BASE_CURRENCY
+  ): Record<string, string> {
+    const sold = VariantUtils.apply(product, variant);
+    const price = CurrencyUtils.convertPrice(PricingUtils.getPrice(sold).price, currency, sold);
+    return {
+      '{product.name}': VariantUtils.getName(product, variant),
+      '{product.variant}': variant?.name || '',
+      '{product.price}': CurrencyUtils.format(price, currency),
+      '{product.category}': category?.label || product.category || '',
+      '{product.type}': (product.type || category?.defaultType) === 'physical' ? 'fisik' : 'digital',
+      '{product.license}': sold.license || category?.defaultLicense || '',
+      '{product.url}': url,
+      '{product.currency}': currency.code
+    };
+  }
+
+  /**
+   * Pass the currency the summary was converted to
+   */
+  static cartValues(summary: CartSummary, currency: CurrencySetting = BASE_CURRENCY): Record<string, string> {
+    const format = (amount: number) => CurrencyUtils.format(amount, currency);
+    return {
+      '{cart.lines}': CartUtils.formatLines(summary, currency).join('\n'),
+      '{cart.count}': String(summary.itemCount),
+      '{cart.subtotal}': format(summary.subtotal),
+      '{cart.discount}': format(summary.discount + PromoUtils.getPromoSavings(summary)),
+      '{cart.coupon}': summary.coupon?.coupon.code || '',
+      '{cart.total}': format(summary.total),
+      '{cart.shipping}': summary.shipping
+        ? `${summary.shipping.zone.name}, ${summary.shipping.free ? 'gratis' : format(summary.shipping.cost)}`
+        : '',
+      '{cart.currency}': currency.code
+    };
+  }
+}
+
+export default TemplateUtils;
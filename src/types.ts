@@ -4,16 +4,72 @@
 export interface PortfolioItem {
   id: number;
   title: string;
-  category: CategoryName;
-  image: string;
+  category: CategoryName; // PortfolioCategory slug
+  image: string; // URL, or 'idb-image:<id>' reference while stored
   thumbnail?: string;
   description?: string;
-  additionalImages?: string[];
-  status?: string;
+  additionalImages?: PortfolioImage[]; // Shown after the main image, in this order
+  imageWidth?: number; // Pixel size of the card image, used by the masonry layout
+  imageHeight?: number;
+  size?: SizeName; // Display size in the public grid, normal when unset
+  status?: 'active' | 'inactive';
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Additional portfolio image (mockup, process shot, detail)
+export interface PortfolioImage {
+  src: string; // URL, or 'idb-image:<id>' reference while stored
+  caption?: string;
+  alt?: string;
+}
+
+// Fields shared by portfolio and product categories
+export interface CategoryBase {
+  id: number;
+  slug: string;
+  label: string;
+  order: number;
+}
+
+// Which category list an admin action applies to
+export type CategoryKind = 'portfolio' | 'product';
+
+// Portfolio Category Interface
+export interface PortfolioCategory extends CategoryBase {}
+
+// Product Category Interface with defaults for new products
+export interface ProductCategory extends CategoryBase {
+  icon: string; // Font Awesome classes, e.g. 'fas fa-font'
+  defaultType: ProductType;
+  defaultLicense?: string;
+  whatsappTemplate?: string; // Overrides the site-wide product template; same placeholders
+}
+
+// Public portfolio grid filter, mirrored in the ?category=&q=&page= URL params
+export interface PortfolioFilter {
+  category: string; // Category slug, '' for all
+  query: string;
+  page: number; // 1-based; only put in the URL for numbered pages
+}
+
+// Public site location parsed from the URL hash: #<section>, #/work/<slug> or #/shop/<slug>
+export interface SiteRoute {
+  section: string; // Id of the section to show
+  kind?: RouteKind; // Set when the hash points at a single item
+  slug?: string;
+}
+
+export type RouteKind = 'work' | 'shop';
+
+// Portfolio item as stepped through in the gallery lightbox
+export interface LightboxItem {
+  id: number;
+  title: string;
+  caption?: string; // Shown for images without a caption of their own
+  images: PortfolioImage[]; // Main image first
+}
+
 // Product Item Interface
 export interface ProductItem {
   id: number;
@@ -21,17 +77,228 @@ export interface ProductItem {
   price: number;
   originalPrice?: number; // For discount calculation
   discount?: number; // Discount percentage (0-100)
+  saleStartsAt?: string; // ISO date; the discount only applies from here...
+  saleEndsAt?: string; // ...until here, both optional
   description: string;
-  image: string;
+  image: string; // URL, or 'idb-image:<id>' reference while stored
   status: 'active' | 'inactive';
   type?: 'digital' | 'physical';
-  category?: ProductCategoryName;
+  category?: ProductCategoryName; // ProductCategory slug
+  license?: string;
+  details?: string; // Long description for the detail modal; blank lines start a new paragraph
+  fileFormat?: string; // e.g. 'ABR, 24 brush'
   additionalImages?: string[];
+  variants?: ProductVariant[]; // License tiers or editions, see variants.ts
+  currencyPrices?: Partial<Record<CurrencyCode, number>>; // Fixed price in a foreign currency instead of converting `price`
+  stock?: number; // Units left of a physical product; untracked when unset, see stock.ts
+  lowStockThreshold?: number; // Warn and show "only N left" at or below this
+  weight?: number; // Grams per unit, for shipping physical products
+  dimensions?: ProductDimensions; // Packed size, for volumetric weight
   downloadLink?: string; // For digital products
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Packed size in centimetres
+export interface ProductDimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+// One purchasable option of a product, e.g. a personal or commercial license
+export interface ProductVariant {
+  id: number; // Unique within the product
+  name: string;
+  price: number;
+  originalPrice?: number;
+  license?: string; // Replaces the product license when set
+  active: boolean;
+}
+
+// A product's price at a given moment, see pricing.ts
+export interface ProductPrice {
+  price: number; // What the visitor pays now
+  regularPrice: number; // Price outside of a sale
+  discountPercent: number;
+  onSale: boolean;
+  saleEndsAt?: Date; // Set while a sale with an end date runs
+}
+
+// Product in the visitor's cart, persisted per browser
+export interface CartLine {
+  productId: number;
+  variantId?: number; // Set for products with variants
+  quantity: number; // Always 1 for digital products
+}
+
+// Cart line priced against the current product data
+export interface CartSummaryLine {
+  key: string; // Identifies the line, see CartUtils.getKey
+  product: ProductItem;
+  variant?: ProductVariant;
+  name: string; // Product name including the variant
+  quantity: number;
+  physical: boolean;
+  unitPrice: number;
+  lineTotal: number;
+  savings: number; // Against the regular price while the product is on sale
+}
+
+export interface CartSummary {
+  lines: CartSummaryLine[];
+  itemCount: number;
+  subtotal: number; // Before discounts
+  discount: number; // Sale prices only
+  bundles: AppliedBundle[];
+  coupon?: AppliedCoupon;
+  couponError?: string; // Why an entered coupon code does not apply
+  shipping?: AppliedShipping; // Set for carts with physical products once a destination is picked
+  total: number; // Including shipping
+}
+
+export type ShippingRateType = 'flat' | 'per-kg';
+
+// Destination with its shipping rate, set up in the admin settings
+export interface ShippingZone {
+  id: number;
+  name: string; // e.g. 'Jabodetabek' or 'Luar Jawa'
+  type: ShippingRateType;
+  rate: number; // Rupiah per order, or per started kilogram
+  freeOver?: number; // Free shipping from this order total (Rupiah)
+  active: boolean;
+}
+
+export interface AppliedShipping {
+  zone: ShippingZone;
+  weight: number; // Grams charged, see shipping.ts
+  cost: number; // 0 when free
+  free: boolean;
+}
+
+export type OrderStatus = 'new' | 'paid' | 'delivered' | 'cancelled';
+
+// Where on the site the visitor sent the order from
+export type OrderSource = 'cart' | 'direct';
+
+export interface OrderLine {
+  productId: number;
+  variantId?: number;
+  name: string; // Product name with variant, as sent in the message
+  quantity: number;
+  unitPrice: number; // In the order currency
+  lineTotal: number;
+  stockDeducted?: number; // Units actually taken off stock, which can be fewer than ordered
+}
+
+// Record of an order received over WhatsApp and entered in the admin panel, see orders.ts
+export interface Order {
+  id: number;
+  createdAt: string; // ISO date
+  updatedAt?: string;
+  status: OrderStatus;
+  source: OrderSource;
+  currency: CurrencyCode;
+  lines: OrderLine[];
+  subtotal: number; // Before any discount, in the order currency
+  discount: number; // Sale prices, bundles and coupon together
+  total: number;
+  totalIdr: number; // Total in Rupiah, for statistics across currencies
+  couponCode?: string;
+  note?: string; // Admin annotation
+  invoiceNumber?: string; // Assigned the first time an invoice is generated, see invoices.ts
+  invoicedAt?: string; // ISO date
+  stockDeducted?: boolean; // Set while the order's units are taken off product stock
+  shipping?: number; // Included in total, in the order currency
+  shippingZone?: string; // Zone name at the time of the order
+}
+
+// Order line as entered in the admin panel; totals and stock are worked out on saving
+export type OrderInputLine = Pick<OrderLine, 'productId' | 'variantId' | 'name' | 'quantity' | 'unitPrice'>;
+
+// Order fields as entered in the admin panel's order form
+export interface OrderInput {
+  createdAt: string; // ISO date
+  status: OrderStatus;
+  source: OrderSource;
+  currency: CurrencyCode;
+  lines: OrderInputLine[];
+  discount: number; // Bundles, coupon and other reductions, in the order currency
+  shipping?: number;
+  shippingZone?: string;
+  couponCode?: string;
+  note?: string;
+}
+
+// Order details read back from a WhatsApp order message, see OrderUtils.parseMessage
+export interface ParsedOrderMessage {
+  source: OrderSource;
+  lines: CartLine[];
+  unmatched: string[]; // Product names in the message that match no product
+  couponCode?: string;
+  shippingZone?: string; // Zone name
+}
+
+export interface OrderFilter {
+  status: OrderStatus | '';
+  month: string; // 'YYYY-MM', or '' for all
+  query: string;
+}
+
+export interface MonthlyOrderTotals {
+  month: string; // 'YYYY-MM'
+  count: number; // Orders that were not cancelled
+  paidCount: number; // Paid or delivered
+  paidTotal: number; // In Rupiah
+}
+
+export type RestockChannel = 'whatsapp' | 'email';
+
+// Visitor asking to hear when a sold-out product is back
+export interface RestockRequest {
+  id: number;
+  productId: number;
+  channel: RestockChannel;
+  contact: string; // WhatsApp number in international format, or email
+  createdAt: string; // ISO date
+}
+
+export type CouponType = 'percent' | 'fixed';
+
+// Coupon code visitors enter in the cart or product modal
+export interface Coupon {
+  id: number;
+  code: string; // Stored upper-case, matched case-insensitively
+  type: CouponType;
+  value: number; // Percentage (1-100) or amount in Rupiah
+  startsAt?: string; // ISO date
+  endsAt?: string;
+  usageLimit?: number;
+  usedCount?: number; // Orders in the order log with this code, see PromoUtils.countUses
+  categories?: ProductCategoryName[]; // Applies to every product when empty
+  active: boolean;
+}
+
+// Fixed price for buying a set of products together
+export interface ProductBundle {
+  id: number;
+  name: string;
+  productIds: number[];
+  price: number;
+  active: boolean;
+}
+
+export interface AppliedBundle {
+  bundle: ProductBundle;
+  count: number; // How many complete sets the cart holds
+  savings: number;
+}
+
+export interface AppliedCoupon {
+  coupon: Coupon;
+  savings: number;
+}
+
 // Site Settings Interface
 export interface SiteSettings {
   siteName: string;
@@ -41,19 +308,82 @@ export interface SiteSettings {
   aboutText: string;
   profileImage?: string;
   backgroundImage?: string;
-  gridLayout?: 'masonry' | 'grid' | 'list';
+  gridLayout?: GridLayout;
   itemsPerPage?: number;
+  pagingMode?: PagingMode;
   showCategories?: boolean;
   enableAnimations?: boolean;
+  sessionTimeoutMinutes?: number;
+  rememberMeDays?: number;
+  messageTemplates?: Partial<MessageTemplates>;
+  currencies?: CurrencySetting[]; // Foreign currencies offered next to IDR
+  shippingZones?: ShippingZone[];
+  invoicePrefix?: string; // e.g. 'INV' for INV-2026-0001
+  paymentInstructions?: string; // Printed on invoices, e.g. bank account details
+}
+
+export type CurrencyCode = string; // ISO 4217, e.g. 'USD'
+
+// How converted product prices are rounded: to cents, whole units, or just below them (12.99)
+export type CurrencyRounding = 'cents' | 'whole' | 'charm';
+
+// A currency visitors can switch to, see currency.ts
+export interface CurrencySetting {
+  code: CurrencyCode;
+  rate: number; // Rupiah per unit, e.g. 16000 for USD
+  rounding: CurrencyRounding;
+  active: boolean;
 }
 
+// Editable WhatsApp messages, see templates.ts for their placeholders
+export type MessageTemplateKey = 'contact' | 'portfolio' | 'product' | 'cart';
+
+export type MessageTemplates = Record<MessageTemplateKey, string>;
+
 // User Interface
 export interface User {
   username: string;
-  password: string;
   lastLogin?: string;
 }
 
+// Admin session kept in localStorage under StorageKeys.USER_DATA
+export interface AdminSession extends User {
+  createdAt: string;
+  expiresAt: string;
+  lastActivity: string;
+  remember: boolean;
+}
+
+// Session timing taken from SiteSettings
+export interface SessionConfig {
+  idleMinutes: number;
+  rememberDays: number;
+}
+
+// Failed login bookkeeping for the exponential lockout
+export interface LoginAttemptState {
+  failedAttempts: number;
+  lockedUntil?: string;
+  lastFailedAt?: string;
+}
+
+// One entry of the admin login history
+export interface LoginRecord {
+  username: string;
+  timestamp: string;
+  success: boolean;
+}
+
+// Admin credentials as stored: a salted PBKDF2 hash, never the password
+export interface StoredCredentials {
+  username: string;
+  passwordHash: string; // base64
+  salt: string; // base64
+  iterations: number;
+  algorithm: 'PBKDF2-SHA256';
+  updatedAt: string;
+}
+
 // Thumbnail Size Configuration
 export interface ThumbnailSize {
   name: string;
@@ -69,6 +399,60 @@ export interface ThumbnailSizes {
   tall2x: ThumbnailSize;
 }
 
+// Image record kept in the IndexedDB image store
+export interface StoredImage {
+  id: string;
+  blob: Blob;
+  createdAt: string;
+}
+
+// Stored payload stamped with the schema version it was written with
+export interface VersionedPayload<T = unknown> {
+  schemaVersion: number;
+  data: T;
+}
+
+// Migration upgrading one stored key to the given schema version
+export interface DataMigration {
+  version: number;
+  key: StorageKeys;
+  description: string;
+  migrate: (data: unknown) => unknown;
+}
+
+// Migration that could not be applied on load
+export interface MigrationFailure {
+  key: StorageKeys;
+  fromVersion: number;
+  toVersion: number;
+  message: string;
+  backupKey: string;
+}
+
+// Site backup bundle with images embedded as data URLs
+export interface SiteBackup {
+  format: 'portfolio-backup';
+  schemaVersion: number;
+  exportedAt: string;
+  contents: Partial<Record<StorageKeys, unknown>>;
+}
+
+// Differences for one stored collection between current data and a backup
+export interface CollectionDiff {
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+// Differences between current data and a backup, per storage key
+export interface BackupDiff {
+  collections: Partial<Record<StorageKeys, CollectionDiff>>;
+  changedSettings: StorageKeys[];
+}
+
+// How an imported backup is applied
+export type BackupImportMode = 'merge' | 'replace';
+
 // Cropper Configuration
 export interface CropperConfig {
   aspectRatio: number;
@@ -92,13 +476,19 @@ export type MessageType = 'success' | 'error' | 'warning' | 'info';
 export type ImageTarget = 'profile' | 'portfolio' | 'product' | 'portfolio-thumbnail';
 
 // Tab Names
-export type TabName = 'dashboard' | 'portfolio' | 'products' | 'settings';
+export type TabName = 'dashboard' | 'portfolio' | 'categories' | 'products' | 'promos' | 'orders' | 'settings';
+
+// Category Names (slugs of the admin-defined PortfolioCategory list)
+export type CategoryName = string;
+
+// Product Category Names (slugs of the admin-defined ProductCategory list)
+export type ProductCategoryName = string;
 
-// Category Names
-export type CategoryName = 'ilustrasi' | 'character' | 'branding' | 'editorial' | 'concept';
+// Public portfolio grid layout engine
+export type GridLayout = 'masonry' | 'grid' | 'list';
 
-// Product Category Names
-export type ProductCategoryName = 'brush' | 'font' | 'action' | 'texture' | 'template' | 'other';
+// How the public portfolio grid pages through items
+export type PagingMode = 'pages' | 'load-more' | 'infinite';
 
 // Size Names
 export type SizeName = 'normal' | 'wide2x' | 'tall2x';
@@ -112,7 +502,6 @@ export interface DOMElements {
   navMenu?: HTMLElement | null;
   navLinks?: NodeListOf<HTMLElement>;
   sections?: NodeListOf<HTMLElement>;
-  productButtons?: NodeListOf<HTMLElement>;
   portfolioItems?: NodeListOf<HTMLElement>;
   portfolioGrid?: HTMLElement | null;
   productsGrid?: HTMLElement | null;
@@ -143,7 +532,20 @@ export enum StorageKeys {
   PORTFOLIO_DATA = 'portfolioData',
   PRODUCTS_DATA = 'productsData',
   SITE_SETTINGS = 'siteSettings',
-  USER_DATA = 'userData'
+  CATEGORIES = 'portfolioCategories',
+  PRODUCT_CATEGORIES = 'productCategories',
+  USER_DATA = 'userData',
+  ADMIN_CREDENTIALS = 'adminCredentials',
+  LOGIN_ATTEMPTS = 'loginAttempts',
+  LOGIN_HISTORY = 'loginHistory',
+  CART = 'shoppingCart',
+  CART_COUPON = 'cartCoupon',
+  CART_DESTINATION = 'cartDestination',
+  CURRENCY = 'visitorCurrency',
+  COUPONS = 'coupons',
+  BUNDLES = 'productBundles',
+  ORDERS = 'orders',
+  RESTOCK_REQUESTS = 'restockRequests'
 }
 
 // Animation Configuration
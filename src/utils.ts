@@ -237,6 +237,43 @@ export class AnimationUtils {
     requestAnimationFrame(animate);
   }
 
+  /**
+   * Animate elements from their old to their new position after a layout
+   * change (FLIP). Elements that were not visible before fade in instead.
+   */
+  static flip(elements: HTMLElement[], mutate: VoidFunction, duration = 300): void {
+    const isVisible = (element: HTMLElement) => element.getClientRects().length > 0;
+    const before = new Map<HTMLElement, DOMRect>();
+    elements.forEach(element => {
+      if (isVisible(element)) before.set(element, element.getBoundingClientRect());
+    });
+
+    mutate();
+
+    elements.forEach(element => {
+      if (!isVisible(element)) return;
+
+      const first = before.get(element);
+      if (!first) {
+        element.animate(
+          [{ opacity: 0, transform: 'scale(0.95)' }, { opacity: 1, transform: 'none' }],
+          { duration, easing: 'ease-out' }
+        );
+        return;
+      }
+
+      const last = element.getBoundingClientRect();
+      const deltaX = first.left - last.left;
+      const deltaY = first.top - last.top;
+      if (deltaX || deltaY) {
+        element.animate(
+          [{ transform: `translate(${deltaX}px, ${deltaY}px)` }, { transform: 'none' }],
+          { duration, easing: 'ease-in-out' }
+        );
+      }
+    });
+  }
+
   static slideUp(element: HTMLElement, duration = 300): Promise<void> {
     return new Promise(resolve => {
       const height = element.offsetHeight;
@@ -348,6 +385,11 @@ export class ImageUtils {
       canvas.width = width;
       canvas.height = height;
       
+      // Remote images must allow CORS or the canvas cannot be exported
+      if (!imageUrl.startsWith('data:')) {
+        img.crossOrigin = 'anonymous';
+      }
+      
       img.onload = () => {
         // Calculate aspect ratio and crop to fit
         const aspectRatio = img.width / img.height;
@@ -369,7 +411,11 @@ export class ImageUtils {
         }
         
         ctx.drawImage(img, offsetX, offsetY, drawWidth, drawHeight, 0, 0, width, height);
-        resolve(canvas.toDataURL('image/jpeg', 0.8));
+        try {
+          resolve(canvas.toDataURL('image/jpeg', 0.8));
+        } catch (error) {
+          reject(error);
+        }
       };
       
       img.onerror = () => reject(new Error('Failed to load image'));
@@ -517,6 +563,18 @@ export class FormatUtils {
     return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
   }
 
+  /**
+   * Escape text typed by users before it goes into an innerHTML template
+   */
+  static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
   static truncateText(text: string, maxLength: number, suffix = '...'): string {
     if (text.length <= maxLength) return text;
     return text.substring(0, maxLength - suffix.length) + suffix;
@@ -0,0 +1,67 @@
+// Product variants (license tiers) for Portfolio Application
+import { ProductItem, ProductVariant } from './types.js';
+
+/**
+ * Variants let one product sell under several licenses or editions.
+ * A product without active variants is sold as-is; otherwise the visitor
+ * picks one and its price, original price and license replace the product's.
+ */
+export class VariantUtils {
+  /**
+   * Variants visitors can choose, in the order the admin listed them
+   */
+  static getActive(product: ProductItem): ProductVariant[] {
+    return (product.variants || []).filter(variant => variant.active);
+  }
+
+  static hasVariants(product: ProductItem): boolean {
+    return this.getActive(product).length > 0;
+  }
+
+  /**
+   * Active variant by id, falling back to the first one when no id is given
+   */
+  static find(product: ProductItem, variantId?: number): ProductVariant | undefined {
+    const variants = this.getActive(product);
+    return variantId === undefined ? variants[0] : variants.find(variant => variant.id === variantId);
+  }
+
+  /**
+   * The product as sold in a variant: the variant's price and license, the product's sale window
+   */
+  static apply(product: ProductItem, variant: ProductVariant | undefined): ProductItem {
+    if (!variant) return product;
+
+    const result: ProductItem = { ...product, price: variant.price };
+    if (variant.originalPrice !== undefined) {
+      result.originalPrice = variant.originalPrice;
+    } else {
+      delete result.originalPrice;
+    }
+    if (variant.license) result.license = variant.license;
+    // Fixed foreign prices belong to the product's own price, not its variants'
+    delete result.currencyPrices;
+    return result;
+  }
+
+  /**
+   * The product as sold in each of its active variants, or just the product
+   */
+  static expand(product: ProductItem): ProductItem[] {
+    const variants = this.getActive(product);
+    return variants.length > 0 ? variants.map(variant => this.apply(product, variant)) : [product];
+  }
+
+  /**
+   * Product name with the variant, as shown in the cart and order messages
+   */
+  static getName(product: ProductItem, variant: ProductVariant | undefined): string {
+    return variant ? `${product.name} (${variant.name})` : product.name;
+  }
+
+  static nextId(variants: ProductVariant[]): number {
+    return Math.max(0, ...variants.map(variant => variant.id)) + 1;
+  }
+}
+
+export default VariantUtils;
@@ -0,0 +1,28 @@
+// Currency conversion tests for Portfolio Application
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CurrencySetting } from '../src/types.js';
+import { CurrencyUtils } from '../src/currency.js';
+import { PricingUtils } from '../src/pricing.js';
+import { createProduct } from './fixtures.js';
+
+const usd: CurrencySetting = { code: 'USD', rate: 16000, rounding: 'cents', active: true };
+
+test('a fixed foreign price is the regular price outside a sale', () => {
+  const product = createProduct({
+    price: 80000,
+    originalPrice: 100000,
+    saleEndsAt: '2026-01-01T00:00:00.000Z',
+    currencyPrices: { USD: 10 }
+  });
+
+  const { price } = PricingUtils.getPrice(product, new Date('2026-02-01T00:00:00.000Z'));
+  assert.equal(CurrencyUtils.convertPrice(price, usd, product), 10);
+});
+
+test('a sale price keeps its discount against the fixed foreign price', () => {
+  const product = createProduct({ price: 80000, originalPrice: 100000, currencyPrices: { USD: 10 } });
+
+  const { price } = PricingUtils.getPrice(product);
+  assert.equal(CurrencyUtils.convertPrice(price, usd, product), 8);
+});
@@ -0,0 +1,36 @@
+// Test data for Portfolio Application tests
+import { ProductItem, Order } from '../src/types.js';
+
+export function createProduct(changes: Partial<ProductItem> = {}): ProductItem {
+  return {
+    id: 1,
+    name: 'Poster',
+    category: 'print',
+    price: 100000,
+    image: '',
+    description: '',
+    status: 'active',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...changes
+  };
+}
+
+/**
+ * A paid order for a number of units of the product from createProduct
+ */
+export function createOrder(quantity: number, changes: Partial<Order> = {}): Order {
+  return {
+    id: 1,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    status: 'paid',
+    source: 'cart',
+    currency: 'IDR',
+    lines: [{ productId: 1, name: 'Poster', quantity, unitPrice: 100000, lineTotal: 100000 * quantity }],
+    subtotal: 100000 * quantity,
+    discount: 0,
+    total: 100000 * quantity,
+    totalIdr: 100000 * quantity,
+    ...changes
+  };
+}
@@ -0,0 +1,20 @@
+// Schema migration tests for Portfolio Application
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StorageKeys } from '../src/types.js';
+import { SchemaMigrator } from '../src/migrations.js';
+
+test('short placeholders in the site-wide product template are rewritten', () => {
+  // Saved after category templates were migrated, before site settings were
+  const stored = {
+    schemaVersion: 3,
+    data: { siteName: 'Studio', messageTemplates: { product: 'Halo, saya mau {name} seharga {price} di {site.name}' } }
+  };
+
+  const { data } = SchemaMigrator.upgrade(StorageKeys.SITE_SETTINGS, stored);
+
+  assert.deepEqual(data, {
+    siteName: 'Studio',
+    messageTemplates: { product: 'Halo, saya mau {product.name} seharga {product.price} di {site.name}' }
+  });
+});
@@ -0,0 +1,107 @@
+// Order log tests for Portfolio Application
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OrderInput } from '../src/types.js';
+import { OrderUtils } from '../src/orders.js';
+import { BASE_CURRENCY } from '../src/currency.js';
+import { CartUtils } from '../src/cart.js';
+import { createProduct } from './fixtures.js';
+
+const products = [
+  createProduct(),
+  createProduct({
+    id: 2,
+    name: 'Brush Set',
+    category: 'digital',
+    price: 50000,
+    variants: [
+      { id: 1, name: 'Personal', price: 50000, active: true },
+      { id: 2, name: 'Komersial', price: 150000, active: true }
+    ]
+  })
+];
+
+function createInput(): OrderInput {
+  return {
+    createdAt: '2026-10-01T10:00:00.000Z',
+    status: 'new',
+    source: 'cart',
+    currency: 'IDR',
+    lines: [{ productId: 1, name: 'Poster', quantity: 2, unitPrice: 100000 }],
+    discount: 20000,
+    shipping: 15000,
+    shippingZone: 'Jabodetabek'
+  };
+}
+
+test('a sent cart is recorded as a new order', () => {
+  const summary = CartUtils.summarize([{ productId: 2, variantId: 2, quantity: 1 }], products, []);
+  const now = new Date('2026-10-01T10:00:00.000Z');
+
+  const order = OrderUtils.create([], summary, summary, BASE_CURRENCY, 'cart', now);
+
+  assert.equal(order.id, 1);
+  assert.equal(order.status, 'new');
+  assert.equal(order.createdAt, now.toISOString());
+  assert.deepEqual(order.lines, [
+    { productId: 2, variantId: 2, name: 'Brush Set (Komersial)', quantity: 1, unitPrice: 150000, lineTotal: 150000 }
+  ]);
+  assert.equal(order.total, 150000);
+});
+
+test('a cart checkout message is read back into lines, coupon and zone', () => {
+  const message = [
+    'Halo, saya ingin memesan:',
+    '1. Poster x2 @ Rp 100.000 - Rp 200.000',
+    '2. Brush Set (Komersial) - Rp 150.000',
+    '3. Kaos - Rp 80.000',
+    'Kupon HEMAT10 - hemat Rp 35.000',
+    'Ongkir Jabodetabek (1,2 kg) - Rp 15.000',
+    'Total: Rp 330.000'
+  ].join('\n');
+
+  const parsed = OrderUtils.parseMessage(message, products);
+
+  assert.equal(parsed.source, 'cart');
+  assert.deepEqual(parsed.lines, [
+    { productId: 1, quantity: 2 },
+    { productId: 2, variantId: 2, quantity: 1 }
+  ]);
+  assert.deepEqual(parsed.unmatched, ['Kaos']);
+  assert.equal(parsed.couponCode, 'HEMAT10');
+  assert.equal(parsed.shippingZone, 'Jabodetabek');
+});
+
+test('a product message is read as a direct order of one unit', () => {
+  const message = 'Halo, saya tertarik dengan Brush Set (Personal) seharga Rp 50.000.\nKode kupon: hemat10 (hemat Rp 5.000)';
+
+  const parsed = OrderUtils.parseMessage(message, products);
+
+  assert.equal(parsed.source, 'direct');
+  assert.deepEqual(parsed.lines, [{ productId: 2, variantId: 1, quantity: 1 }]);
+  assert.equal(parsed.couponCode, 'HEMAT10');
+});
+
+test('an order entered in the admin adds up its lines, discount and shipping', () => {
+  const order = OrderUtils.fromInput([], createInput(), BASE_CURRENCY);
+
+  assert.equal(order.id, 1);
+  assert.equal(order.lines[0]?.lineTotal, 200000);
+  assert.equal(order.subtotal, 200000);
+  assert.equal(order.total, 195000);
+  assert.equal(order.totalIdr, 195000);
+  assert.equal(order.shipping, 15000);
+  assert.equal(order.updatedAt, undefined);
+});
+
+test('editing an order keeps its id and invoice', () => {
+  const existing = { ...OrderUtils.fromInput([], createInput(), BASE_CURRENCY), id: 7, invoiceNumber: 'INV-0001' };
+  const now = new Date('2026-10-02T08:00:00.000Z');
+
+  const order = OrderUtils.fromInput([existing], { ...createInput(), discount: 0 }, BASE_CURRENCY, existing, now);
+
+  assert.equal(order.id, 7);
+  assert.equal(order.invoiceNumber, 'INV-0001');
+  assert.equal(order.total, 215000);
+  assert.equal(order.updatedAt, now.toISOString());
+});
@@ -0,0 +1,25 @@
+// Coupon and bundle tests for Portfolio Application
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Coupon } from '../src/types.js';
+import { PromoUtils } from '../src/promotions.js';
+import { createOrder } from './fixtures.js';
+
+test('coupon use is counted from orders that were not cancelled', () => {
+  const coupons: Coupon[] = [
+    { id: 1, code: 'HEMAT10', type: 'percent', value: 10, usageLimit: 2, usedCount: 5, active: true },
+    { id: 2, code: 'ONGKIR', type: 'fixed', value: 15000, active: true }
+  ];
+  const orders = [
+    createOrder(1, { id: 1, couponCode: 'HEMAT10' }),
+    createOrder(1, { id: 2, couponCode: 'hemat10', status: 'new' }),
+    createOrder(1, { id: 3, couponCode: 'HEMAT10', status: 'cancelled' })
+  ];
+
+  assert.equal(PromoUtils.countUses(coupons, orders), true);
+  assert.equal(coupons[0]?.usedCount, 2);
+  assert.equal(coupons[1]?.usedCount, undefined);
+  assert.equal(PromoUtils.getCouponError(coupons[0]), 'Kuota kupon sudah habis');
+
+  assert.equal(PromoUtils.countUses(coupons, orders), false);
+});
@@ -0,0 +1,38 @@
+// Stock tracking tests for Portfolio Application
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StockUtils } from '../src/stock.js';
+import { createProduct, createOrder } from './fixtures.js';
+
+test('cancelling an order puts back only the units it took', () => {
+  const products = [createProduct({ stock: 2 })];
+  const order = createOrder(5);
+
+  assert.equal(StockUtils.applyOrder(products, order, -1), true);
+  assert.equal(products[0]?.stock, 0);
+  assert.equal(order.lines[0]?.stockDeducted, 2);
+
+  assert.equal(StockUtils.applyOrder(products, order, 1), true);
+  assert.equal(products[0]?.stock, 2);
+  assert.equal(order.lines[0]?.stockDeducted, undefined);
+});
+
+test('an order within stock takes and returns its full quantity', () => {
+  const products = [createProduct({ stock: 10 })];
+  const order = createOrder(3);
+
+  StockUtils.applyOrder(products, order, -1);
+  assert.equal(products[0]?.stock, 7);
+
+  StockUtils.applyOrder(products, order, 1);
+  assert.equal(products[0]?.stock, 10);
+});
+
+test('untracked products are left alone', () => {
+  const products = [createProduct()];
+  const order = createOrder(5);
+
+  assert.equal(StockUtils.applyOrder(products, order, -1), false);
+  assert.equal(products[0]?.stock, undefined);
+  assert.equal(order.lines[0]?.stockDeducted, undefined);
+});